@@ -5,9 +5,14 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { Analytics } from '@vercel/analytics/react';
 import { Header } from "@/components/Header";
+import { PgVersionProvider } from "@/components/PgVersionProvider";
+import { SchemaCatalogProvider } from "@/components/SchemaCatalogProvider";
 import Index from "./pages/Index";
 import LockDetail from "./pages/LockDetail";
 import QueryComparison from "./pages/QueryComparison";
+import Schema from "./pages/Schema";
+import Plan from "./pages/Plan";
+import Simulate from "./pages/Simulate";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -17,20 +22,27 @@ const App = () => (
     <TooltipProvider delayDuration={300} skipDelayDuration={100}>
       <Toaster />
       <Sonner />
-      <BrowserRouter>
-        <div className="min-h-screen bg-background">
-          <Header />
-          <main>
-            <Routes>
-              <Route path="/" element={<Index />} />
-              <Route path="/compare" element={<QueryComparison />} />
-              <Route path="/lock/:lockName" element={<LockDetail />} />
-              {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-              <Route path="*" element={<NotFound />} />
-            </Routes>
-          </main>
-        </div>
-      </BrowserRouter>
+      <PgVersionProvider>
+        <SchemaCatalogProvider>
+          <BrowserRouter>
+            <div className="min-h-screen bg-background">
+              <Header />
+              <main>
+                <Routes>
+                  <Route path="/" element={<Index />} />
+                  <Route path="/compare" element={<QueryComparison />} />
+                  <Route path="/schema" element={<Schema />} />
+                  <Route path="/plan" element={<Plan />} />
+                  <Route path="/simulate" element={<Simulate />} />
+                  <Route path="/lock/:lockName" element={<LockDetail />} />
+                  {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+                  <Route path="*" element={<NotFound />} />
+                </Routes>
+              </main>
+            </div>
+          </BrowserRouter>
+        </SchemaCatalogProvider>
+      </PgVersionProvider>
       <Analytics />
     </TooltipProvider>
   </QueryClientProvider>
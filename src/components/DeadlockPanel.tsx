@@ -0,0 +1,85 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Link } from "react-router-dom";
+import { Repeat, CheckCircle2 } from "lucide-react";
+import { PotentialDeadlock } from "@/lib/deadlockDetection";
+
+interface DeadlockPanelProps {
+  deadlocks: PotentialDeadlock[];
+  sessionNames: string[];
+}
+
+export const DeadlockPanel = ({ deadlocks, sessionNames }: DeadlockPanelProps) => {
+  return (
+    <Card className="shadow-elegant">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Repeat className="h-5 w-5 text-primary" />
+          Potential Deadlocks
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Transactions of different sessions that lock the same tables in a
+          different order, in conflicting modes. Whether they deadlock depends
+          on how they interleave - the steps below show one interleaving that
+          does.
+        </p>
+      </CardHeader>
+      <CardContent>
+        {deadlocks.length === 0 ? (
+          <p className="text-sm text-muted-foreground flex items-center gap-2">
+            <CheckCircle2 className="h-4 w-4 text-success" />
+            No lock-ordering cycles found.
+          </p>
+        ) : (
+          <ul className="space-y-6">
+            {deadlocks.map((deadlock, i) => (
+              <li key={i} className="border-l-2 border-primary/30 pl-4 space-y-3">
+                <div className="space-y-1">
+                  {deadlock.participants.map((participant) => (
+                    <div
+                      key={participant.session}
+                      className="flex flex-wrap items-center gap-2 text-sm"
+                    >
+                      <span className="font-semibold">
+                        {sessionNames[participant.session]}
+                      </span>
+                      <span className="text-muted-foreground">holds</span>
+                      <Link to={`/lock/${encodeURIComponent(participant.holds.lockMode)}`}>
+                        <Badge
+                          variant="outline"
+                          className="font-mono text-xs cursor-pointer hover:opacity-80 transition-opacity"
+                        >
+                          {participant.holds.table}: {participant.holds.lockMode}
+                        </Badge>
+                      </Link>
+                      <span className="text-muted-foreground">and waits for</span>
+                      <Link to={`/lock/${encodeURIComponent(participant.waitsFor.lockMode)}`}>
+                        <Badge
+                          variant="outline"
+                          className="font-mono text-xs cursor-pointer hover:opacity-80 transition-opacity"
+                        >
+                          {participant.waitsFor.table}: {participant.waitsFor.lockMode}
+                        </Badge>
+                      </Link>
+                    </div>
+                  ))}
+                </div>
+                <ol className="space-y-1 list-decimal list-inside">
+                  {deadlock.interleaving.map((step, j) => (
+                    <li key={j} className="text-sm">
+                      {step.description}
+                    </li>
+                  ))}
+                </ol>
+                <p className="text-sm">
+                  <span className="font-semibold">Instead: </span>
+                  {deadlock.suggestion}
+                </p>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,28 @@
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+
+interface ForeignKeysInputProps {
+  value: string;
+  onChange: (value: string) => void;
+}
+
+export const ForeignKeysInput = ({ value, onChange }: ForeignKeysInputProps) => {
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="foreign-keys" className="text-sm font-semibold text-foreground">
+        Foreign Keys
+      </Label>
+      <Textarea
+        id="foreign-keys"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={"orders(customer_id) -> customers(id) ON DELETE CASCADE\norder_items(order_id) -> orders"}
+        className="font-mono text-sm min-h-[60px]"
+      />
+      <p className="text-xs text-muted-foreground">
+        One foreign key per line, with its ON DELETE and ON UPDATE actions.
+        Without columns, the primary key of the referenced table is used.
+      </p>
+    </div>
+  );
+};
@@ -1,6 +1,7 @@
 import { Link, useLocation } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
+import { PgVersionSelect } from "@/components/PgVersionSelect";
 
 const GitHubIcon = () => (
   <svg 
@@ -52,6 +53,39 @@ export const Header = () => {
           >
             Compare Queries
           </Link>
+          <Link 
+            to="/schema" 
+            className={cn(
+              "text-sm font-medium transition-colors hover:text-primary",
+              location.pathname === "/schema" 
+                ? "text-primary" 
+                : "text-muted-foreground"
+            )}
+          >
+            Schema
+          </Link>
+          <Link 
+            to="/plan" 
+            className={cn(
+              "text-sm font-medium transition-colors hover:text-primary",
+              location.pathname === "/plan" 
+                ? "text-primary" 
+                : "text-muted-foreground"
+            )}
+          >
+            Plan
+          </Link>
+          <Link 
+            to="/simulate" 
+            className={cn(
+              "text-sm font-medium transition-colors hover:text-primary",
+              location.pathname === "/simulate" 
+                ? "text-primary" 
+                : "text-muted-foreground"
+            )}
+          >
+            Simulate
+          </Link>
         </nav>
 
         {/* Mobile Navigation */}
@@ -78,25 +112,62 @@ export const Header = () => {
           >
             Compare
           </Link>
+          <Link 
+            to="/schema" 
+            className={cn(
+              "text-xs font-medium transition-colors hover:text-primary",
+              location.pathname === "/schema" 
+                ? "text-primary" 
+                : "text-muted-foreground"
+            )}
+          >
+            Schema
+          </Link>
+          <Link 
+            to="/plan" 
+            className={cn(
+              "text-xs font-medium transition-colors hover:text-primary",
+              location.pathname === "/plan" 
+                ? "text-primary" 
+                : "text-muted-foreground"
+            )}
+          >
+            Plan
+          </Link>
+          <Link 
+            to="/simulate" 
+            className={cn(
+              "text-xs font-medium transition-colors hover:text-primary",
+              location.pathname === "/simulate" 
+                ? "text-primary" 
+                : "text-muted-foreground"
+            )}
+          >
+            Simulate
+          </Link>
         </nav>
 
-        {/* GitHub Link */}
-        <Button
-          variant="ghost"
-          size="sm"
-          asChild
-          className="ml-4"
-        >
-          <a
-            href="https://github.com/vgrozdanic/pg-locks"
-            target="_blank"
-            rel="noopener noreferrer"
-            className="flex items-center gap-2"
+        <div className="flex items-center gap-2 ml-4">
+          {/* PostgreSQL version used for parsing and lock rules */}
+          <PgVersionSelect />
+
+          {/* GitHub Link */}
+          <Button
+            variant="ghost"
+            size="sm"
+            asChild
           >
-            <GitHubIcon />
-            <span className="hidden sm:inline">GitHub</span>
-          </a>
-        </Button>
+            <a
+              href="https://github.com/vgrozdanic/pg-locks"
+              target="_blank"
+              rel="noopener noreferrer"
+              className="flex items-center gap-2"
+            >
+              <GitHubIcon />
+              <span className="hidden sm:inline">GitHub</span>
+            </a>
+          </Button>
+        </div>
       </div>
     </header>
   );
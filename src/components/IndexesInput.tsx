@@ -0,0 +1,28 @@
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+
+interface IndexesInputProps {
+  value: string;
+  onChange: (value: string) => void;
+}
+
+export const IndexesInput = ({ value, onChange }: IndexesInputProps) => {
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="indexes" className="text-sm font-semibold text-foreground">
+        Indexes
+      </Label>
+      <Textarea
+        id="indexes"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={"orders: orders_pkey, idx_orders_customer_id"}
+        className="font-mono text-sm min-h-[60px]"
+      />
+      <p className="text-xs text-muted-foreground">
+        One table per line with its indexes. Index locks are reported for
+        tables whose indexes are listed here or in the loaded schema.
+      </p>
+    </div>
+  );
+};
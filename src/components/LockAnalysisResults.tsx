@@ -1,8 +1,10 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { FileQuestion, Database, AlertTriangle } from "lucide-react";
+import { FileQuestion, Database, AlertTriangle, Timer, Hourglass } from "lucide-react";
 import { useState } from "react";
 import { Link } from "react-router-dom";
+import { AlterTableAction, IndexLockInfo, TableRole, TimeoutSettings, formatTableName } from "@/lib/sqlParser";
+import { ROW_LOCK_MODES, COMMAND_LOCK_HISTORY, LOCK_DURATIONS, LockDuration } from "@/lib/lockData";
 
 // Simple tooltip component that definitely works
 const SimpleTooltip = ({
@@ -34,23 +36,91 @@ const SimpleTooltip = ({
   );
 };
 
+// How each role of a table in the statement is shown on its card
+const TABLE_ROLES: Record<TableRole, { label: string; description: string }> = {
+  target: {
+    label: "Target",
+    description: "The table the statement modifies or acts on.",
+  },
+  source: {
+    label: "Source",
+    description: "Read in FROM, JOIN, USING or the source of INSERT ... SELECT.",
+  },
+  subquery: {
+    label: "Subquery",
+    description: "Read by a subquery in a condition or expression.",
+  },
+  cte: {
+    label: "CTE",
+    description: "Read by a WITH query (common table expression).",
+  },
+  referenced: {
+    label: "FK referenced",
+    description: "Referenced by a foreign key of the target - locked while the constraint is added or checked.",
+  },
+  referencing: {
+    label: "FK referencing",
+    description: "Has a foreign key referencing the target - its rows are checked, updated or deleted by the foreign key.",
+  },
+  partition: {
+    label: "Partition",
+    description: "The partition that is attached or detached.",
+  },
+  parent: {
+    label: "Inheritance parent",
+    description: "The parent table the target inherits from or no longer inherits from.",
+  },
+};
+
 export interface LockAnalysis {
   table: string;
+  catalog?: string;
+  schema?: string;
+  name?: string;
   lockMode: string;
   description: string;
   conflicts: string[];
+  only?: boolean;
+  nowait?: boolean;
+  skipLocked?: boolean;
+  rowLock?: string;
+  role?: TableRole;
+  cte?: string;
+  partitionOf?: string;
+  defaultPartition?: boolean;
+  view?: string;
+  trigger?: string;
+  routine?: string;
+  duration?: LockDuration;
+  reason?: string;
+  notes?: string[];
+  indexes?: IndexLockInfo[];
 }
 
 interface LockAnalysisResultsProps {
   results: LockAnalysis[];
   queryType?: string;
+  title?: string;
+  statementSql?: string;
+  actions?: AlterTableAction[];
+  notes?: string[];
+  timeouts?: TimeoutSettings;
+  version: number; // the PostgreSQL version the results were analyzed for
 }
 
 export const LockAnalysisResults = ({
   results,
   queryType,
+  title = "Lock Analysis Results",
+  statementSql,
+  actions = [],
+  notes = [],
+  timeouts,
+  version,
 }: LockAnalysisResultsProps) => {
-  if (results.length === 0) {
+
+  // Statements of a script are always shown, even when they don't lock any table
+  if (results.length === 0 && !statementSql && notes.length === 0) {
     return null;
   }
 
@@ -85,6 +155,17 @@ export const LockAnalysisResults = ({
     }
   };
 
+  // Lock rules of the command (and of every ALTER TABLE action) that differ between versions
+  const versionCommands = Array.from(
+    new Set([
+      ...(queryType ? [queryType] : []),
+      ...actions.map((action) => `ALTER TABLE ${action.action}`),
+    ])
+  );
+  const versionChanges = versionCommands.flatMap(
+    (command) => COMMAND_LOCK_HISTORY[command] || []
+  );
+
   const getLockBadgeVariant = (lockMode: string) => {
     switch (lockMode) {
       case "ACCESS SHARE":
@@ -108,15 +189,24 @@ export const LockAnalysisResults = ({
     }
   };
 
+  const getDurationBadgeVariant = (duration: LockDuration) => {
+    switch (duration) {
+      case "rewrite":
+        return "destructive";
+      case "scan":
+        return "outline";
+      default:
+        return "secondary";
+    }
+  };
+
   return (
     <div className="space-y-6">
-      <h2 className="text-2xl font-bold text-foreground">
-        Lock Analysis Results
-      </h2>
+      <h2 className="text-2xl font-bold text-foreground">{title}</h2>
 
       {queryType && (
         <Card className="border-primary/20 bg-gradient-to-r from-primary/5 to-accent/5">
-          <CardContent className="pt-6">
+          <CardContent className="pt-6 space-y-3">
             <div className="flex items-center gap-2">
               <FileQuestion className="h-5 w-5 text-primary" />
               <span className="text-sm font-medium">Query Type:</span>
@@ -124,10 +214,128 @@ export const LockAnalysisResults = ({
                 {queryType}
               </Badge>
             </div>
+            {statementSql && (
+              <pre className="text-xs font-mono bg-muted/50 rounded p-3 whitespace-pre-wrap break-words">
+                {statementSql}
+              </pre>
+            )}
+            {actions.length > 0 && (
+              <div>
+                <h4 className="font-semibold text-sm text-muted-foreground mb-2">
+                  Actions
+                </h4>
+                <ul className="space-y-1">
+                  {actions.map((action, i) => (
+                    <li
+                      key={i}
+                      className="flex flex-wrap items-center justify-between gap-2 text-sm"
+                    >
+                      <span className="font-mono">
+                        {action.action || "ALTER"}
+                        {action.target && (
+                          <span className="text-muted-foreground">
+                            {" "}
+                            ({action.target})
+                          </span>
+                        )}
+                      </span>
+                      <span className="flex items-center gap-2">
+                        <SimpleTooltip
+                          content={
+                            action.durationNote ||
+                            LOCK_DURATIONS[action.duration].description
+                          }
+                        >
+                          <Badge
+                            variant={getDurationBadgeVariant(action.duration)}
+                            className="text-xs"
+                          >
+                            {LOCK_DURATIONS[action.duration].label}
+                          </Badge>
+                        </SimpleTooltip>
+                        <Link to={`/lock/${encodeURIComponent(action.lockMode)}`}>
+                          <Badge
+                            variant={getLockBadgeVariant(action.lockMode)}
+                            className="font-mono text-xs cursor-pointer hover:opacity-80 transition-opacity"
+                          >
+                            {action.lockMode}
+                          </Badge>
+                        </Link>
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            {versionChanges.length > 0 && (
+              <div>
+                <h4 className="font-semibold text-sm text-muted-foreground mb-2">
+                  Version Differences
+                </h4>
+                <ul className="space-y-1">
+                  {versionChanges.map((change, i) => (
+                    <li
+                      key={i}
+                      className={
+                        version < change.before
+                          ? "text-sm text-warning flex items-center gap-1"
+                          : "text-sm text-muted-foreground"
+                      }
+                    >
+                      {version < change.before && (
+                        <AlertTriangle className="h-3 w-3 shrink-0" />
+                      )}
+                      {change.note}
+                      {version < change.before &&
+                        ` - applies to PostgreSQL ${version}`}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            {timeouts && (
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <Hourglass className="h-4 w-4 text-muted-foreground" />
+                <span className="text-muted-foreground">Timeouts:</span>
+                {timeouts.lockTimeout && (
+                  <SimpleTooltip content="lock_timeout - the statement fails instead of waiting longer for a lock.">
+                    <Badge variant="outline" className="font-mono text-xs">
+                      lock_timeout {timeouts.lockTimeout}
+                    </Badge>
+                  </SimpleTooltip>
+                )}
+                {timeouts.statementTimeout && (
+                  <SimpleTooltip content="statement_timeout - the statement is cancelled when it runs longer, including the time it waits for locks.">
+                    <Badge variant="outline" className="font-mono text-xs">
+                      statement_timeout {timeouts.statementTimeout}
+                    </Badge>
+                  </SimpleTooltip>
+                )}
+              </div>
+            )}
+            {notes.length > 0 && (
+              <ul className="space-y-1">
+                {notes.map((note, i) => (
+                  <li
+                    key={i}
+                    className="text-sm text-warning flex items-center gap-1"
+                  >
+                    <AlertTriangle className="h-3 w-3 shrink-0" />
+                    {note}
+                  </li>
+                ))}
+              </ul>
+            )}
           </CardContent>
         </Card>
       )}
 
+      {results.length === 0 && (
+        <p className="text-sm text-muted-foreground">
+          This statement does not acquire any table-level locks.
+        </p>
+      )}
+
       <div className="grid gap-4">
         {results.map((result, index) => (
           <Card key={index} className="shadow-elegant">
@@ -136,7 +344,85 @@ export const LockAnalysisResults = ({
                 <CardTitle className="flex items-center gap-2 text-lg">
                   <Database className="h-5 w-5 text-database-blue" />
                   Table:{" "}
-                  <code className="font-mono text-primary">{result.table}</code>
+                  <code className="font-mono text-primary">
+                    {result.schema && result.name
+                      ? formatTableName({
+                          catalog: result.catalog,
+                          schema: result.schema,
+                          name: result.name,
+                        })
+                      : result.table}
+                  </code>
+                  {result.role && (
+                    <SimpleTooltip content={TABLE_ROLES[result.role].description}>
+                      <Badge variant="secondary" className="text-xs">
+                        {TABLE_ROLES[result.role].label}
+                      </Badge>
+                    </SimpleTooltip>
+                  )}
+                  {result.cte && (
+                    <SimpleTooltip content={`Modified by the data-modifying WITH query "${result.cte}", which takes its own lock whatever the outer statement is.`}>
+                      <Badge variant="outline" className="font-mono text-xs">
+                        via CTE {result.cte}
+                      </Badge>
+                    </SimpleTooltip>
+                  )}
+                  {result.partitionOf && (
+                    <SimpleTooltip content={`Locked because ${result.partitionOf} is locked - statements on a partitioned table or inheritance parent lock its children too.`}>
+                      <Badge variant="outline" className="font-mono text-xs">
+                        child of {result.partitionOf}
+                      </Badge>
+                    </SimpleTooltip>
+                  )}
+                  {result.view && (
+                    <SimpleTooltip content={`Locked through the view ${result.view} - a query on a view runs on the tables of the view's definition.`}>
+                      <Badge variant="outline" className="font-mono text-xs">
+                        via view {result.view}
+                      </Badge>
+                    </SimpleTooltip>
+                  )}
+                  {result.trigger && (
+                    <SimpleTooltip content={`Locked by a statement of the function the trigger ${result.trigger} runs.`}>
+                      <Badge variant="outline" className="font-mono text-xs">
+                        via trigger {result.trigger}
+                      </Badge>
+                    </SimpleTooltip>
+                  )}
+                  {result.routine && (
+                    <SimpleTooltip content={`Locked by a statement of ${result.routine} - its statements run in the transaction of the statement that runs it.`}>
+                      <Badge variant="outline" className="font-mono text-xs">
+                        via {result.routine}
+                      </Badge>
+                    </SimpleTooltip>
+                  )}
+                  {result.defaultPartition && (
+                    <SimpleTooltip content="The default partition holds every row no other partition accepts, so attaching or detaching a partition changes its constraint.">
+                      <Badge variant="outline" className="font-mono text-xs">
+                        DEFAULT
+                      </Badge>
+                    </SimpleTooltip>
+                  )}
+                  {result.only && (
+                    <SimpleTooltip content="ONLY - tables inheriting from this table (partitions, children) are not included.">
+                      <Badge variant="outline" className="font-mono text-xs">
+                        ONLY
+                      </Badge>
+                    </SimpleTooltip>
+                  )}
+                  {result.skipLocked && (
+                    <SimpleTooltip content="SKIP LOCKED - rows that are locked by other transactions are skipped instead of waited for.">
+                      <Badge variant="outline" className="font-mono text-xs">
+                        SKIP LOCKED
+                      </Badge>
+                    </SimpleTooltip>
+                  )}
+                  {result.nowait && (
+                    <SimpleTooltip content="NOWAIT - the statement fails immediately instead of waiting if the lock cannot be acquired at once.">
+                      <Badge variant="outline" className="font-mono text-xs">
+                        NOWAIT
+                      </Badge>
+                    </SimpleTooltip>
+                  )}
                 </CardTitle>
                 <SimpleTooltip content={result.description}>
                   <Link to={`/lock/${encodeURIComponent(result.lockMode)}`}>
@@ -158,6 +444,99 @@ export const LockAnalysisResults = ({
                 <p className="text-sm">{result.description}</p>
               </div>
 
+              {result.duration && (
+                <div className="flex items-center gap-2 text-sm">
+                  <Timer className="h-4 w-4 text-muted-foreground" />
+                  <span className="text-muted-foreground">Lock held for:</span>
+                  <SimpleTooltip content={LOCK_DURATIONS[result.duration].description}>
+                    <Badge
+                      variant={getDurationBadgeVariant(result.duration)}
+                      className="text-xs"
+                    >
+                      {LOCK_DURATIONS[result.duration].label}
+                    </Badge>
+                  </SimpleTooltip>
+                </div>
+              )}
+
+              {result.reason && (
+                <div>
+                  <h4 className="font-semibold text-sm text-muted-foreground mb-2">
+                    Why It Is Locked
+                  </h4>
+                  <p className="text-sm">{result.reason}</p>
+                </div>
+              )}
+
+              {result.notes && result.notes.length > 0 && (
+                <ul className="space-y-1">
+                  {result.notes.map((note, i) => (
+                    <li
+                      key={i}
+                      className="text-sm text-warning flex items-center gap-1"
+                    >
+                      <AlertTriangle className="h-3 w-3 shrink-0" />
+                      {note}
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              {result.rowLock && ROW_LOCK_MODES[result.rowLock] && (
+                <div>
+                  <h4 className="font-semibold text-sm text-muted-foreground mb-2">
+                    Row-level Lock
+                  </h4>
+                  <div className="flex flex-wrap items-center gap-2">
+                    <SimpleTooltip content={ROW_LOCK_MODES[result.rowLock].details}>
+                      <Badge variant="outline" className="font-mono text-xs">
+                        {result.rowLock}
+                      </Badge>
+                    </SimpleTooltip>
+                    <span className="text-sm">
+                      {ROW_LOCK_MODES[result.rowLock].description}
+                    </span>
+                  </div>
+                </div>
+              )}
+
+              {result.indexes && result.indexes.length > 0 && (
+                <div>
+                  <h4 className="font-semibold text-sm text-muted-foreground mb-2">
+                    Index Locks
+                  </h4>
+                  <ul className="space-y-1">
+                    {result.indexes.map((index) => (
+                      <li
+                        key={index.index}
+                        className="flex flex-wrap items-center justify-between gap-2 text-sm"
+                      >
+                        <span className="flex items-center gap-2">
+                          <code className="font-mono">{index.index}</code>
+                          {index.isNew && (
+                            <SimpleTooltip content="Created by this statement - other transactions can't see it until the statement commits.">
+                              <Badge variant="outline" className="text-xs">
+                                new
+                              </Badge>
+                            </SimpleTooltip>
+                          )}
+                        </span>
+                        <SimpleTooltip content={index.description}>
+                          <Link to={`/lock/${encodeURIComponent(index.lockMode)}`}>
+                            <Badge
+                              variant={getLockBadgeVariant(index.lockMode)}
+                              className="font-mono text-xs cursor-pointer hover:opacity-80 transition-opacity"
+                            >
+                              {index.lockMode}
+                            </Badge>
+                          </Link>
+                        </SimpleTooltip>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
               {result.conflicts.length > 0 && (
                 <div>
                   <h4 className="font-semibold text-sm text-muted-foreground mb-2 flex items-center gap-2">
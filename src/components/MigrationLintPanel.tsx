@@ -0,0 +1,80 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { ShieldAlert, CheckCircle2 } from "lucide-react";
+import { LintFinding } from "@/lib/migrationLinter";
+
+interface MigrationLintPanelProps {
+  findings: LintFinding[];
+  statementCount: number;
+}
+
+export const MigrationLintPanel = ({
+  findings,
+  statementCount,
+}: MigrationLintPanelProps) => {
+  return (
+    <Card className="shadow-elegant">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldAlert className="h-5 w-5 text-primary" />
+          Migration Safety
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Patterns that are known to block production traffic. Turn a rule off
+          for a statement with a{" "}
+          <code className="font-mono text-xs">-- pglocks:disable rule-id</code>{" "}
+          comment in front of it or at the end of its line.
+        </p>
+      </CardHeader>
+      <CardContent>
+        {findings.length === 0 ? (
+          <p className="text-sm text-muted-foreground flex items-center gap-2">
+            <CheckCircle2 className="h-4 w-4 text-success" />
+            No dangerous patterns found.
+          </p>
+        ) : (
+          <ul className="space-y-4">
+            {findings.map((finding, i) => (
+              <li
+                key={i}
+                className="border-l-2 border-primary/30 pl-4 space-y-2"
+              >
+                <div className="flex flex-wrap items-center gap-2">
+                  <Badge
+                    variant={
+                      finding.rule.severity === "error"
+                        ? "destructive"
+                        : "outline"
+                    }
+                    className="text-xs"
+                  >
+                    {finding.rule.severity}
+                  </Badge>
+                  <span className="text-sm font-semibold">
+                    {finding.rule.title}
+                  </span>
+                  <code className="font-mono text-xs text-muted-foreground">
+                    {finding.rule.id}
+                  </code>
+                </div>
+                {(statementCount > 1 || finding.tables.length > 0) && (
+                  <p className="text-xs text-muted-foreground">
+                    {statementCount > 1 &&
+                      `Statement ${finding.statementIndex + 1}`}
+                    {statementCount > 1 && finding.tables.length > 0 && " - "}
+                    {finding.tables.join(", ")}
+                  </p>
+                )}
+                <p className="text-sm">{finding.rule.explanation}</p>
+                <p className="text-sm">
+                  <span className="font-semibold">Instead: </span>
+                  {finding.rule.alternative}
+                </p>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,28 @@
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+
+interface PartitionsInputProps {
+  value: string;
+  onChange: (value: string) => void;
+}
+
+export const PartitionsInput = ({ value, onChange }: PartitionsInputProps) => {
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="partitions" className="text-sm font-semibold text-foreground">
+        Partitions
+      </Label>
+      <Textarea
+        id="partitions"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={"measurements: measurements_2024, measurements_2025, DEFAULT measurements_other\ncities (inheritance): capitals"}
+        className="font-mono text-sm min-h-[60px]"
+      />
+      <p className="text-xs text-muted-foreground">
+        One partitioned table per line with its partitions. Mark the default
+        partition with DEFAULT, and inheritance parents with (inheritance).
+      </p>
+    </div>
+  );
+};
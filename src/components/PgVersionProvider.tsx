@@ -0,0 +1,17 @@
+import { useState } from "react";
+import { PgVersionContext, loadPgVersion, savePgVersion } from "@/hooks/use-pg-version";
+
+export const PgVersionProvider = ({ children }: { children: React.ReactNode }) => {
+  const [version, setVersionState] = useState(loadPgVersion);
+
+  const setVersion = (newVersion: number) => {
+    setVersionState(newVersion);
+    savePgVersion(newVersion);
+  };
+
+  return (
+    <PgVersionContext.Provider value={{ version, setVersion }}>
+      {children}
+    </PgVersionContext.Provider>
+  );
+};
@@ -0,0 +1,34 @@
+import { PG_VERSIONS } from "@/lib/lockData";
+import { usePgVersion } from "@/hooks/use-pg-version";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+export const PgVersionSelect = () => {
+  const { version, setVersion } = usePgVersion();
+
+  return (
+    <div className="flex items-center gap-2 text-sm text-muted-foreground">
+      <span className="hidden sm:inline">PostgreSQL</span>
+      <Select
+        value={String(version)}
+        onValueChange={(value) => setVersion(Number(value))}
+      >
+        <SelectTrigger aria-label="PostgreSQL version" className="h-9 w-[4.5rem] text-foreground">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {PG_VERSIONS.map((pgVersion) => (
+            <SelectItem key={pgVersion} value={String(pgVersion)}>
+              {pgVersion}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+};
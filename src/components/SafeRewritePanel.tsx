@@ -0,0 +1,106 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { toast } from "@/components/ui/sonner";
+import { Wand2, Copy } from "lucide-react";
+import { Link } from "react-router-dom";
+import { SafeRewrite } from "@/lib/safeRewrites";
+import { TableLockInfo } from "@/lib/sqlParser";
+
+interface SafeRewritePanelProps {
+  rewrites: SafeRewrite[];
+  statementCount: number;
+}
+
+const LockFootprint = ({ locks }: { locks: TableLockInfo[] }) => (
+  <div className="flex flex-wrap gap-2">
+    {locks.map((lock) => (
+      <Link key={lock.table} to={`/lock/${encodeURIComponent(lock.lockMode)}`}>
+        <Badge
+          variant="outline"
+          className="font-mono text-xs cursor-pointer hover:opacity-80 transition-opacity"
+        >
+          {lock.table}: {lock.lockMode}
+        </Badge>
+      </Link>
+    ))}
+  </div>
+);
+
+export const SafeRewritePanel = ({
+  rewrites,
+  statementCount,
+}: SafeRewritePanelProps) => {
+  if (rewrites.length === 0) {
+    return null;
+  }
+
+  const copyRewrite = async (sql: string) => {
+    try {
+      await navigator.clipboard.writeText(sql);
+      toast.success("Rewrite copied to the clipboard");
+    } catch {
+      toast.error("Could not copy the rewrite");
+    }
+  };
+
+  return (
+    <Card className="shadow-elegant">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Wand2 className="h-5 w-5 text-primary" />
+          Safer Rewrites
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Lock-friendlier ways to run the statements that block writes, with
+          the locks each of them takes.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-8">
+        {rewrites.map((rewrite) => (
+          <div key={rewrite.statementIndex} className="space-y-3">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <h4 className="font-semibold text-sm">
+                {statementCount > 1 && `Statement ${rewrite.statementIndex + 1}: `}
+                {rewrite.title}
+              </h4>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => copyRewrite(rewrite.sql)}
+              >
+                <Copy className="h-3 w-3 mr-2" />
+                Copy
+              </Button>
+            </div>
+            <p className="text-sm text-muted-foreground">{rewrite.explanation}</p>
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <h5 className="text-xs font-semibold uppercase text-muted-foreground">
+                  Original
+                </h5>
+                <pre className="text-xs font-mono bg-muted/50 rounded p-3 whitespace-pre-wrap break-words">
+                  {rewrite.original.sql}
+                </pre>
+                <LockFootprint locks={rewrite.original.locks} />
+              </div>
+              <div className="space-y-2">
+                <h5 className="text-xs font-semibold uppercase text-muted-foreground">
+                  Rewrite
+                </h5>
+                {rewrite.statements.map((statement, i) => (
+                  <div key={i} className="space-y-2">
+                    <pre className="text-xs font-mono bg-muted/50 rounded p-3 whitespace-pre-wrap break-words">
+                      {statement.sql}
+                    </pre>
+                    <LockFootprint locks={statement.locks} />
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
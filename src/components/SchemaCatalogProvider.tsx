@@ -0,0 +1,22 @@
+import { useState } from "react";
+import {
+  SchemaCatalogContext,
+  StoredSchema,
+  loadSchema,
+  saveSchema,
+} from "@/hooks/use-schema-catalog";
+
+export const SchemaCatalogProvider = ({ children }: { children: React.ReactNode }) => {
+  const [schema, setSchemaState] = useState(loadSchema);
+
+  const setSchema = (newSchema: StoredSchema) => {
+    setSchemaState(newSchema);
+    saveSchema(newSchema);
+  };
+
+  return (
+    <SchemaCatalogContext.Provider value={{ ...schema, setSchema }}>
+      {children}
+    </SchemaCatalogContext.Provider>
+  );
+};
@@ -0,0 +1,27 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+interface SearchPathInputProps {
+  value: string;
+  onChange: (value: string) => void;
+}
+
+export const SearchPathInput = ({ value, onChange }: SearchPathInputProps) => {
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="search-path" className="text-sm font-semibold text-foreground">
+        search_path
+      </Label>
+      <Input
+        id="search-path"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder='"$user", public'
+        className="font-mono text-sm"
+      />
+      <p className="text-xs text-muted-foreground">
+        Unqualified table names resolve to the first schema in this list.
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,114 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { toast } from "@/components/ui/sonner";
+import { Hourglass, Copy } from "lucide-react";
+import { Link } from "react-router-dom";
+import { ParsedStatement } from "@/lib/sqlParser";
+import {
+  RECOMMENDED_TIMEOUTS,
+  TimeoutWarning,
+  TimeoutWrapperFormat,
+  wrapWithTimeouts,
+} from "@/lib/timeoutAnalysis";
+
+interface TimeoutPanelProps {
+  warnings: TimeoutWarning[];
+  statements: ParsedStatement[];
+}
+
+const WRAPPER_FORMATS: { format: TimeoutWrapperFormat; label: string }[] = [
+  { format: "psql", label: "psql script" },
+  { format: "plpgsql", label: "DO blocks" },
+];
+
+export const TimeoutPanel = ({ warnings, statements }: TimeoutPanelProps) => {
+  const [format, setFormat] = useState<TimeoutWrapperFormat>("psql");
+
+  if (warnings.length === 0) {
+    return null;
+  }
+
+  const wrapped = wrapWithTimeouts(statements, format);
+
+  const copyWrapped = async () => {
+    try {
+      await navigator.clipboard.writeText(wrapped);
+      toast.success("Script copied to the clipboard");
+    } catch {
+      toast.error("Could not copy the script");
+    }
+  };
+
+  return (
+    <Card className="shadow-elegant">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Hourglass className="h-5 w-5 text-primary" />
+          Lock Timeouts
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          These statements wait for their lock without a{" "}
+          <code className="font-mono text-xs">lock_timeout</code>. Queued behind
+          a long-running query, they block every later query that conflicts
+          with the lock until they get it.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <ul className="space-y-2">
+          {warnings.map((warning) => (
+            <li
+              key={warning.statementIndex}
+              className="flex flex-wrap items-center gap-2 text-sm"
+            >
+              {statements.length > 1 && (
+                <span className="font-semibold">
+                  Statement {warning.statementIndex + 1}
+                </span>
+              )}
+              <Link to={`/lock/${encodeURIComponent(warning.lockMode)}`}>
+                <Badge
+                  variant="outline"
+                  className="font-mono text-xs cursor-pointer hover:opacity-80 transition-opacity"
+                >
+                  {warning.lockMode}
+                </Badge>
+              </Link>
+              <span className="text-muted-foreground">
+                {warning.tables.join(", ")}
+              </span>
+            </li>
+          ))}
+        </ul>
+        <div className="space-y-2">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <h4 className="font-semibold text-sm">
+              With <code className="font-mono">lock_timeout = '{RECOMMENDED_TIMEOUTS.lockTimeout}'</code>{" "}
+              and retries
+            </h4>
+            <div className="flex gap-2">
+              {WRAPPER_FORMATS.map((option) => (
+                <Button
+                  key={option.format}
+                  variant={format === option.format ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => setFormat(option.format)}
+                >
+                  {option.label}
+                </Button>
+              ))}
+              <Button variant="outline" size="sm" onClick={copyWrapped}>
+                <Copy className="h-3 w-3 mr-2" />
+                Copy
+              </Button>
+            </div>
+          </div>
+          <pre className="text-xs font-mono bg-muted/50 rounded p-3 whitespace-pre-wrap break-words">
+            {wrapped}
+          </pre>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,96 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { History, AlertTriangle, Unlock } from "lucide-react";
+import { Link } from "react-router-dom";
+import { TransactionStep } from "@/lib/transactionAnalysis";
+
+interface TransactionTimelineProps {
+  steps: TransactionStep[];
+}
+
+export const TransactionTimeline = ({ steps }: TransactionTimelineProps) => {
+  if (steps.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="shadow-elegant">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5 text-primary" />
+          Transaction Timeline
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Table locks are held until the transaction ends. Each step shows every
+          lock held while the statement runs.
+        </p>
+      </CardHeader>
+      <CardContent>
+        <ol className="space-y-4">
+          {steps.map((step) => (
+            <li
+              key={step.statementIndex}
+              className="border-l-2 border-primary/30 pl-4 space-y-2"
+            >
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="text-sm font-semibold">
+                  #{step.statementIndex + 1}
+                </span>
+                <code className="font-mono text-sm text-primary">
+                  {step.command}
+                </code>
+                <Badge variant="outline" className="text-xs">
+                  {step.isAutocommit
+                    ? "Autocommit"
+                    : `Transaction ${step.transaction}`}
+                </Badge>
+              </div>
+
+              {step.held.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {step.held.map((lock) => (
+                    <Link
+                      key={lock.table}
+                      to={`/lock/${encodeURIComponent(lock.lockMode)}`}
+                    >
+                      <Badge
+                        variant={
+                          lock.acquiredBy === step.statementIndex
+                            ? "default"
+                            : "secondary"
+                        }
+                        className="font-mono text-xs cursor-pointer hover:opacity-80 transition-opacity"
+                      >
+                        {lock.table}: {lock.lockMode}
+                        {lock.acquiredBy !== step.statementIndex &&
+                          ` (held since #${lock.acquiredBy + 1})`}
+                      </Badge>
+                    </Link>
+                  ))}
+                </div>
+              )}
+
+              {step.released.length > 0 && (
+                <p className="text-xs text-muted-foreground flex items-center gap-1">
+                  <Unlock className="h-3 w-3" />
+                  Releases{" "}
+                  {step.released.map((lock) => lock.table).join(", ")}
+                </p>
+              )}
+
+              {step.warnings.map((warning, i) => (
+                <p
+                  key={i}
+                  className="text-xs text-warning flex items-center gap-1"
+                >
+                  <AlertTriangle className="h-3 w-3" />
+                  {warning}
+                </p>
+              ))}
+            </li>
+          ))}
+        </ol>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,36 @@
+import { createContext, useContext } from "react";
+import { DEFAULT_PG_VERSION, PG_VERSIONS } from "@/lib/lockData";
+
+const STORAGE_KEY = "pg-locks:pg-version";
+
+interface PgVersionContextValue {
+  version: number;
+  setVersion: (version: number) => void;
+}
+
+export const PgVersionContext = createContext<PgVersionContextValue>({
+  version: DEFAULT_PG_VERSION,
+  setVersion: () => {},
+});
+
+// The PostgreSQL version every page analyzes queries for
+export function usePgVersion() {
+  return useContext(PgVersionContext);
+}
+
+export function loadPgVersion(): number {
+  try {
+    const stored = Number(localStorage.getItem(STORAGE_KEY));
+    return PG_VERSIONS.includes(stored) ? stored : DEFAULT_PG_VERSION;
+  } catch {
+    return DEFAULT_PG_VERSION;
+  }
+}
+
+export function savePgVersion(version: number) {
+  try {
+    localStorage.setItem(STORAGE_KEY, String(version));
+  } catch {
+    // Storage may be unavailable (private browsing) - the choice only lasts for this visit
+  }
+}
@@ -0,0 +1,49 @@
+import { createContext, useContext } from "react";
+import { SchemaCatalog } from "@/lib/schemaCatalog";
+
+const STORAGE_KEY = "pg-locks:schema-catalog";
+
+export interface StoredSchema {
+  ddl: string;
+  catalog: SchemaCatalog | null;
+}
+
+interface SchemaCatalogContextValue extends StoredSchema {
+  setSchema: (schema: StoredSchema) => void;
+}
+
+export const SchemaCatalogContext = createContext<SchemaCatalogContextValue>({
+  ddl: "",
+  catalog: null,
+  setSchema: () => {},
+});
+
+// The schema pasted on the Schema page - catalog is null until one is loaded
+export function useSchemaCatalog() {
+  return useContext(SchemaCatalogContext);
+}
+
+export function loadSchema(): StoredSchema {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      const schema = JSON.parse(stored) as StoredSchema;
+      return { ddl: schema.ddl || "", catalog: schema.catalog || null };
+    }
+  } catch {
+    // Unreadable or unavailable storage - start without a schema
+  }
+  return { ddl: "", catalog: null };
+}
+
+export function saveSchema(schema: StoredSchema) {
+  try {
+    if (schema.catalog) {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(schema));
+    } else {
+      localStorage.removeItem(STORAGE_KEY);
+    }
+  } catch {
+    // Storage may be unavailable or full - the schema only lasts for this visit
+  }
+}
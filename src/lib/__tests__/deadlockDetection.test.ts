@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { parseScript } from '../sqlParser';
+import { findPotentialDeadlocks } from '../deadlockDetection';
+import { SimulationSession } from '../lockQueueSimulator';
+
+async function session(name: string, script: string): Promise<SimulationSession> {
+  const parsed = await parseScript(script);
+  return { name, statements: parsed.statements };
+}
+
+describe('Deadlock Detection', () => {
+  it('should find tables locked in the reverse order', async () => {
+    const deadlocks = findPotentialDeadlocks([
+      await session('A', `BEGIN;
+UPDATE accounts SET balance = balance - 10 WHERE id = 1;
+LOCK TABLE ledger IN SHARE ROW EXCLUSIVE MODE;
+COMMIT;`),
+      await session('B', `BEGIN;
+LOCK TABLE ledger IN EXCLUSIVE MODE;
+LOCK TABLE accounts IN SHARE MODE;
+COMMIT;`)
+    ]);
+
+    expect(deadlocks).toHaveLength(1);
+    expect(deadlocks[0].participants).toEqual([
+      {
+        session: 0,
+        holds: { table: 'public.accounts', lockMode: 'ROW EXCLUSIVE', statementIndex: 1 },
+        waitsFor: { table: 'public.ledger', lockMode: 'SHARE ROW EXCLUSIVE', statementIndex: 2 }
+      },
+      {
+        session: 1,
+        holds: { table: 'public.ledger', lockMode: 'EXCLUSIVE', statementIndex: 1 },
+        waitsFor: { table: 'public.accounts', lockMode: 'SHARE', statementIndex: 2 }
+      }
+    ]);
+    expect(deadlocks[0].interleaving.map(step => step.description)).toEqual([
+      'A runs statements 1-2 and holds ROW EXCLUSIVE on public.accounts',
+      'B runs statements 1-2 and holds EXCLUSIVE on public.ledger',
+      'A runs statement 3 and waits for SHARE ROW EXCLUSIVE on public.ledger, held by B',
+      'B runs statement 3 and waits for SHARE on public.accounts, held by A - a deadlock, PostgreSQL cancels one of the transactions after deadlock_timeout'
+    ]);
+    expect(deadlocks[0].suggestedOrder).toEqual(['public.accounts', 'public.ledger']);
+  });
+
+  it('should find lock upgrades on the same table', async () => {
+    const script = `BEGIN;
+SELECT * FROM orders FOR SHARE;
+LOCK TABLE orders IN SHARE MODE;
+UPDATE orders SET total = 0;
+COMMIT;`;
+
+    const deadlocks = findPotentialDeadlocks([await session('A', script), await session('B', script)]);
+
+    expect(deadlocks).toHaveLength(1);
+    expect(deadlocks[0].tables).toEqual(['public.orders']);
+    expect(deadlocks[0].participants.map(participant => [participant.holds.lockMode, participant.waitsFor.lockMode])).toEqual([
+      ['SHARE', 'ROW EXCLUSIVE'],
+      ['SHARE', 'ROW EXCLUSIVE']
+    ]);
+  });
+
+  it('should not report consistent lock orders or separate transactions', async () => {
+    const deadlocks = findPotentialDeadlocks([
+      await session('A', `BEGIN;
+UPDATE accounts SET balance = 0;
+UPDATE ledger SET amount = 0;
+COMMIT;`),
+      await session('B', `BEGIN;
+UPDATE accounts SET balance = 1;
+LOCK TABLE ledger;
+COMMIT;`),
+      await session('C', `LOCK TABLE ledger;
+LOCK TABLE accounts;`)
+    ]);
+
+    expect(deadlocks).toEqual([]);
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { analyzeFunctionBody } from '../functionAnalysis';
+
+describe('Function Analysis', () => {
+  it('should find the statements of a SQL function', async () => {
+    const definition = await analyzeFunctionBody(
+      'UPDATE accounts SET balance = balance - $2 WHERE id = $1; SELECT balance FROM accounts WHERE id = $1;',
+      'SQL'
+    );
+
+    expect(definition.language).toBe('sql');
+    expect(definition.statements.map(statement => statement.command)).toEqual(['UPDATE', 'SELECT']);
+  });
+
+  it('should find the statements embedded in PL/pgSQL control structures', async () => {
+    const definition = await analyzeFunctionBody(`
+DECLARE
+  total numeric := 0;
+BEGIN
+  -- UPDATE in a comment is ignored
+  IF TG_OP = 'DELETE' THEN
+    INSERT INTO orders_audit (order_id, action) VALUES (OLD.id, 'DELETE');
+    RETURN OLD;
+  END IF;
+  FOR item IN SELECT * FROM order_items WHERE order_id = NEW.id LOOP
+    total := total + item.price;
+  END LOOP;
+  UPDATE customers SET tier = CASE WHEN total > 100 THEN 'gold' ELSE tier END
+    WHERE id = NEW.customer_id RETURNING tier INTO STRICT new_tier;
+  PERFORM pg_notify('orders', NEW.id::text);
+  RETURN NEW;
+END`, 'plpgsql');
+
+    expect(definition.statements.map(statement => [statement.command, statement.relations.map(table => table.name)])).toEqual([
+      ['INSERT', ['orders_audit']],
+      ['SELECT', ['order_items']],
+      ['UPDATE', ['customers']],
+      ['SELECT', []]
+    ]);
+    expect(definition.dynamic).toBeUndefined();
+  });
+
+  it('should find the queries in conditions and returned results', async () => {
+    const definition = await analyzeFunctionBody(`
+BEGIN
+  IF EXISTS (SELECT 1 FROM blocked_customers WHERE id = NEW.customer_id) THEN
+    RAISE EXCEPTION 'customer is blocked';
+  ELSIF (SELECT count(*) FROM orders WHERE customer_id = NEW.customer_id) > 100 THEN
+    NEW.priority := 'high';
+  END IF;
+  WHILE NOT EXISTS (SELECT 1 FROM order_slots WHERE free) LOOP
+    PERFORM pg_sleep(1);
+  END LOOP;
+  RETURN QUERY SELECT * FROM order_items WHERE order_id = NEW.id;
+END`, 'plpgsql');
+
+    expect(definition.statements.map(statement => [statement.command, statement.relations.map(table => table.name)])).toEqual([
+      ['SELECT', ['blocked_customers']],
+      ['SELECT', ['orders']],
+      ['SELECT', ['order_slots']],
+      ['SELECT', []],
+      ['SELECT', ['order_items']]
+    ]);
+  });
+
+  it('should flag dynamic SQL', async () => {
+    const definition = await analyzeFunctionBody(
+      "BEGIN EXECUTE format('TRUNCATE %I', TG_ARGV[0]); RETURN NULL; END",
+      'plpgsql'
+    );
+
+    expect(definition.statements).toEqual([]);
+    expect(definition.dynamic).toBe(true);
+  });
+});
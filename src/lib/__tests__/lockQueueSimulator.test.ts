@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { parseScript } from '../sqlParser';
+import { simulateLockQueue, SimulationSession } from '../lockQueueSimulator';
+
+async function session(name: string, script: string): Promise<SimulationSession> {
+  const parsed = await parseScript(script);
+  return { name, statements: parsed.statements };
+}
+
+describe('Lock Queue Simulator', () => {
+  it('should queue reads behind a waiting ACCESS EXCLUSIVE request', async () => {
+    const result = simulateLockQueue([
+      await session('Session 1', 'BEGIN; SELECT * FROM orders; SELECT pg_sleep(1); COMMIT;'),
+      await session('Session 2', 'SELECT pg_sleep(1); ALTER TABLE orders ADD COLUMN note text;'),
+      await session('Session 3', 'SELECT pg_sleep(1); SELECT pg_sleep(1); SELECT * FROM orders;')
+    ]);
+
+    const step3 = result.steps[2];
+    expect(step3.sessions.map(state => state.status)).toEqual(['running', 'waiting', 'waiting']);
+    expect(step3.tables).toEqual([
+      {
+        table: 'public.orders',
+        granted: [{ session: 0, lockMode: 'ACCESS SHARE' }],
+        waiting: [
+          { session: 1, lockMode: 'ACCESS EXCLUSIVE' },
+          { session: 2, lockMode: 'ACCESS SHARE' }
+        ]
+      }
+    ]);
+    expect(step3.sessions[2].waitingFor?.blockedBy).toEqual([
+      { session: 1, lockMode: 'ACCESS EXCLUSIVE', granted: false }
+    ]);
+
+    // COMMIT releases the lock, and the queue is granted in order
+    const step4 = result.steps[3];
+    expect(step4.events).toEqual([
+      'Session 1 releases its locks',
+      'Session 2 gets ACCESS EXCLUSIVE on public.orders'
+    ]);
+    expect(step4.sessions[2].waitingFor?.blockedBy).toEqual([
+      { session: 1, lockMode: 'ACCESS EXCLUSIVE', granted: true }
+    ]);
+    expect(result.steps[4].events).toEqual([
+      'Session 2 releases its locks',
+      'Session 3 gets ACCESS SHARE on public.orders'
+    ]);
+    expect(result.stuck).toBe(false);
+  });
+
+  it('should let a session that holds a lock skip the queue', async () => {
+    const result = simulateLockQueue([
+      await session('A', 'BEGIN; SELECT * FROM orders; SELECT pg_sleep(1); UPDATE orders SET note = 1; COMMIT;'),
+      await session('B', 'SELECT pg_sleep(1); LOCK TABLE orders IN ACCESS EXCLUSIVE MODE;')
+    ]);
+
+    expect(result.steps[3].sessions.map(state => state.status)).toEqual(['running', 'waiting']);
+    expect(result.steps[3].tables[0].granted).toEqual([
+      { session: 0, lockMode: 'ACCESS SHARE' },
+      { session: 0, lockMode: 'ROW EXCLUSIVE' }
+    ]);
+    expect(result.stuck).toBe(false);
+  });
+
+  it('should fail NOWAIT requests and report sessions left waiting', async () => {
+    const result = simulateLockQueue([
+      await session('A', 'BEGIN; LOCK TABLE orders;'),
+      await session('B', 'SELECT pg_sleep(1); LOCK TABLE orders IN SHARE MODE NOWAIT; SELECT * FROM orders;')
+    ]);
+
+    expect(result.steps[1].sessions[1].status).toBe('failed');
+    expect(result.steps[1].events).toEqual(['B fails to get SHARE on public.orders (NOWAIT)']);
+    expect(result.steps[2].sessions[1].waitingFor).toEqual({
+      table: 'public.orders',
+      lockMode: 'ACCESS SHARE',
+      blockedBy: [{ session: 0, lockMode: 'ACCESS EXCLUSIVE', granted: true }]
+    });
+    expect(result.stuck).toBe(true);
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { parseScript } from '../sqlParser';
+import { lintStatements } from '../migrationLinter';
+
+describe('Migration Linter', () => {
+  it('should flag dangerous patterns in a migration', async () => {
+    const script = await parseScript(`CREATE INDEX idx_orders_customer ON orders (customer_id);
+ALTER TABLE orders ADD CONSTRAINT fk_customer FOREIGN KEY (customer_id) REFERENCES customers (id);
+ALTER TABLE orders ALTER COLUMN status SET NOT NULL;
+ALTER TABLE orders RENAME COLUMN note TO comment;
+VACUUM FULL orders;`);
+
+    const findings = lintStatements(script.statements);
+
+    expect(findings.map(finding => [finding.statementIndex, finding.rule.id])).toEqual([
+      [0, 'create-index-non-concurrently'],
+      [1, 'add-foreign-key-validating'],
+      [2, 'set-not-null'],
+      [3, 'rename-column'],
+      [4, 'vacuum-full']
+    ]);
+    expect(findings[4].rule.severity).toBe('error');
+    expect(findings[0].tables).toEqual(['orders']);
+  });
+
+  it('should not flag the safe alternatives', async () => {
+    const script = await parseScript(`CREATE INDEX CONCURRENTLY idx_orders_customer ON orders (customer_id);
+ALTER TABLE orders ADD CONSTRAINT fk_customer FOREIGN KEY (customer_id) REFERENCES customers (id) NOT VALID;
+ALTER TABLE orders VALIDATE CONSTRAINT fk_customer;
+ALTER TABLE orders ADD COLUMN note text;
+CREATE UNIQUE INDEX CONCURRENTLY orders_code_key ON orders (code);
+ALTER TABLE orders ADD CONSTRAINT orders_code_key UNIQUE USING INDEX orders_code_key;`);
+
+    expect(lintStatements(script.statements)).toEqual([]);
+  });
+
+  it('should skip rules disabled by pglocks:disable comments', async () => {
+    const script = await parseScript(`-- pglocks:disable create-index-non-concurrently -- the table is tiny
+CREATE INDEX idx_orders_customer ON orders (customer_id);
+ALTER TABLE orders
+  -- pglocks:disable table-rewrite
+  ALTER COLUMN total TYPE bigint,
+  ALTER COLUMN status SET NOT NULL;
+-- pglocks:disable
+VACUUM FULL orders;`);
+
+    const findings = lintStatements(script.statements);
+
+    expect(findings.map(finding => [finding.statementIndex, finding.rule.id])).toEqual([[1, 'set-not-null']]);
+  });
+
+  it('should apply a pglocks:disable comment after a statement to that statement', async () => {
+    const script = await parseScript(`VACUUM FULL orders; -- pglocks:disable vacuum-full
+VACUUM FULL customers;
+ALTER TABLE orders ADD CONSTRAINT orders_code_key UNIQUE (code); -- pglocks:disable`);
+
+    const findings = lintStatements(script.statements);
+
+    expect(findings.map(finding => [finding.statementIndex, finding.rule.id])).toEqual([[1, 'vacuum-full']]);
+  });
+
+  it('should not take pglocks:disable in strings or dollar-quoted bodies for a comment', async () => {
+    const script = await parseScript(`CREATE INDEX idx_orders_note ON orders ((note = '-- pglocks:disable create-index-non-concurrently, x'));
+ALTER TABLE orders ALTER COLUMN total TYPE bigint USING $$-- pglocks:disable
+$$::text::bigint;
+COMMENT ON TABLE orders IS '-- pglocks:disable
+';
+VACUUM FULL "orders -- pglocks:disable vacuum-full ";`);
+
+    const findings = lintStatements(script.statements);
+
+    expect(findings.map(finding => [finding.statementIndex, finding.rule.id])).toEqual([
+      [0, 'create-index-non-concurrently'],
+      [1, 'table-rewrite'],
+      [3, 'vacuum-full']
+    ]);
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import { parseSQL, getTableLockAnalysis, AnalysisOptions } from '../sqlParser';
+import { compareQueries, QueryAnalysisInput } from '../queryComparison';
+
+async function analyze(query: string, options: AnalysisOptions = {}): Promise<QueryAnalysisInput> {
+  const parsed = await parseSQL(query);
+  return {
+    query,
+    tables: getTableLockAnalysis(parsed.relations || [], parsed.command, undefined, options),
+    isValid: parsed.isValid
+  };
+}
+
+describe('Query Comparison', () => {
+  it('should report conflicting locks on the same table', async () => {
+    const result = compareQueries(
+      await analyze('UPDATE users SET active = true;'),
+      await analyze('CREATE INDEX idx_users_email ON users(email);')
+    );
+
+    expect(result.isCompatible).toBe(false);
+    expect(result.conflictingTables).toEqual([
+      {
+        table: 'public.users',
+        query1Lock: 'ROW EXCLUSIVE',
+        query2Lock: 'SHARE',
+        conflictReason: 'ROW EXCLUSIVE conflicts with SHARE',
+        query1Nowait: undefined,
+        query2Nowait: undefined
+      }
+    ]);
+  });
+
+  it('should not match tables with the same name in different schemas', async () => {
+    const result = compareQueries(
+      await analyze('TRUNCATE billing.invoices;'),
+      await analyze('SELECT * FROM invoices;')
+    );
+
+    expect(result.isCompatible).toBe(true);
+    expect(result.conflictingTables).toEqual([]);
+    expect(result.uniqueTables).toEqual({
+      query1Only: ['billing.invoices'],
+      query2Only: ['public.invoices']
+    });
+  });
+
+  it('should match unqualified names that resolve to the same relation', async () => {
+    const result = compareQueries(
+      await analyze('TRUNCATE billing.invoices;'),
+      await analyze('SELECT * FROM invoices;', { searchPath: ['billing'] })
+    );
+
+    expect(result.isCompatible).toBe(false);
+    expect(result.conflictingTables[0].table).toBe('billing.invoices');
+  });
+
+  it('should point out LOCK ... NOWAIT in conflicts', async () => {
+    const result = compareQueries(
+      await analyze('UPDATE orders SET status = 1;'),
+      await analyze('LOCK TABLE orders IN SHARE ROW EXCLUSIVE MODE NOWAIT;')
+    );
+
+    expect(result.conflictingTables[0]).toMatchObject({
+      query2Lock: 'SHARE ROW EXCLUSIVE',
+      query2Nowait: true,
+      conflictReason: 'ROW EXCLUSIVE conflicts with SHARE ROW EXCLUSIVE - Query 2 uses NOWAIT and fails immediately instead of waiting'
+    });
+  });
+
+  it('should warn about row lock conflicts behind compatible table locks', async () => {
+    const result = compareQueries(
+      await analyze(`UPDATE orders SET status = 'shipped' WHERE id = 1;`),
+      await analyze('SELECT * FROM orders WHERE id = 1 FOR SHARE;')
+    );
+
+    expect(result.isCompatible).toBe(true);
+    expect(result.rowLockWarnings).toEqual([
+      {
+        table: 'public.orders',
+        query1RowLock: 'FOR NO KEY UPDATE',
+        query2RowLock: 'FOR SHARE',
+        message: 'FOR NO KEY UPDATE conflicts with FOR SHARE - the queries may conflict on overlapping rows'
+      }
+    ]);
+  });
+
+  it('should let foreign key checks pass an UPDATE of non-key columns', async () => {
+    const result = compareQueries(
+      await analyze(`UPDATE customers SET name = 'New name' WHERE id = 1;`),
+      await analyze('SELECT 1 FROM customers WHERE id = 1 FOR KEY SHARE;')
+    );
+
+    expect(result.rowLockWarnings).toEqual([]);
+  });
+
+  it('should mention SKIP LOCKED in row lock warnings', async () => {
+    const worker = `SELECT * FROM jobs WHERE state = 'queued' LIMIT 1 FOR UPDATE SKIP LOCKED;`;
+    const result = compareQueries(await analyze(worker), await analyze(worker));
+
+    expect(result.rowLockWarnings[0].message).toBe(
+      'FOR UPDATE conflicts with FOR UPDATE - the queries may conflict on overlapping rows. ' +
+      'Query 1 uses SKIP LOCKED and skips rows the other query has locked. ' +
+      'Query 2 uses SKIP LOCKED and skips rows the other query has locked'
+    );
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { parseScript } from '../sqlParser';
+import { suggestSafeRewrites } from '../safeRewrites';
+
+describe('Safe Rewrites', () => {
+  it('should build indexes concurrently', async () => {
+    const script = await parseScript(`-- pglocks:disable
+CREATE UNIQUE INDEX IF NOT EXISTS idx_orders_code ON orders (code);
+SELECT * FROM orders;`);
+
+    const rewrites = await suggestSafeRewrites(script.statements);
+
+    expect(rewrites).toHaveLength(1);
+    expect(rewrites[0].statementIndex).toBe(0);
+    expect(rewrites[0].sql).toBe('CREATE UNIQUE INDEX CONCURRENTLY IF NOT EXISTS idx_orders_code ON orders (code);');
+    expect(rewrites[0].original.locks[0].lockMode).toBe('SHARE');
+    expect(rewrites[0].statements[0].locks[0].lockMode).toBe('SHARE UPDATE EXCLUSIVE');
+  });
+
+  it('should split ADD FOREIGN KEY into NOT VALID and VALIDATE CONSTRAINT', async () => {
+    const script = await parseScript(`ALTER TABLE orders ADD FOREIGN KEY (customer_id) REFERENCES customers (id) ON DELETE CASCADE;
+ALTER TABLE ONLY orders ADD CONSTRAINT chk_total CHECK (total >= 0);`);
+
+    const [foreignKey, check] = await suggestSafeRewrites(script.statements);
+
+    expect(foreignKey.sql).toBe(`ALTER TABLE orders ADD CONSTRAINT orders_customer_id_fkey FOREIGN KEY (customer_id) REFERENCES customers (id) ON DELETE CASCADE NOT VALID;
+ALTER TABLE orders VALIDATE CONSTRAINT orders_customer_id_fkey;`);
+    expect(foreignKey.statements.map(statement => statement.locks.map(lock => [lock.table, lock.lockMode]))).toEqual([
+      [['orders', 'SHARE ROW EXCLUSIVE'], ['customers', 'SHARE ROW EXCLUSIVE']],
+      [['orders', 'SHARE UPDATE EXCLUSIVE']]
+    ]);
+    expect(check.sql).toBe(`ALTER TABLE ONLY orders ADD CONSTRAINT chk_total CHECK (total >= 0) NOT VALID;
+ALTER TABLE ONLY orders VALIDATE CONSTRAINT chk_total;`);
+  });
+
+  it('should prove NOT NULL with a validated CHECK constraint first', async () => {
+    const script = await parseScript('ALTER TABLE orders ALTER COLUMN status SET NOT NULL;');
+
+    const [rewrite] = await suggestSafeRewrites(script.statements);
+
+    expect(rewrite.statements.map(statement => statement.sql)).toEqual([
+      'ALTER TABLE orders ADD CONSTRAINT orders_status_not_null CHECK (status IS NOT NULL) NOT VALID',
+      'ALTER TABLE orders VALIDATE CONSTRAINT orders_status_not_null',
+      'ALTER TABLE orders ALTER COLUMN status SET NOT NULL',
+      'ALTER TABLE orders DROP CONSTRAINT orders_status_not_null'
+    ]);
+    expect(rewrite.statements[2].actions?.[0].duration).toBe('instant');
+    expect(rewrite.statements[2].locks[0].duration).toBe('instant');
+    expect(script.statements[0].locks[0].duration).toBe('scan');
+    // SET NOT NULL can't skip the scan before PostgreSQL 12
+    expect(await suggestSafeRewrites(script.statements, { version: 11 })).toEqual([]);
+  });
+
+  it('should add a primary key using a concurrently built index', async () => {
+    const script = await parseScript('ALTER TABLE orders ADD PRIMARY KEY (id);');
+
+    const [rewrite] = await suggestSafeRewrites(script.statements);
+
+    expect(rewrite.sql).toBe(`CREATE UNIQUE INDEX CONCURRENTLY orders_pkey ON orders (id);
+ALTER TABLE orders ADD CONSTRAINT orders_pkey PRIMARY KEY USING INDEX orders_pkey;`);
+  });
+});
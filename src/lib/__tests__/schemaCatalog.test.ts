@@ -0,0 +1,181 @@
+import { describe, it, expect } from 'vitest';
+import { parseScript } from '../sqlParser';
+import { parseSchemaCatalog, getCatalogAnalysisOptions, findCatalogTable } from '../schemaCatalog';
+
+const PG_DUMP = `--
+-- PostgreSQL database dump
+--
+
+\\restrict 8bTmQ0dBq3
+
+SET statement_timeout = 0;
+SELECT pg_catalog.set_config('search_path', '', false);
+
+CREATE TABLE public.customers (
+    id bigint NOT NULL,
+    email text NOT NULL
+);
+
+CREATE TABLE public.orders (
+    id bigint NOT NULL,
+    customer_id bigint,
+    note text
+);
+
+CREATE SEQUENCE public.orders_id_seq START WITH 1 INCREMENT BY 1;
+ALTER SEQUENCE public.orders_id_seq OWNED BY public.orders.id;
+
+CREATE TABLE public.measurements (
+    logdate date NOT NULL,
+    value numeric
+) PARTITION BY RANGE (logdate);
+
+CREATE TABLE public.measurements_2024 (
+    logdate date NOT NULL,
+    value numeric
+);
+CREATE TABLE public.measurements_other (
+    logdate date NOT NULL,
+    value numeric
+);
+
+CREATE VIEW public.open_orders AS
+ SELECT o.id, c.email FROM public.orders o JOIN public.customers c ON c.id = o.customer_id;
+
+ALTER TABLE ONLY public.measurements ATTACH PARTITION public.measurements_2024 FOR VALUES FROM ('2024-01-01') TO ('2025-01-01');
+ALTER TABLE ONLY public.measurements ATTACH PARTITION public.measurements_other DEFAULT;
+
+ALTER TABLE ONLY public.customers ADD CONSTRAINT customers_pkey PRIMARY KEY (id);
+ALTER TABLE ONLY public.orders ADD CONSTRAINT orders_pkey PRIMARY KEY (id);
+CREATE UNIQUE INDEX customers_email_key ON public.customers USING btree (email);
+CREATE INDEX orders_customer_id_idx ON public.orders USING btree (customer_id);
+
+CREATE TRIGGER orders_audit AFTER INSERT OR UPDATE OF note ON public.orders FOR EACH ROW EXECUTE FUNCTION public.audit();
+
+ALTER TABLE ONLY public.orders
+    ADD CONSTRAINT orders_customer_id_fkey FOREIGN KEY (customer_id) REFERENCES public.customers(id) ON DELETE CASCADE;
+
+\\unrestrict 8bTmQ0dBq3
+`;
+
+describe('Schema Catalog', () => {
+  it('should build a catalog from pg_dump --schema-only output', async () => {
+    const { catalog, error } = await parseSchemaCatalog(PG_DUMP);
+
+    expect(error).toBeUndefined();
+    expect(Object.keys(catalog!.tables)).toEqual([
+      'public.customers',
+      'public.orders',
+      'public.measurements',
+      'public.measurements_2024',
+      'public.measurements_other'
+    ]);
+
+    const orders = catalog!.tables['public.orders'];
+    expect(orders.columns).toEqual(['id', 'customer_id', 'note']);
+    expect(orders.indexes).toEqual([
+      { name: 'public.orders_pkey', columns: ['id'], unique: true, primary: true },
+      { name: 'public.orders_customer_id_idx', columns: ['customer_id'], unique: false, primary: undefined, partial: undefined }
+    ]);
+    expect(orders.foreignKeys).toEqual([{
+      name: 'orders_customer_id_fkey',
+      columns: ['customer_id'],
+      referencedTable: 'public.customers',
+      referencedColumns: ['id'],
+      onDelete: 'CASCADE',
+      onUpdate: 'NO ACTION'
+    }]);
+    expect(orders.triggers).toEqual([{
+      name: 'orders_audit',
+      function: 'public.audit',
+      timing: 'AFTER',
+      events: ['INSERT', 'UPDATE'],
+      columns: ['note'],
+      forEachRow: true
+    }]);
+
+    expect(catalog!.tables['public.measurements_other']).toMatchObject({ partitionOf: 'public.measurements', defaultPartition: true });
+    expect(catalog!.views['public.open_orders'].tables).toEqual(['public.orders', 'public.customers']);
+    expect(catalog!.sequences['public.orders_id_seq'].ownedBy).toBe('public.orders.id');
+  });
+
+  it('should report syntax errors', async () => {
+    const { catalog, error } = await parseSchemaCatalog('CREATE TABLE broken (');
+
+    expect(catalog).toBeUndefined();
+    expect(error).toBeDefined();
+  });
+
+  it('should resolve unqualified names through the search_path', async () => {
+    const { catalog } = await parseSchemaCatalog('CREATE TABLE billing.invoices (id int); CREATE TABLE invoices (id int);');
+
+    expect(findCatalogTable(catalog!, { name: 'invoices' })?.schema).toBe('public');
+    expect(findCatalogTable(catalog!, { name: 'invoices' }, ['billing', 'public'])?.schema).toBe('billing');
+    expect(findCatalogTable(catalog!, { schema: 'sales', name: 'invoices' })).toBeUndefined();
+  });
+
+  it('should feed key columns, partitions and foreign keys into the lock analysis', async () => {
+    const { catalog } = await parseSchemaCatalog(PG_DUMP);
+    const options = getCatalogAnalysisOptions(catalog!);
+
+    expect(options.keyColumns?.['public.customers']).toEqual(['id', 'email']);
+    expect(options.partitions?.['public.measurements']).toEqual({
+      partitions: ['public.measurements_2024'],
+      defaultPartition: 'public.measurements_other'
+    });
+
+    const result = await parseScript(`UPDATE customers SET email = 'a@example.com' WHERE id = 1;
+DELETE FROM measurements WHERE logdate < '2024-02-01';
+DELETE FROM customers WHERE id = 1;`, options);
+
+    const [update, remove, removeCustomer] = result.statements;
+    expect(update.locks[0].rowLock).toBe('FOR UPDATE');
+    expect(remove.locks.map(lock => lock.name)).toEqual(['measurements', 'measurements_2024', 'measurements_other']);
+    expect(removeCustomer.locks.map(lock => [lock.table, lock.lockMode, lock.role])).toEqual([
+      ['customers', 'ROW EXCLUSIVE', 'target'],
+      ['public.orders', 'ROW EXCLUSIVE', 'referencing']
+    ]);
+  });
+
+  it('should expand views to the tables they read', async () => {
+    const { catalog } = await parseSchemaCatalog(`CREATE TABLE users (id int, active boolean);
+CREATE VIEW active_users AS WITH recent AS (SELECT 1) SELECT * FROM users WHERE active;
+CREATE VIEW admins AS SELECT * FROM public.users WHERE id IN (SELECT id FROM staff);`);
+
+    expect(catalog!.views['public.active_users']).toMatchObject({ tables: ['public.users'], baseTable: undefined });
+    expect(catalog!.views['public.admins']).toMatchObject({
+      tables: ['public.users', 'public.staff'],
+      baseTable: 'public.users'
+    });
+
+    const result = await parseScript('DELETE FROM admins WHERE id = 1;', getCatalogAnalysisOptions(catalog!));
+    expect(result.statements[0].locks.map(lock => [lock.table, lock.lockMode, lock.view])).toEqual([
+      ['admins', 'ROW EXCLUSIVE', undefined],
+      ['public.users', 'ROW EXCLUSIVE', 'admins'],
+      ['public.staff', 'ACCESS SHARE', 'admins']
+    ]);
+  });
+
+  it('should add the locks of trigger functions', async () => {
+    const { catalog } = await parseSchemaCatalog(`CREATE TABLE orders (id int, note text);
+CREATE FUNCTION audit() RETURNS trigger LANGUAGE plpgsql AS $$
+BEGIN
+  INSERT INTO orders_audit (order_id) VALUES (NEW.id);
+  RETURN NEW;
+END
+$$;
+CREATE TRIGGER orders_audit AFTER UPDATE ON orders FOR EACH ROW EXECUTE FUNCTION audit();`);
+
+    expect(catalog!.functions['public.audit'].statements.map(statement => statement.command)).toEqual(['INSERT']);
+
+    const result = await parseScript("UPDATE orders SET note = 'x';", getCatalogAnalysisOptions(catalog!));
+    expect(result.statements[0].locks.map(lock => [lock.table, lock.lockMode, lock.trigger])).toEqual([
+      ['orders', 'ROW EXCLUSIVE', undefined],
+      ['orders_audit', 'ROW EXCLUSIVE', 'orders_audit']
+    ]);
+  });
+
+  it('should leave the analysis unchanged without a catalog', () => {
+    expect(getCatalogAnalysisOptions(null)).toEqual({});
+  });
+});
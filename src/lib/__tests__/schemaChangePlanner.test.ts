@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import { getCatalogAnalysisOptions, parseSchemaCatalog } from '../schemaCatalog';
+import { planSchemaChange } from '../schemaChangePlanner';
+
+describe('Schema Change Planner', () => {
+  it('should change a column type through a new column, a backfill and a swap', async () => {
+    const { catalog } = await parseSchemaCatalog(`CREATE TABLE orders (id bigint PRIMARY KEY, amount int);
+CREATE INDEX orders_amount_idx ON orders (amount);`);
+
+    const { plan, error } = await planSchemaChange('change column orders.amount from int to bigint', {}, catalog);
+
+    expect(error).toBeUndefined();
+    expect(plan?.steps.map(step => [step.title, step.peakLock, step.duration])).toEqual([
+      ['Add the new column', 'ACCESS EXCLUSIVE', 'instant'],
+      ['Keep the new column in sync', 'SHARE ROW EXCLUSIVE', 'instant'],
+      ['Backfill in batches', 'ROW EXCLUSIVE', 'instant'],
+      ['Build orders_amount_idx for the new column', 'SHARE UPDATE EXCLUSIVE', 'scan'],
+      ['Swap the columns', 'ACCESS EXCLUSIVE', 'instant'],
+      ['Drop the sync function', undefined, 'instant']
+    ]);
+    expect(plan?.steps[2].batched).toBe(true);
+    expect(plan?.steps[0].sql).toBe(`BEGIN;
+SET LOCAL lock_timeout = '5s';
+ALTER TABLE orders ADD COLUMN amount_new bigint;
+COMMIT;`);
+    expect(plan?.steps[1].statements.map(statement => statement.command)).toEqual([
+      'BEGIN',
+      'SET',
+      'CREATE FUNCTION',
+      'CREATE TRIGGER',
+      'COMMIT'
+    ]);
+    expect(plan?.steps[3].sql).toBe('CREATE INDEX CONCURRENTLY orders_amount_idx_new ON orders (amount_new);');
+    expect(plan?.steps[4].statements.map(statement => statement.command)).toEqual([
+      'BEGIN',
+      'SET',
+      'DROP',
+      'ALTER TABLE DROP COLUMN',
+      'ALTER TABLE RENAME COLUMN',
+      'ALTER INDEX RENAME TO',
+      'COMMIT'
+    ]);
+  });
+
+  it('should add a column with a constant default in one step', async () => {
+    const { plan } = await planSchemaChange("add NOT NULL column orders.status text with default 'new'");
+
+    expect(plan?.steps).toHaveLength(1);
+    expect(plan?.steps[0].sql).toBe(`BEGIN;
+SET LOCAL lock_timeout = '5s';
+ALTER TABLE orders ADD COLUMN status text NOT NULL DEFAULT 'new';
+COMMIT;`);
+    expect(plan?.steps[0].duration).toBe('instant');
+  });
+
+  it('should backfill a column with a volatile default and prove NOT NULL with a check', async () => {
+    const { plan } = await planSchemaChange('add NOT NULL column orders.token uuid with default gen_random_uuid()');
+
+    expect(plan?.steps.map(step => [step.title, step.peakLock, step.duration])).toEqual([
+      ['Add the column without a default', 'ACCESS EXCLUSIVE', 'instant'],
+      ['Set the default for new rows', 'ACCESS EXCLUSIVE', 'instant'],
+      ['Backfill in batches', 'ROW EXCLUSIVE', 'instant'],
+      ['Add a NOT VALID check for NULLs', 'ACCESS EXCLUSIVE', 'instant'],
+      ['Validate the check', 'SHARE UPDATE EXCLUSIVE', 'scan'],
+      ['Set NOT NULL', 'ACCESS EXCLUSIVE', 'instant']
+    ]);
+    expect(plan?.steps[2].sql).toBe('UPDATE orders SET token = gen_random_uuid() WHERE id BETWEEN 1 AND 10000 AND token IS NULL;');
+
+    const { plan: plan11 } = await planSchemaChange('add NOT NULL column orders.token uuid with default gen_random_uuid()', { version: 11 });
+    expect(plan11?.steps[5].duration).toBe('scan');
+  });
+
+  it('should backfill tables without an integer key in batches of rows', async () => {
+    const { catalog } = await parseSchemaCatalog(`CREATE TABLE logs (amount int, message text);
+CREATE TABLE users (email text PRIMARY KEY, score int);`);
+    const options = getCatalogAnalysisOptions(catalog!);
+
+    const { plan: logs, error } = await planSchemaChange('change column logs.amount from int to bigint', options, catalog);
+    expect(error).toBeUndefined();
+    expect(logs?.steps[2].sql).toBe(
+      'UPDATE logs SET amount_new = amount WHERE ctid = ANY (ARRAY(SELECT ctid FROM logs WHERE amount_new IS DISTINCT FROM amount LIMIT 10000));'
+    );
+
+    const { plan: users } = await planSchemaChange('change column users.score from int to bigint', options, catalog);
+    expect(users?.steps[2].sql).toBe(
+      'UPDATE users SET score_new = score WHERE email IN (SELECT email FROM users WHERE score_new IS DISTINCT FROM score ORDER BY email LIMIT 10000);'
+    );
+    expect(users?.steps[2].peakLock).toBe('ROW EXCLUSIVE');
+  });
+
+  it('should add a primary key using a concurrently built index', async () => {
+    const { plan } = await planSchemaChange('add primary key on orders(id)');
+
+    expect(plan?.steps.map(step => step.peakLock)).toEqual(['SHARE UPDATE EXCLUSIVE', 'ACCESS EXCLUSIVE']);
+  });
+
+  it('should reject changes it does not understand', async () => {
+    const { plan, error } = await planSchemaChange('make orders faster');
+
+    expect(plan).toBeUndefined();
+    expect(error).toMatch(/^The change is not understood/);
+  });
+});
@@ -1,10 +1,8 @@
 import { describe, it, expect } from 'vitest';
-import { parseSQL, getLockAnalysis, getTableLockAnalysis } from '../sqlParser';
+import { parseSQL, parseScript, getLockAnalysis, getTableLockAnalysis, parseQualifiedName, parseSearchPath, parsePartitionHierarchy, parseIndexList, parseForeignKeys } from '../sqlParser';
 
-// Note: Some advanced CTE filtering scenarios are skipped as they require
-// deeper AST analysis that is beyond the current implementation scope.
-// The parser handles 28/35 complex scenarios (80% success rate) including
-// all common use cases and most advanced scenarios.
+// The parser handles all 35 complex scenarios, including CTEs, MERGE,
+// set operations and DDL.
 
 describe('SQL Parser - Advanced Scenarios', () => {
   describe('DML with Complex Joins and Subqueries', () => {
@@ -157,7 +155,7 @@ WHERE status = 'processing';`;
   });
 
   describe('Common Table Expressions (CTEs)', () => {
-    it.skip('Scenario 7: INSERT with CTE and Window Function', async () => {
+    it('Scenario 7: INSERT with CTE and Window Function', async () => {
       const query = `WITH ranked_sales AS (
     SELECT product_id, SUM(amount) as total,
            ROW_NUMBER() OVER (PARTITION BY category_id ORDER BY SUM(amount) DESC) as rn
@@ -175,7 +173,7 @@ SELECT product_id, total FROM ranked_sales WHERE rn = 1;`;
       expect(result.tables).not.toContain('ranked_sales'); // CTE should be filtered out
     });
 
-    it.skip('Scenario 8: MERGE using a CTE', async () => {
+    it('Scenario 8: MERGE using a CTE', async () => {
       const query = `WITH updated_stock AS (
     SELECT product_id, new_quantity FROM staging_table
 )
@@ -192,7 +190,7 @@ WHEN MATCHED THEN UPDATE SET stock_count = us.new_quantity;`;
       expect(result.tables).not.toContain('updated_stock'); // CTE should be filtered out
     });
 
-    it.skip('Scenario 9: Recursive CTE to SELECT', async () => {
+    it('Scenario 9: Recursive CTE to SELECT', async () => {
       const query = `WITH RECURSIVE subordinates AS (
     SELECT employee_id, manager_id FROM employees WHERE employee_id = 1
     UNION
@@ -210,7 +208,7 @@ SELECT * FROM subordinates;`;
       expect(result.tables).not.toContain('subordinates'); // CTE should be filtered out
     });
 
-    it.skip('Scenario 10: INSERT with RETURNING used in a CTE', async () => {
+    it('Scenario 10: INSERT with RETURNING used in a CTE', async () => {
       const query = `WITH new_order AS (
     INSERT INTO orders (customer_id, order_date) VALUES (123, NOW()) RETURNING id
 )
@@ -226,7 +224,7 @@ SELECT id, 456, 2 FROM new_order;`;
       expect(result.tables).not.toContain('new_order'); // CTE should be filtered out
     });
 
-    it.skip('Scenario 11: DELETE using a CTE with a JOIN', async () => {
+    it('Scenario 11: DELETE using a CTE with a JOIN', async () => {
       const query = `WITH to_delete AS (
     SELECT o.id FROM orders o JOIN customers c ON o.customer_id = c.id WHERE c.is_banned = true
 )
@@ -307,7 +305,7 @@ DELETE FROM orders WHERE id IN (SELECT id FROM to_delete);`;
       // Test table lock mode
       const tableLocks = getTableLockAnalysis(result.tables, result.command);
       const usersLock = tableLocks.find(lock => lock.table === 'users');
-      expect(usersLock?.lockMode).toBe('SHARE UPDATE EXCLUSIVE');
+      expect(usersLock?.lockMode).toBe('ACCESS EXCLUSIVE');
     });
 
     it('Scenario 16: CREATE INDEX CONCURRENTLY', async () => {
@@ -355,7 +353,7 @@ DELETE FROM orders WHERE id IN (SELECT id FROM to_delete);`;
       expect(ordersLock?.lockMode).toBe('SHARE UPDATE EXCLUSIVE');
     });
 
-    it.skip('Scenario 19: ALTER TABLE ... ATTACH PARTITION', async () => {
+    it('Scenario 19: ALTER TABLE ... ATTACH PARTITION', async () => {
       const query = `ALTER TABLE measurements ATTACH PARTITION measurements_y2025m01 FOR VALUES FROM ('2025-01-01') TO ('2025-02-01');`;
 
       const result = await parseSQL(query);
@@ -448,7 +446,7 @@ DELETE FROM orders WHERE id IN (SELECT id FROM to_delete);`;
       expect(salesSummaryLock?.lockMode).toBe('EXCLUSIVE');
     });
 
-    it.skip('Scenario 25: VACUUM FULL', async () => {
+    it('Scenario 25: VACUUM FULL', async () => {
       const query = `VACUUM FULL products;`;
 
       const result = await parseSQL(query);
@@ -547,20 +545,26 @@ ON CONFLICT (page_url) DO UPDATE SET visit_count = site_visits.visit_count + 1;`
     });
 
     it('Scenario 30: DELETE from a simple, updatable View', async () => {
-      // Note: This test assumes view resolution is not implemented
-      // In a real scenario, DELETE FROM active_users should resolve to users table
+      // The parser only sees the view - the base table is known once the view is defined
       const query = `DELETE FROM active_users WHERE id = 10;`;
 
       const result = await parseSQL(query);
       
       expect(result.isValid).toBe(true);
       expect(result.command).toBe('DELETE');
-      expect(result.tables).toEqual(['active_users']); // Would be 'users' if view resolution was implemented
+      expect(result.tables).toEqual(['active_users']);
       
       // Test table lock mode
       const tableLocks = getTableLockAnalysis(result.tables, result.command);
       const activeUsersLock = tableLocks.find(lock => lock.table === 'active_users');
       expect(activeUsersLock?.lockMode).toBe('ROW EXCLUSIVE');
+
+      const viewLocks = getTableLockAnalysis(result.relations || result.tables, result.command, undefined, {
+        views: { active_users: { tables: ['users'], baseTable: 'users' } }
+      });
+      const usersLock = viewLocks.find(lock => lock.table === 'users');
+      expect(usersLock?.lockMode).toBe('ROW EXCLUSIVE');
+      expect(usersLock?.view).toBe('active_users');
     });
 
     it('Scenario 31: UPDATE on a Partitioned Table', async () => {
@@ -706,4 +710,993 @@ WHERE products.supplier_id = s.id AND products.category_id = c.id`;
       expect(accountLock?.conflicts).toContain('EXCLUSIVE');
     });
   });
-});
\ No newline at end of file
+
+  describe('Multi-statement Scripts', () => {
+    it('should analyze every statement of a migration script', async () => {
+      const script = `ALTER TABLE orders ADD COLUMN shipped_at timestamptz;
+CREATE INDEX CONCURRENTLY idx_orders_shipped_at ON orders(shipped_at);
+UPDATE orders SET shipped_at = NOW() WHERE status = 'shipped';`;
+
+      const result = await parseScript(script);
+
+      expect(result.isValid).toBe(true);
+      expect(result.statements).toHaveLength(3);
+      expect(result.statements.map(statement => statement.command)).toEqual([
+        'ALTER TABLE ADD COLUMN',
+        'CREATE INDEX CONCURRENTLY',
+        'UPDATE'
+      ]);
+      expect(result.statements[1].sql).toBe('CREATE INDEX CONCURRENTLY idx_orders_shipped_at ON orders(shipped_at)');
+      expect(result.statements[1].tables).toEqual(['orders']);
+      expect(result.statements[1].locks[0].lockMode).toBe('SHARE UPDATE EXCLUSIVE');
+      expect(result.statements[2].locks[0].lockMode).toBe('ROW EXCLUSIVE');
+    });
+
+    it('should keep statement text intact around multi-byte characters', async () => {
+      const script = `UPDATE users SET name = 'Željko' WHERE id = 1; SELECT * FROM posts`;
+
+      const result = await parseScript(script);
+
+      expect(result.isValid).toBe(true);
+      expect(result.statements.map(statement => statement.sql)).toEqual([
+        `UPDATE users SET name = 'Željko' WHERE id = 1`,
+        'SELECT * FROM posts'
+      ]);
+    });
+
+    it('should report statements that do not lock any table', async () => {
+      const result = await parseScript('SET search_path TO public; SELECT * FROM users;');
+
+      expect(result.isValid).toBe(true);
+      expect(result.statements).toHaveLength(2);
+      expect(result.statements[0].tables).toEqual([]);
+      expect(result.statements[0].locks).toEqual([]);
+      expect(result.statements[1].locks[0].table).toBe('users');
+    });
+
+    it('should reject an invalid script', async () => {
+      const result = await parseScript('SELECT * FROM users; UPDATE SET;');
+
+      expect(result.isValid).toBe(false);
+      expect(result.error).toBeDefined();
+      expect(result.statements).toEqual([]);
+    });
+
+    it('should handle empty script', async () => {
+      const result = await parseScript('   ');
+
+      expect(result.isValid).toBe(false);
+      expect(result.error).toBe('Query cannot be empty');
+    });
+
+    it('should track the timeouts in effect for every statement', async () => {
+      const result = await parseScript(`SET lock_timeout = 3000;
+ALTER TABLE orders ADD COLUMN note text;
+BEGIN;
+SET LOCAL lock_timeout = '5s';
+SET LOCAL statement_timeout = '1min';
+ALTER TABLE orders DROP COLUMN note;
+COMMIT;
+SET LOCAL statement_timeout = '1min';
+SET lock_timeout = 0;
+ALTER TABLE orders DROP COLUMN legacy;`);
+
+      const alters = result.statements.filter(statement => statement.command.startsWith('ALTER TABLE'));
+      expect(alters.map(statement => statement.timeouts)).toEqual([
+        { lockTimeout: '3000ms' },
+        { lockTimeout: '5s', statementTimeout: '1min' },
+        undefined
+      ]);
+    });
+  });
+
+  describe('Schema-qualified Names', () => {
+    it('should keep schema and catalog of referenced tables', async () => {
+      const query = `SELECT * FROM billing.invoices bi JOIN public.invoices pi ON bi.id = pi.id JOIN db.audit.events e ON e.id = bi.id;`;
+
+      const result = await parseSQL(query);
+
+      expect(result.isValid).toBe(true);
+      expect(result.tables).toEqual(['billing.invoices', 'public.invoices', 'db.audit.events']);
+      expect(result.relations).toEqual([
+        { catalog: undefined, schema: 'billing', name: 'invoices', role: 'source' },
+        { catalog: undefined, schema: 'public', name: 'invoices', role: 'source' },
+        { catalog: 'db', schema: 'audit', name: 'events', role: 'source' }
+      ]);
+    });
+
+    it('should resolve unqualified names with the search_path', async () => {
+      const result = await parseSQL('UPDATE invoices SET paid = true FROM customers;');
+
+      const tableLocks = getTableLockAnalysis(result.relations!, result.command, undefined, {
+        searchPath: ['billing', 'public']
+      });
+
+      expect(tableLocks.map(lock => [lock.schema, lock.name, lock.lockMode])).toEqual([
+        ['billing', 'invoices', 'ROW EXCLUSIVE'],
+        ['billing', 'customers', 'ACCESS SHARE']
+      ]);
+    });
+
+    it('should default to the public schema', async () => {
+      const tableLocks = getTableLockAnalysis(['users', 'audit.events'], 'SELECT');
+
+      expect(tableLocks.map(lock => `${lock.schema}.${lock.name}`)).toEqual(['public.users', 'audit.events']);
+    });
+
+    it('should merge the qualified and unqualified name of the same relation', async () => {
+      const result = await parseSQL('DELETE FROM invoices USING public.invoices other WHERE invoices.id = other.id;');
+
+      const tableLocks = getTableLockAnalysis(result.relations!, result.command);
+
+      expect(tableLocks).toHaveLength(1);
+      expect(tableLocks[0].lockMode).toBe('ROW EXCLUSIVE');
+    });
+
+    it('should keep schema-qualified names in DROP TABLE', async () => {
+      const result = await parseSQL('DROP TABLE billing.invoices, archive;');
+
+      expect(result.tables).toEqual(['billing.invoices', 'archive']);
+    });
+
+    it('should follow SET search_path in a script', async () => {
+      const result = await parseScript(`SELECT * FROM invoices;
+SET search_path TO billing, public;
+SELECT * FROM invoices;
+BEGIN;
+SET LOCAL search_path = audit;
+SELECT * FROM invoices;
+COMMIT;
+SELECT * FROM invoices;`);
+
+      const schemas = result.statements
+        .filter(statement => statement.command === 'SELECT')
+        .map(statement => statement.locks[0].schema);
+      expect(schemas).toEqual(['public', 'billing', 'audit', 'billing']);
+    });
+
+    it('should revert the SETs of a transaction that is rolled back', async () => {
+      const result = await parseScript(`BEGIN;
+SET search_path = audit;
+SET lock_timeout = '5s';
+ROLLBACK;
+SELECT * FROM invoices;
+BEGIN;
+SET lock_timeout = '5s';
+SAVEPOINT retry;
+SET lock_timeout = 0;
+SET search_path = audit;
+ROLLBACK TO SAVEPOINT retry;
+SELECT * FROM invoices;
+COMMIT;
+SELECT * FROM invoices;`);
+
+      const selects = result.statements.filter(statement => statement.command === 'SELECT');
+      expect(selects.map(statement => [statement.locks[0].schema, statement.timeouts?.lockTimeout])).toEqual([
+        ['public', undefined],
+        ['public', '5s'],
+        ['public', '5s']
+      ]);
+    });
+
+    it('should ignore SET LOCAL search_path outside of a transaction block', async () => {
+      const result = await parseScript(`SET LOCAL search_path = audit;
+SELECT * FROM invoices;
+BEGIN;
+SELECT * FROM invoices;
+COMMIT;`);
+
+      const schemas = result.statements
+        .filter(statement => statement.command === 'SELECT')
+        .map(statement => statement.locks[0].schema);
+      expect(schemas).toEqual(['public', 'public']);
+    });
+
+    it('should parse quoted qualified names and search paths', () => {
+      expect(parseQualifiedName('Billing."Invoices.2024"')).toEqual({
+        catalog: undefined,
+        schema: 'billing',
+        name: 'Invoices.2024'
+      });
+      expect(parseSearchPath('"$user", public, Billing')).toEqual(['$user', 'public', 'billing']);
+    });
+  });
+
+  describe('ALTER TABLE Subcommands', () => {
+    it('should take the strongest lock of a multi-action ALTER TABLE', async () => {
+      const result = await parseScript(`ALTER TABLE orders
+  ALTER COLUMN note SET STATISTICS 500,
+  ENABLE TRIGGER audit_orders,
+  ALTER COLUMN status SET DEFAULT 'new'`);
+
+      const [statement] = result.statements;
+      expect(statement.command).toBe('ALTER TABLE ALTER COLUMN SET DEFAULT');
+      expect(statement.actions).toEqual([
+        { action: 'ALTER COLUMN SET STATISTICS', target: 'note', lockMode: 'SHARE UPDATE EXCLUSIVE', duration: 'instant' },
+        { action: 'ENABLE TRIGGER', target: 'audit_orders', lockMode: 'SHARE ROW EXCLUSIVE', duration: 'instant' },
+        { action: 'ALTER COLUMN SET DEFAULT', target: 'status', lockMode: 'ACCESS EXCLUSIVE', duration: 'instant' }
+      ]);
+      expect(statement.locks[0].lockMode).toBe('ACCESS EXCLUSIVE');
+    });
+
+    it.each([
+      ['ALTER TABLE orders ALTER COLUMN note SET STATISTICS 500', 'ALTER TABLE ALTER COLUMN SET STATISTICS', 'SHARE UPDATE EXCLUSIVE'],
+      ['ALTER TABLE orders CLUSTER ON orders_pkey', 'ALTER TABLE CLUSTER ON', 'SHARE UPDATE EXCLUSIVE'],
+      ['ALTER TABLE orders SET (fillfactor = 70, autovacuum_enabled = false)', 'ALTER TABLE SET (storage_parameter)', 'SHARE UPDATE EXCLUSIVE'],
+      ['ALTER TABLE orders SET (fillfactor = 70, user_catalog_table = true)', 'ALTER TABLE SET (storage_parameter)', 'ACCESS EXCLUSIVE'],
+      ['ALTER TABLE orders ADD CONSTRAINT chk_total CHECK (total >= 0) NOT VALID', 'ALTER TABLE ADD CHECK', 'ACCESS EXCLUSIVE'],
+      ['ALTER TABLE orders REPLICA IDENTITY FULL', 'ALTER TABLE REPLICA IDENTITY', 'ACCESS EXCLUSIVE'],
+      ['ALTER TABLE orders DISABLE TRIGGER ALL', 'ALTER TABLE DISABLE TRIGGER ALL', 'SHARE ROW EXCLUSIVE'],
+      ['ALTER TABLE orders ALTER COLUMN note TYPE varchar(500)', 'ALTER TABLE ALTER COLUMN TYPE', 'ACCESS EXCLUSIVE'],
+      ['ALTER TABLE orders RENAME COLUMN note TO comment', 'ALTER TABLE RENAME COLUMN', 'ACCESS EXCLUSIVE'],
+      ['ALTER INDEX orders_pkey RENAME TO orders_primary_key', 'ALTER INDEX RENAME TO', 'SHARE UPDATE EXCLUSIVE']
+    ])('%s', async (query, command, lockMode) => {
+      const result = await parseScript(query);
+
+      const [statement] = result.statements;
+      expect(statement.command).toBe(command);
+      expect(statement.locks).toHaveLength(1);
+      expect(statement.locks[0].lockMode).toBe(lockMode);
+    });
+
+    it('should lock the partition of ATTACH PARTITION in ACCESS EXCLUSIVE and of DETACH CONCURRENTLY in SHARE UPDATE EXCLUSIVE mode', async () => {
+      const result = await parseScript(`ALTER TABLE measurements ATTACH PARTITION measurements_y2025m01 FOR VALUES FROM ('2025-01-01') TO ('2025-02-01');
+ALTER TABLE measurements DETACH PARTITION measurements_y2024m01 CONCURRENTLY;`);
+
+      const [attach, detach] = result.statements;
+      expect(attach.locks.map(lock => [lock.name, lock.lockMode])).toEqual([
+        ['measurements', 'SHARE UPDATE EXCLUSIVE'],
+        ['measurements_y2025m01', 'ACCESS EXCLUSIVE']
+      ]);
+      expect(detach.command).toBe('ALTER TABLE DETACH PARTITION CONCURRENTLY');
+      expect(detach.locks.map(lock => [lock.name, lock.lockMode])).toEqual([
+        ['measurements', 'SHARE UPDATE EXCLUSIVE'],
+        ['measurements_y2024m01', 'SHARE UPDATE EXCLUSIVE']
+      ]);
+    });
+
+    it('should lock the table referenced by an inline REFERENCES clause', async () => {
+      const result = await parseScript('ALTER TABLE orders ADD COLUMN customer_id bigint REFERENCES customers (id)');
+
+      const [statement] = result.statements;
+      expect(statement.command).toBe('ALTER TABLE ADD COLUMN');
+      expect(statement.locks.map(lock => [lock.name, lock.lockMode])).toEqual([
+        ['orders', 'ACCESS EXCLUSIVE'],
+        ['customers', 'SHARE ROW EXCLUSIVE']
+      ]);
+    });
+  });
+
+  describe('LOCK TABLE', () => {
+    it('should lock every listed table in the requested mode', async () => {
+      const result = await parseSQL('LOCK TABLE orders, billing.invoices IN SHARE ROW EXCLUSIVE MODE NOWAIT;');
+
+      expect(result.command).toBe('LOCK TABLE IN SHARE ROW EXCLUSIVE MODE');
+      expect(result.tables).toEqual(['orders', 'billing.invoices']);
+
+      const tableLocks = getTableLockAnalysis(result.relations || [], result.command);
+      expect(tableLocks.map(lock => [lock.table, lock.lockMode, lock.nowait])).toEqual([
+        ['orders', 'SHARE ROW EXCLUSIVE', true],
+        ['billing.invoices', 'SHARE ROW EXCLUSIVE', true]
+      ]);
+    });
+
+    it('should default to ACCESS EXCLUSIVE and keep ONLY', async () => {
+      const result = await parseSQL('LOCK ONLY measurements;');
+
+      expect(result.command).toBe('LOCK TABLE IN ACCESS EXCLUSIVE MODE');
+
+      const [lock] = getTableLockAnalysis(result.relations || [], result.command);
+      expect(lock.lockMode).toBe('ACCESS EXCLUSIVE');
+      expect(lock.only).toBe(true);
+      expect(lock.nowait).toBeUndefined();
+    });
+
+    it('should lock in ACCESS SHARE mode when asked to', async () => {
+      const result = await parseSQL('LOCK TABLE reports IN ACCESS SHARE MODE;');
+
+      expect(getTableLockAnalysis(result.tables, result.command)[0].lockMode).toBe('ACCESS SHARE');
+    });
+  });
+
+  describe('Maintenance and Utility Commands', () => {
+    it.each([
+      ['REINDEX TABLE orders', 'REINDEX TABLE', 'orders', 'SHARE'],
+      ['REINDEX TABLE CONCURRENTLY orders', 'REINDEX TABLE CONCURRENTLY', 'orders', 'SHARE UPDATE EXCLUSIVE'],
+      ['REINDEX INDEX orders_pkey', 'REINDEX INDEX', 'orders_pkey', 'ACCESS EXCLUSIVE'],
+      ['CLUSTER orders USING orders_pkey', 'CLUSTER', 'orders', 'ACCESS EXCLUSIVE'],
+      ['ANALYZE orders (status)', 'ANALYZE', 'orders', 'SHARE UPDATE EXCLUSIVE'],
+      ['COPY orders (id, status) FROM STDIN', 'COPY FROM', 'orders', 'ROW EXCLUSIVE'],
+      ['COPY orders TO STDOUT', 'COPY TO', 'orders', 'ACCESS SHARE'],
+      ['CREATE STATISTICS orders_stats ON customer_id, status FROM orders', 'CREATE STATISTICS', 'orders', 'SHARE UPDATE EXCLUSIVE'],
+      [`COMMENT ON COLUMN billing.orders.status IS 'Order state'`, 'COMMENT ON', 'billing.orders', 'SHARE UPDATE EXCLUSIVE']
+    ])('%s', async (query, command, table, lockMode) => {
+      const result = await parseSQL(query);
+
+      expect(result.command).toBe(command);
+      expect(result.tables).toEqual([table]);
+      expect(getTableLockAnalysis(result.tables, result.command)[0].lockMode).toBe(lockMode);
+    });
+
+    it('should lock every table of a multi-table VACUUM or ANALYZE', async () => {
+      const result = await parseSQL('ANALYZE orders, customers;');
+
+      const tableLocks = getTableLockAnalysis(result.tables, result.command);
+      expect(tableLocks.map(lock => lock.lockMode)).toEqual(['SHARE UPDATE EXCLUSIVE', 'SHARE UPDATE EXCLUSIVE']);
+    });
+
+    it('should read the tables of COPY (query) TO', async () => {
+      const result = await parseSQL(`COPY (SELECT o.id, c.email FROM orders o JOIN customers c ON c.id = o.customer_id) TO STDOUT;`);
+
+      expect(result.command).toBe('COPY TO');
+      expect(result.tables).toEqual(['orders', 'customers']);
+      expect(getTableLockAnalysis(result.tables, result.command).map(lock => lock.lockMode)).toEqual(['ACCESS SHARE', 'ACCESS SHARE']);
+    });
+
+    it('should lock the target of COPY (UPDATE ... RETURNING) TO in ROW EXCLUSIVE mode', async () => {
+      const result = await parseSQL(`COPY (UPDATE orders SET exported = true RETURNING id) TO STDOUT;`);
+
+      const [lock] = getTableLockAnalysis(result.relations || [], result.command);
+      expect(lock.lockMode).toBe('ROW EXCLUSIVE');
+    });
+
+    it('should not lock any table for REINDEX SCHEMA or COMMENT ON FUNCTION', async () => {
+      const reindex = await parseSQL('REINDEX SCHEMA app;');
+      const comment = await parseSQL(`COMMENT ON FUNCTION refresh_totals() IS 'Nightly job';`);
+
+      expect(reindex.command).toBe('REINDEX SCHEMA');
+      expect(reindex.tables).toEqual([]);
+      expect(comment.command).toBe('COMMENT ON');
+      expect(comment.tables).toEqual([]);
+    });
+  });
+
+  describe('Row-level Locks', () => {
+    it('should take FOR NO KEY UPDATE for an UPDATE of non-key columns', async () => {
+      const result = await parseSQL(`UPDATE orders SET status = 'shipped' FROM customers WHERE customers.id = orders.customer_id;`);
+
+      const tableLocks = getTableLockAnalysis(result.relations || [], result.command);
+      expect(tableLocks.map(lock => [lock.table, lock.lockMode, lock.rowLock])).toEqual([
+        ['orders', 'ROW EXCLUSIVE', 'FOR NO KEY UPDATE'],
+        ['customers', 'ACCESS SHARE', undefined]
+      ]);
+    });
+
+    it('should take FOR UPDATE when an UPDATE changes a key column', async () => {
+      const result = await parseSQL(`UPDATE orders SET id = id + 1000, order_number = 'X' || order_number;`);
+
+      expect(getTableLockAnalysis(result.relations || [], result.command)[0].rowLock).toBe('FOR UPDATE');
+      expect(getTableLockAnalysis(result.relations || [], result.command, undefined, {
+        keyColumns: { 'public.orders': ['order_number'] }
+      })[0].rowLock).toBe('FOR UPDATE');
+      expect(getTableLockAnalysis(result.relations || [], result.command, undefined, {
+        keyColumns: { orders: ['uuid'] }
+      })[0].rowLock).toBe('FOR NO KEY UPDATE');
+    });
+
+    it.each([
+      ['DELETE FROM orders WHERE id = 1', 'FOR UPDATE'],
+      ['SELECT * FROM orders FOR KEY SHARE', 'FOR KEY SHARE'],
+      ['INSERT INTO orders (id, status) VALUES (1, 0) ON CONFLICT (id) DO UPDATE SET status = EXCLUDED.status', 'FOR NO KEY UPDATE'],
+      ['INSERT INTO orders (id, status) VALUES (1, 0) ON CONFLICT DO NOTHING', undefined],
+      ['INSERT INTO orders (id, status) VALUES (1, 0)', undefined],
+      ['MERGE INTO orders o USING incoming i ON o.id = i.id WHEN MATCHED AND i.cancelled THEN DELETE WHEN MATCHED THEN UPDATE SET status = i.status', 'FOR UPDATE']
+    ])('%s', async (query, rowLock) => {
+      const result = await parseSQL(query);
+
+      expect(getTableLockAnalysis(result.relations || [], result.command)[0].rowLock).toBe(rowLock);
+    });
+  });
+
+  describe('Locking Clauses', () => {
+    it('should apply every locking clause to the tables it names', async () => {
+      const result = await parseSQL(`SELECT * FROM orders o
+JOIN customers c ON c.id = o.customer_id
+JOIN products p ON p.id = o.product_id
+FOR UPDATE OF o NOWAIT FOR SHARE OF c;`);
+
+      expect(result.command).toBe('SELECT FOR UPDATE');
+
+      const tableLocks = getTableLockAnalysis(result.relations || [], result.command);
+      expect(tableLocks.map(lock => [lock.table, lock.lockMode, lock.rowLock, lock.nowait])).toEqual([
+        ['orders', 'ROW SHARE', 'FOR UPDATE', true],
+        ['customers', 'ROW SHARE', 'FOR SHARE', undefined],
+        ['products', 'ACCESS SHARE', undefined, undefined]
+      ]);
+    });
+
+    it('should cover all tables of a subquery named in OF', async () => {
+      const result = await parseSQL(`SELECT * FROM (SELECT * FROM orders JOIN customers ON true) recent, products FOR KEY SHARE OF recent;`);
+
+      const tableLocks = getTableLockAnalysis(result.relations || [], result.command);
+      expect(tableLocks.map(lock => [lock.table, lock.rowLock])).toEqual([
+        ['orders', 'FOR KEY SHARE'],
+        ['customers', 'FOR KEY SHARE'],
+        ['products', undefined]
+      ]);
+    });
+
+    it('should evaluate locking clauses of subqueries and CTEs', async () => {
+      const result = await parseScript(`WITH next_job AS (
+  SELECT id FROM jobs WHERE state = 'queued' ORDER BY id LIMIT 1 FOR UPDATE SKIP LOCKED
+)
+UPDATE jobs SET state = 'running' FROM next_job WHERE jobs.id = next_job.id;
+SELECT * FROM accounts WHERE id IN (SELECT account_id FROM holds FOR SHARE);`);
+
+      const [update, select] = result.statements;
+      expect(update.locks).toHaveLength(1);
+      expect(update.locks[0]).toMatchObject({ table: 'jobs', lockMode: 'ROW EXCLUSIVE', rowLock: 'FOR UPDATE', skipLocked: true });
+
+      expect(select.command).toBe('SELECT');
+      expect(select.locks.map(lock => [lock.table, lock.lockMode, lock.rowLock])).toEqual([
+        ['accounts', 'ACCESS SHARE', undefined],
+        ['holds', 'ROW SHARE', 'FOR SHARE']
+      ]);
+    });
+  });
+
+  describe('Table Roles', () => {
+    it('should lock the INSERT target even when a CTE table comes first', async () => {
+      const result = await parseSQL(`WITH recent AS (SELECT * FROM orders WHERE created_at > now() - interval '1 day')
+INSERT INTO order_archive SELECT * FROM recent;`);
+
+      const tableLocks = getTableLockAnalysis(result.relations || [], result.command);
+      expect(tableLocks.map(lock => [lock.table, lock.role, lock.lockMode])).toEqual([
+        ['orders', 'cte', 'ACCESS SHARE'],
+        ['order_archive', 'target', 'ROW EXCLUSIVE']
+      ]);
+    });
+
+    it('should tell the MERGE target from its source and subqueries', async () => {
+      const result = await parseSQL(`MERGE INTO inventory i
+USING (SELECT * FROM shipments WHERE warehouse_id IN (SELECT id FROM warehouses)) s ON i.sku = s.sku
+WHEN MATCHED THEN UPDATE SET quantity = i.quantity + s.quantity;`);
+
+      const tableLocks = getTableLockAnalysis(result.relations || [], result.command);
+      expect(tableLocks.map(lock => [lock.table, lock.role, lock.lockMode])).toEqual([
+        ['inventory', 'target', 'ROW EXCLUSIVE'],
+        ['shipments', 'source', 'ACCESS SHARE'],
+        ['warehouses', 'subquery', 'ACCESS SHARE']
+      ]);
+    });
+
+    it('should lock every table of a multi-table command as a target', async () => {
+      const result = await parseSQL('DROP TABLE sessions, session_events;');
+
+      const tableLocks = getTableLockAnalysis(result.relations || [], result.command);
+      expect(tableLocks.map(lock => [lock.table, lock.role, lock.lockMode])).toEqual([
+        ['sessions', 'target', 'ACCESS EXCLUSIVE'],
+        ['session_events', 'target', 'ACCESS EXCLUSIVE']
+      ]);
+    });
+
+    it('should record the roles of tables locked by ALTER TABLE subcommands', async () => {
+      const result = await parseSQL(`ALTER TABLE measurements
+  ATTACH PARTITION measurements_2024 FOR VALUES FROM ('2024-01-01') TO ('2025-01-01');`);
+      const fkResult = await parseSQL('ALTER TABLE orders ADD CONSTRAINT orders_customer_fk FOREIGN KEY (customer_id) REFERENCES customers (id);');
+
+      expect(result.relations?.map(table => [table.name, table.role])).toEqual([
+        ['measurements', 'target'],
+        ['measurements_2024', 'partition']
+      ]);
+      expect(fkResult.relations?.map(table => [table.name, table.role])).toEqual([
+        ['orders', 'target'],
+        ['customers', 'referenced']
+      ]);
+    });
+
+    it('should keep the target role of a table that is also read', async () => {
+      const result = await parseSQL('DELETE FROM sessions WHERE id IN (SELECT id FROM sessions WHERE expires_at < now());');
+
+      expect(result.relations?.map(table => [table.name, table.role])).toEqual([['sessions', 'target']]);
+    });
+  });
+
+  describe('Data-modifying CTEs', () => {
+    it('should lock the target of a DELETE inside a CTE', async () => {
+      const result = await parseSQL('WITH moved AS (DELETE FROM queue RETURNING *) INSERT INTO archive SELECT * FROM moved;');
+
+      const tableLocks = getTableLockAnalysis(result.relations || [], result.command);
+      expect(tableLocks.map(lock => [lock.table, lock.lockMode, lock.rowLock, lock.cte])).toEqual([
+        ['queue', 'ROW EXCLUSIVE', 'FOR UPDATE', 'moved'],
+        ['archive', 'ROW EXCLUSIVE', undefined, undefined]
+      ]);
+    });
+
+    it('should lock the target of an UPDATE inside a CTE of a SELECT', async () => {
+      const result = await parseSQL(`WITH paid AS (
+  UPDATE invoices SET paid_at = now() WHERE id IN (SELECT invoice_id FROM payments) RETURNING *
+)
+SELECT * FROM paid JOIN customers ON customers.id = paid.customer_id;`);
+
+      expect(result.command).toBe('SELECT');
+      const tableLocks = getTableLockAnalysis(result.relations || [], result.command);
+      expect(tableLocks.map(lock => [lock.table, lock.lockMode, lock.role, lock.cte])).toEqual([
+        ['invoices', 'ROW EXCLUSIVE', 'target', 'paid'],
+        ['payments', 'ACCESS SHARE', 'subquery', undefined],
+        ['customers', 'ACCESS SHARE', 'source', undefined]
+      ]);
+    });
+
+    it('should lock the targets of INSERT and MERGE inside CTEs', async () => {
+      const result = await parseScript(`WITH logged AS (INSERT INTO audit_log (action) VALUES ('sync') RETURNING id)
+SELECT * FROM logged;
+WITH merged AS (
+  MERGE INTO stock s USING incoming i ON s.sku = i.sku WHEN MATCHED THEN DELETE RETURNING s.*
+)
+SELECT count(*) FROM merged;`);
+
+      const [insert, merge] = result.statements;
+      expect(insert.locks).toEqual([expect.objectContaining({ table: 'audit_log', lockMode: 'ROW EXCLUSIVE', cte: 'logged' })]);
+      expect(merge.locks.map(lock => [lock.table, lock.lockMode, lock.cte])).toEqual([
+        ['stock', 'ROW EXCLUSIVE', 'merged'],
+        ['incoming', 'ACCESS SHARE', undefined]
+      ]);
+    });
+  });
+
+  describe('PostgreSQL Versions', () => {
+    it('should parse with the grammar of the selected version', async () => {
+      const query = `MERGE INTO stock s USING incoming i ON s.sku = i.sku WHEN MATCHED THEN DELETE RETURNING s.sku;`;
+
+      expect((await parseSQL(query, { version: 17 })).isValid).toBe(true);
+      expect((await parseSQL(query, { version: 16 })).isValid).toBe(false);
+      // Versions without a parser build of their own use the oldest one
+      expect((await parseSQL('SELECT * FROM users;', { version: 13 })).isValid).toBe(true);
+    });
+
+    it('should apply the lock rules of the selected version', async () => {
+      const script = `ALTER TABLE measurements ATTACH PARTITION measurements_2024 FOR VALUES FROM ('2024-01-01') TO ('2025-01-01');`;
+
+      const current = await parseScript(script);
+      const pg11 = await parseScript(script, { version: 11 });
+
+      expect(current.statements[0].locks.map(lock => lock.lockMode)).toEqual(['SHARE UPDATE EXCLUSIVE', 'ACCESS EXCLUSIVE']);
+      expect(pg11.statements[0].locks.map(lock => lock.lockMode)).toEqual(['ACCESS EXCLUSIVE', 'ACCESS EXCLUSIVE']);
+      expect(current.statements[0].actions?.[0].lockMode).toBe('SHARE UPDATE EXCLUSIVE');
+      expect(pg11.statements[0].actions?.[0].lockMode).toBe('ACCESS EXCLUSIVE');
+    });
+
+    it('should not report locks for commands a version does not have', () => {
+      expect(getLockAnalysis('REINDEX INDEX CONCURRENTLY', 11)).toBeNull();
+      expect(getLockAnalysis('REINDEX INDEX CONCURRENTLY', 12)?.lockMode).toBe('SHARE UPDATE EXCLUSIVE');
+      expect(getLockAnalysis('ALTER TABLE DETACH PARTITION CONCURRENTLY', 13)).toBeNull();
+    });
+
+    it('should rename an index in ACCESS EXCLUSIVE mode before PostgreSQL 12', async () => {
+      const script = 'ALTER INDEX orders_amount_idx RENAME TO orders_total_idx;';
+
+      expect(getLockAnalysis('ALTER INDEX RENAME TO', 11)?.lockMode).toBe('ACCESS EXCLUSIVE');
+      expect(getLockAnalysis('ALTER INDEX RENAME TO', 12)?.lockMode).toBe('SHARE UPDATE EXCLUSIVE');
+      expect((await parseScript(script, { version: 11 })).statements[0].locks[0].lockMode).toBe('ACCESS EXCLUSIVE');
+      expect((await parseScript(script, { version: 12 })).statements[0].locks[0].lockMode).toBe('SHARE UPDATE EXCLUSIVE');
+    });
+
+    it('should not lock tables for statements a version does not have', async () => {
+      const script = `MERGE INTO stock s USING incoming i ON s.sku = i.sku WHEN MATCHED THEN DELETE;
+REINDEX INDEX CONCURRENTLY stock_sku_idx;
+ALTER TABLE stock ADD COLUMN note text, ALTER COLUMN description SET COMPRESSION lz4;`;
+
+      const pg11 = await parseScript(script, { version: 11 });
+      const pg14 = await parseScript(script, { version: 14 });
+
+      expect(pg11.statements.map(statement => statement.locks)).toEqual([[], [], []]);
+      expect(pg11.statements[0].notes).toEqual([
+        'MERGE is only available since PostgreSQL 15 - PostgreSQL 11 rejects the statement, so it takes no locks'
+      ]);
+      expect(pg14.statements.map(statement => statement.locks.length)).toEqual([0, 1, 1]);
+    });
+  });
+
+  describe('Partitions', () => {
+    const partitions = parsePartitionHierarchy(`measurements: measurements_2024, measurements_2025, DEFAULT measurements_other
+cities (inheritance): capitals`);
+
+    it('should parse partition hierarchies', () => {
+      expect(partitions).toEqual({
+        measurements: {
+          partitions: ['measurements_2024', 'measurements_2025'],
+          defaultPartition: 'measurements_other',
+          inheritance: undefined
+        },
+        cities: { partitions: ['capitals'], inheritance: true }
+      });
+    });
+
+    it('should lock every partition with the lock of the partitioned table', async () => {
+      const result = await parseScript(`UPDATE measurements SET value = 0 WHERE logdate < '2024-06-01';
+TRUNCATE capitals, cities;`, { partitions });
+
+      const [update, truncate] = result.statements;
+      expect(update.locks.map(lock => [lock.table, lock.lockMode, lock.partitionOf])).toEqual([
+        ['measurements', 'ROW EXCLUSIVE', undefined],
+        ['measurements_2024', 'ROW EXCLUSIVE', 'measurements'],
+        ['measurements_2025', 'ROW EXCLUSIVE', 'measurements'],
+        ['measurements_other', 'ROW EXCLUSIVE', 'measurements']
+      ]);
+      expect(update.locks[3].defaultPartition).toBe(true);
+      expect(truncate.locks.map(lock => [lock.table, lock.lockMode, lock.partitionOf])).toEqual([
+        ['capitals', 'ACCESS EXCLUSIVE', 'cities'],
+        ['cities', 'ACCESS EXCLUSIVE', undefined]
+      ]);
+    });
+
+    it('should not lock children of a table named with ONLY', async () => {
+      const result = await parseScript(`SELECT * FROM ONLY cities;
+CREATE INDEX ON ONLY measurements (logdate);`, { partitions });
+
+      const [select, createIndex] = result.statements;
+      expect(select.locks).toHaveLength(1);
+      expect(select.locks[0].notes).toEqual(['ONLY - the child tables are neither read nor locked']);
+      expect(createIndex.locks).toHaveLength(1);
+      expect(createIndex.locks[0].notes?.[0]).toMatch(/^CREATE INDEX ON ONLY creates an invalid index/);
+    });
+
+    it('should lock the default partition on ATTACH and DETACH PARTITION', async () => {
+      const result = await parseScript(`ALTER TABLE measurements ATTACH PARTITION measurements_2026 FOR VALUES FROM ('2026-01-01') TO ('2027-01-01');
+ALTER TABLE measurements DETACH PARTITION measurements_2024;
+ALTER TABLE measurements DETACH PARTITION measurements_2025 CONCURRENTLY;`, { partitions });
+
+      const [attach, detach, detachConcurrently] = result.statements;
+      expect(attach.locks.map(lock => [lock.table, lock.lockMode, lock.role])).toEqual([
+        ['measurements', 'SHARE UPDATE EXCLUSIVE', 'target'],
+        ['measurements_2026', 'ACCESS EXCLUSIVE', 'partition'],
+        ['measurements_other', 'ACCESS EXCLUSIVE', 'partition']
+      ]);
+      expect(attach.locks[2].notes?.[0]).toMatch(/^ATTACH PARTITION scans the default partition/);
+      expect(detach.locks.map(lock => [lock.table, lock.lockMode])).toEqual([
+        ['measurements', 'ACCESS EXCLUSIVE'],
+        ['measurements_2024', 'ACCESS EXCLUSIVE'],
+        ['measurements_other', 'ACCESS EXCLUSIVE']
+      ]);
+      expect(detachConcurrently.locks).toHaveLength(2);
+      expect(detachConcurrently.locks[0].notes).toEqual([
+        'DETACH PARTITION CONCURRENTLY fails when the partitioned table has a default partition'
+      ]);
+    });
+  });
+
+  describe('Index Locks', () => {
+    const indexes = parseIndexList(`orders: orders_pkey, idx_orders_customer_id
+public.customers: customers_pkey`);
+
+    it('should parse index lists', () => {
+      expect(indexes).toEqual({
+        orders: ['orders_pkey', 'idx_orders_customer_id'],
+        'public.customers': ['customers_pkey']
+      });
+    });
+
+    it('should lock the indexes of read and written tables with the table lock', async () => {
+      const result = await parseScript(`INSERT INTO orders (customer_id) SELECT id FROM customers;
+TRUNCATE orders;`, { indexes });
+
+      const [insert, truncate] = result.statements;
+      expect(insert.locks.map(lock => lock.indexes?.map(index => [index.index, index.lockMode]))).toEqual([
+        [['orders_pkey', 'ROW EXCLUSIVE'], ['idx_orders_customer_id', 'ROW EXCLUSIVE']],
+        [['customers_pkey', 'ACCESS SHARE']]
+      ]);
+      expect(truncate.locks[0].indexes?.map(index => index.lockMode)).toEqual(['ACCESS EXCLUSIVE', 'ACCESS EXCLUSIVE']);
+    });
+
+    it('should report the index created by CREATE INDEX', async () => {
+      const result = await parseScript(`CREATE INDEX idx_orders_note ON orders (note);
+CREATE INDEX CONCURRENTLY idx_orders_created_at ON orders (created_at);`);
+
+      const [createIndex, createIndexConcurrently] = result.statements;
+      expect(createIndex.locks[0].lockMode).toBe('SHARE');
+      expect(createIndex.locks[0].indexes).toMatchObject([
+        { index: 'idx_orders_note', lockMode: 'ACCESS EXCLUSIVE', isNew: true }
+      ]);
+      expect(createIndexConcurrently.locks[0].indexes).toMatchObject([
+        { index: 'idx_orders_created_at', lockMode: 'SHARE UPDATE EXCLUSIVE', isNew: true }
+      ]);
+    });
+
+    it('should lock the table of an index named by REINDEX INDEX and DROP INDEX', async () => {
+      const result = await parseScript(`REINDEX INDEX idx_orders_customer_id;
+DROP INDEX CONCURRENTLY public.customers_pkey;
+DROP INDEX idx_unknown;`, { indexes });
+
+      const [reindex, dropConcurrently, drop] = result.statements;
+      expect(dropConcurrently.command).toBe('DROP INDEX CONCURRENTLY');
+      expect(reindex.locks.map(lock => [lock.table, lock.lockMode])).toEqual([['orders', 'SHARE']]);
+      expect(reindex.locks[0].indexes).toMatchObject([{ index: 'idx_orders_customer_id', lockMode: 'ACCESS EXCLUSIVE' }]);
+      expect(dropConcurrently.locks.map(lock => [lock.table, lock.lockMode])).toEqual([
+        ['public.customers', 'SHARE UPDATE EXCLUSIVE']
+      ]);
+      expect(dropConcurrently.locks[0].indexes).toMatchObject([{ index: 'customers_pkey', lockMode: 'SHARE UPDATE EXCLUSIVE' }]);
+      expect(drop.locks.map(lock => [lock.table, lock.lockMode, lock.indexes])).toEqual([
+        ['idx_unknown', 'ACCESS EXCLUSIVE', undefined]
+      ]);
+    });
+  });
+
+  describe('Views', () => {
+    const views = {
+      active_users: { tables: ['users'], baseTable: 'users' },
+      user_summary: { tables: ['active_users', 'orders'] },
+      order_totals: { tables: ['orders'], materialized: true }
+    };
+
+    it('should read every table of nested views', async () => {
+      const result = await parseScript('SELECT * FROM user_summary;', { views });
+
+      expect(result.statements[0].locks.map(lock => [lock.table, lock.lockMode, lock.view])).toEqual([
+        ['user_summary', 'ACCESS SHARE', undefined],
+        ['active_users', 'ACCESS SHARE', 'user_summary'],
+        ['orders', 'ACCESS SHARE', 'user_summary'],
+        ['users', 'ACCESS SHARE', 'active_users']
+      ]);
+    });
+
+    it('should apply the lock of an updatable view to its base table', async () => {
+      const result = await parseScript(`UPDATE active_users SET name = 'x' WHERE id = 1;
+UPDATE user_summary SET name = 'x';
+ALTER VIEW active_users RENAME TO current_users;`, { views });
+
+      const [update, nonUpdatable, rename] = result.statements;
+      expect(update.locks.map(lock => [lock.table, lock.lockMode, lock.rowLock, lock.role])).toEqual([
+        ['active_users', 'ROW EXCLUSIVE', 'FOR NO KEY UPDATE', 'target'],
+        ['users', 'ROW EXCLUSIVE', 'FOR NO KEY UPDATE', 'target']
+      ]);
+      expect(nonUpdatable.locks[0].notes).toEqual([
+        'The view is not automatically updatable - the statement needs an INSTEAD OF trigger or rule on it'
+      ]);
+      expect(rename.locks).toHaveLength(1);
+    });
+
+    it('should only read the tables of a materialized view when refreshing it', async () => {
+      const result = await parseScript(`SELECT * FROM order_totals;
+REFRESH MATERIALIZED VIEW CONCURRENTLY order_totals;`, { views });
+
+      const [select, refresh] = result.statements;
+      expect(select.locks).toHaveLength(1);
+      expect(refresh.locks.map(lock => [lock.table, lock.lockMode])).toEqual([
+        ['order_totals', 'EXCLUSIVE'],
+        ['orders', 'ACCESS SHARE']
+      ]);
+    });
+  });
+
+  describe('Foreign Keys', () => {
+    const foreignKeys = parseForeignKeys(`orders(customer_id) -> customers(id) ON DELETE CASCADE
+order_items(order_id) -> orders ON DELETE CASCADE ON UPDATE RESTRICT
+invoices(order_id) -> orders(id) ON DELETE SET NULL`);
+
+    it('should parse foreign keys', () => {
+      expect(foreignKeys[1]).toEqual({
+        table: 'order_items',
+        columns: ['order_id'],
+        referencedTable: 'orders',
+        referencedColumns: [],
+        onDelete: 'CASCADE',
+        onUpdate: 'RESTRICT'
+      });
+    });
+
+    it('should lock the referenced row with FOR KEY SHARE when writing a reference', async () => {
+      const result = await parseScript(`INSERT INTO orders (customer_id) VALUES (1);
+UPDATE orders SET note = 'x' WHERE id = 1;`, { foreignKeys });
+
+      const [insert, update] = result.statements;
+      expect(insert.locks.map(lock => [lock.table, lock.lockMode, lock.rowLock, lock.role])).toEqual([
+        ['orders', 'ROW EXCLUSIVE', undefined, 'target'],
+        ['customers', 'ROW SHARE', 'FOR KEY SHARE', 'referenced']
+      ]);
+      expect(insert.locks[1].reason).toMatch(/checks that the rows written to orders reference an existing row/);
+      // Neither the foreign key nor the referenced key changes
+      expect(update.locks).toHaveLength(1);
+    });
+
+    it('should follow ON DELETE actions through the referencing tables', async () => {
+      const result = await parseScript('DELETE FROM customers WHERE id = 1;', { foreignKeys });
+
+      expect(result.statements[0].locks.map(lock => [lock.table, lock.lockMode, lock.rowLock])).toEqual([
+        ['customers', 'ROW EXCLUSIVE', 'FOR UPDATE'],
+        ['orders', 'ROW EXCLUSIVE', 'FOR UPDATE'],
+        ['order_items', 'ROW EXCLUSIVE', 'FOR UPDATE'],
+        ['invoices', 'ROW EXCLUSIVE', 'FOR NO KEY UPDATE']
+      ]);
+      expect(result.statements[0].locks[3].reason).toBe(
+        'Foreign key invoices(order_id) (ON DELETE SET NULL) updates the rows of invoices that reference the deleted rows of orders'
+      );
+    });
+
+    it('should check referencing tables when a referenced key changes', async () => {
+      const result = await parseScript('UPDATE orders SET id = id + 1000;', { foreignKeys });
+
+      expect(result.statements[0].locks.map(lock => [lock.table, lock.lockMode, lock.role])).toEqual([
+        ['orders', 'ROW EXCLUSIVE', 'target'],
+        ['order_items', 'ROW SHARE', 'referencing'],
+        ['invoices', 'ROW SHARE', 'referencing']
+      ]);
+    });
+
+    it('should report the foreign keys TRUNCATE and DROP TABLE act on', async () => {
+      const result = await parseScript(`TRUNCATE customers;
+TRUNCATE customers CASCADE;
+DROP TABLE invoices;`, { foreignKeys });
+
+      const [truncate, truncateCascade, drop] = result.statements;
+      expect(truncate.locks[0].notes).toEqual([
+        'TRUNCATE fails - orders references customers. Truncate both in one statement or add CASCADE'
+      ]);
+      expect(truncateCascade.locks.map(lock => [lock.table, lock.lockMode])).toEqual([
+        ['customers', 'ACCESS EXCLUSIVE'],
+        ['orders', 'ACCESS EXCLUSIVE'],
+        ['order_items', 'ACCESS EXCLUSIVE'],
+        ['invoices', 'ACCESS EXCLUSIVE']
+      ]);
+      expect(drop.locks.map(lock => [lock.table, lock.lockMode, lock.role])).toEqual([
+        ['invoices', 'ACCESS EXCLUSIVE', 'target'],
+        ['orders', 'ACCESS EXCLUSIVE', 'referenced']
+      ]);
+    });
+  });
+
+  describe('Triggers', () => {
+    const audit = {
+      language: 'plpgsql',
+      statements: [{ sql: 'INSERT INTO orders_audit VALUES (NEW.id)', command: 'INSERT', relations: [{ name: 'orders_audit', role: 'target' as const }] }]
+    };
+    const triggers = {
+      orders: [
+        { name: 'orders_audit', function: 'audit', timing: 'AFTER' as const, events: ['UPDATE', 'DELETE'], columns: ['status'], forEachRow: true },
+        { name: 'orders_cleanup', function: 'cleanup', timing: 'AFTER' as const, events: ['TRUNCATE'], forEachRow: false }
+      ]
+    };
+
+    it('should add the locks of the statements a fired trigger runs', async () => {
+      const result = await parseScript(`UPDATE orders SET status = 'shipped' WHERE id = 1;
+UPDATE orders SET note = 'x' WHERE id = 1;
+INSERT INTO orders (id) VALUES (2);`, { triggers, functions: { 'public.audit': audit } });
+
+      const [update, updateOtherColumn, insert] = result.statements;
+      expect(update.locks.map(lock => [lock.table, lock.lockMode, lock.trigger])).toEqual([
+        ['orders', 'ROW EXCLUSIVE', undefined],
+        ['orders_audit', 'ROW EXCLUSIVE', 'orders_audit']
+      ]);
+      expect(update.locks[1].reason).toBe('Trigger orders_audit (AFTER UPDATE OR DELETE) on orders runs audit(), which runs INSERT');
+      // UPDATE OF status doesn't fire for other columns, and the trigger has no INSERT event
+      expect(updateOtherColumn.locks).toHaveLength(1);
+      expect(insert.locks).toHaveLength(1);
+    });
+
+    it('should note triggers whose function is unknown', async () => {
+      const result = await parseScript('TRUNCATE orders;', { triggers, functions: {} });
+
+      expect(result.statements[0].locks[0].notes).toEqual(['Trigger orders_cleanup runs cleanup(), whose definition is unknown']);
+    });
+  });
+
+  describe('Lock Duration', () => {
+    it('should tell ALTER TABLE actions that only change the catalog from scans and rewrites', async () => {
+      const result = await parseScript(`ALTER TABLE orders
+  ADD COLUMN note text,
+  ADD COLUMN status text NOT NULL DEFAULT 'new',
+  ADD CONSTRAINT chk_total CHECK (total >= 0) NOT VALID,
+  ALTER COLUMN customer_id SET NOT NULL,
+  ALTER COLUMN total TYPE numeric(12, 2)`);
+
+      const [statement] = result.statements;
+      expect(statement.actions?.map(action => [action.action, action.duration])).toEqual([
+        ['ADD COLUMN', 'instant'],
+        ['ADD COLUMN', 'instant'],
+        ['ADD CHECK', 'instant'],
+        ['ALTER COLUMN SET NOT NULL', 'scan'],
+        ['ALTER COLUMN TYPE', 'rewrite']
+      ]);
+      // The table is held for as long as its longest action takes
+      expect(statement.locks[0].duration).toBe('rewrite');
+    });
+
+    it.each([
+      ['ALTER TABLE orders ADD COLUMN token uuid DEFAULT gen_random_uuid()', 'rewrite'],
+      ['ALTER TABLE orders ADD COLUMN seq bigserial', 'rewrite'],
+      ['ALTER TABLE orders ADD COLUMN total_cents bigint GENERATED ALWAYS AS (total * 100) STORED', 'rewrite'],
+      ['ALTER TABLE orders ADD COLUMN created_at timestamptz DEFAULT now()', 'instant'],
+      ['ALTER TABLE orders ADD COLUMN code text UNIQUE', 'scan'],
+      ['ALTER TABLE orders ADD CONSTRAINT fk_customer FOREIGN KEY (customer_id) REFERENCES customers (id)', 'scan'],
+      ['ALTER TABLE orders VALIDATE CONSTRAINT fk_customer', 'scan'],
+      ['ALTER TABLE orders SET LOGGED', 'rewrite']
+    ])('%s should be a %s', async (query, duration) => {
+      const result = await parseSQL(query);
+
+      expect(result.actions?.[0].duration).toBe(duration);
+    });
+
+    it('should skip the SET NOT NULL scan once a validated check proves the column', async () => {
+      const result = await parseScript(`ALTER TABLE orders ADD CONSTRAINT orders_status_not_null CHECK (status IS NOT NULL) NOT VALID;
+ALTER TABLE orders ALTER COLUMN status SET NOT NULL;
+ALTER TABLE orders VALIDATE CONSTRAINT orders_status_not_null;
+ALTER TABLE orders ALTER COLUMN status SET NOT NULL;`);
+
+      expect(result.statements.map(statement => statement.locks[0].duration)).toEqual(['instant', 'scan', 'scan', 'instant']);
+      expect((await parseScript(result.statements.map(statement => `${statement.sql};`).join('\n'), { version: 11 }))
+        .statements[3].locks[0].duration).toBe('scan');
+    });
+
+    it('should not build an index for constraints added USING INDEX', async () => {
+      const result = await parseScript(`ALTER TABLE orders ADD CONSTRAINT orders_code_key UNIQUE USING INDEX orders_code_key;
+ALTER TABLE orders ADD CONSTRAINT orders_pkey PRIMARY KEY USING INDEX orders_pkey;`);
+
+      expect(result.statements.map(statement => statement.actions?.[0].duration)).toEqual(['instant', 'scan']);
+      expect(result.statements[1].actions?.[0].durationNote).toMatch(/already NOT NULL/);
+    });
+
+    it('should rewrite the table for a column with a default before PostgreSQL 11', async () => {
+      const query = "ALTER TABLE orders ADD COLUMN status text DEFAULT 'new'";
+
+      expect((await parseSQL(query, { version: 10 })).actions?.[0]).toMatchObject({
+        duration: 'rewrite',
+        durationNote: 'Before PostgreSQL 11, a column with a default value rewrites the whole table'
+      });
+      expect((await parseSQL(query, { version: 11 })).actions?.[0].duration).toBe('instant');
+    });
+  });
+
+  describe('DO Blocks and Functions', () => {
+    it('should analyze the statements of a DO block', async () => {
+      const result = await parseScript(`DO $$
+BEGIN
+  UPDATE orders SET status = 'archived' WHERE created_at < now() - interval '1 year';
+  IF FOUND THEN
+    DELETE FROM order_items WHERE order_id NOT IN (SELECT id FROM orders);
+  END IF;
+END
+$$;`);
+
+      const [doBlock] = result.statements;
+      expect(doBlock.command).toBe('DO');
+      expect(doBlock.locks.map(lock => [lock.table, lock.lockMode, lock.routine])).toEqual([
+        ['orders', 'ROW EXCLUSIVE', 'DO block'],
+        ['order_items', 'ROW EXCLUSIVE', 'DO block']
+      ]);
+      expect(doBlock.locks[0].reason).toBe('DO block runs UPDATE');
+      expect(doBlock.notes).toBeUndefined();
+    });
+
+    it('should flag dynamic SQL and calls of unknown procedures', async () => {
+      const result = await parseScript(`DO $$ BEGIN EXECUTE format('TRUNCATE %I', 'orders'); END $$;
+CALL archive_orders(30);`);
+
+      const [doBlock, call] = result.statements;
+      expect(doBlock.locks).toEqual([]);
+      expect(doBlock.notes).toEqual(["DO block runs dynamic SQL (EXECUTE) - its locks can't be analyzed"]);
+      expect(call.command).toBe('CALL');
+      expect(call.notes).toEqual([
+        "archive_orders() is not a known procedure - its locks can't be analyzed. Load its definition on the Schema page or create it earlier in the script"
+      ]);
+    });
+
+    it('should report the locks of functions created earlier in the script when they are called', async () => {
+      const result = await parseScript(`CREATE PROCEDURE archive_orders(days int) LANGUAGE sql AS $$
+  DELETE FROM orders WHERE created_at < now() - make_interval(days => days);
+$$;
+CALL archive_orders(30);
+SELECT public.archive_orders_count(), now() FROM customers;`, {
+        functions: {
+          'public.archive_orders_count': {
+            language: 'sql',
+            statements: [{ sql: 'SELECT count(*) FROM orders_archive', command: 'SELECT', relations: [{ name: 'orders_archive', role: 'source' }] }]
+          }
+        }
+      });
+
+      const [create, call, select] = result.statements;
+      expect(create.command).toBe('CREATE PROCEDURE');
+      expect(create.locks).toEqual([]);
+      expect(create.notes).toEqual(['The statements of archive_orders() take their locks when it is called, not when it is created']);
+      expect(call.locks.map(lock => [lock.table, lock.lockMode, lock.routine])).toEqual([
+        ['orders', 'ROW EXCLUSIVE', 'archive_orders()']
+      ]);
+      // now() is a built-in function and is not reported
+      expect(select.routines?.map(routine => routine.name)).toEqual(['public.archive_orders_count()']);
+      expect(select.locks.map(lock => [lock.table, lock.lockMode, lock.routine])).toEqual([
+        ['customers', 'ACCESS SHARE', undefined],
+        ['orders_archive', 'ACCESS SHARE', 'public.archive_orders_count()']
+      ]);
+    });
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { parseScript } from '../sqlParser';
+import { findMissingLockTimeouts, wrapWithTimeouts } from '../timeoutAnalysis';
+
+describe('Timeout Analysis', () => {
+  it('should warn about strong locks taken without a lock_timeout', async () => {
+    const script = await parseScript(`SELECT * FROM orders;
+ALTER TABLE orders ADD COLUMN note text;
+BEGIN;
+SET LOCAL lock_timeout = '5s';
+ALTER TABLE orders DROP COLUMN legacy;
+COMMIT;
+CREATE INDEX idx_orders_note ON orders (note);`);
+
+    expect(findMissingLockTimeouts(script.statements)).toEqual([
+      { statementIndex: 1, lockMode: 'ACCESS EXCLUSIVE', tables: ['public.orders'] },
+      { statementIndex: 6, lockMode: 'SHARE', tables: ['public.orders'] }
+    ]);
+  });
+
+  it('should wrap a script for psql', async () => {
+    const script = await parseScript(`ALTER TABLE orders ADD COLUMN note text;
+ALTER TABLE orders ALTER COLUMN total TYPE bigint;`);
+
+    const wrapped = wrapWithTimeouts(script.statements, 'psql');
+
+    expect(wrapped).toContain('\\set ON_ERROR_STOP on');
+    expect(wrapped).toContain(`SET lock_timeout = '5s';
+-- No statement_timeout - statement 2 scans or rewrites a table
+
+ALTER TABLE orders ADD COLUMN note text;
+ALTER TABLE orders ALTER COLUMN total TYPE bigint;`);
+  });
+
+  it('should leave out the timeouts of the script when wrapping it', async () => {
+    const script = await parseScript(`SET lock_timeout = 0;
+BEGIN;
+SET LOCAL statement_timeout = '1h';
+ALTER TABLE orders ADD COLUMN note text;
+COMMIT;`);
+
+    const wrapped = wrapWithTimeouts(script.statements, 'plpgsql');
+
+    expect(wrapped).toContain(`SET lock_timeout = '5s';
+-- Left out of the script, they would override the timeouts: SET lock_timeout = 0; SET LOCAL statement_timeout = '1h'
+SET statement_timeout = '1min';`);
+    expect(wrapped).not.toContain('\nSET lock_timeout = 0;');
+    expect(wrapped).toContain('DO $$');
+  });
+
+  it('should retry the transactions that take strong locks in DO blocks', async () => {
+    const script = await parseScript(`BEGIN;
+ALTER TABLE orders ADD COLUMN note text;
+UPDATE orders SET note = '$$';
+COMMIT;
+CREATE INDEX CONCURRENTLY idx_orders_note ON orders (note);
+SELECT count(*) FROM orders;`);
+
+    const wrapped = wrapWithTimeouts(script.statements, 'plpgsql');
+    const reparsed = await parseScript(wrapped);
+
+    expect(reparsed.isValid).toBe(true);
+    expect(reparsed.statements.map(statement => statement.command)).toEqual([
+      'SET',
+      'DO',
+      'CREATE INDEX CONCURRENTLY',
+      'SELECT'
+    ]);
+    expect(wrapped).toContain(`DO $retry1$
+#variable_conflict use_column`);
+    expect(wrapped).toContain(`      ALTER TABLE orders ADD COLUMN note text;
+      UPDATE orders SET note = '$$';
+      EXIT;`);
+  });
+});
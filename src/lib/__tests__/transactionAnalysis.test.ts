@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import { parseScript } from '../sqlParser';
+import { analyzeTransactions } from '../transactionAnalysis';
+
+describe('Transaction Analysis', () => {
+  it('should keep ACCESS EXCLUSIVE held for a cheap UPDATE in the same transaction', async () => {
+    const script = await parseScript(`BEGIN;
+ALTER TABLE orders DROP COLUMN legacy_note;
+UPDATE orders SET note = 'migrated' WHERE id = 1;
+COMMIT;`);
+
+    const steps = analyzeTransactions(script.statements);
+
+    expect(steps).toHaveLength(4);
+    expect(steps.every(step => step.transaction === 1 && !step.isAutocommit)).toBe(true);
+
+    const update = steps[2];
+    expect(update.command).toBe('UPDATE');
+    expect(update.acquired[0].lockMode).toBe('ROW EXCLUSIVE');
+    expect(update.held).toEqual([{ table: 'public.orders', lockMode: 'ACCESS EXCLUSIVE', acquiredBy: 1 }]);
+
+    const commit = steps[3];
+    expect(commit.held).toEqual([]);
+    expect(commit.released.map(lock => lock.table)).toEqual(['public.orders']);
+  });
+
+  it('should release locks after every autocommit statement', async () => {
+    const script = await parseScript(`ALTER TABLE orders ADD COLUMN note text;
+UPDATE orders SET note = 'migrated';`);
+
+    const steps = analyzeTransactions(script.statements);
+
+    expect(steps.map(step => step.isAutocommit)).toEqual([true, true]);
+    expect(steps.map(step => step.transaction)).toEqual([1, 2]);
+    expect(steps[1].held).toEqual([{ table: 'public.orders', lockMode: 'ROW EXCLUSIVE', acquiredBy: 1 }]);
+    expect(steps[1].released).toHaveLength(1);
+  });
+
+  it('should accumulate locks on different tables until ROLLBACK', async () => {
+    const script = await parseScript(`START TRANSACTION;
+SELECT * FROM customers;
+DELETE FROM orders WHERE customer_id = 1;
+ROLLBACK;`);
+
+    const steps = analyzeTransactions(script.statements);
+
+    expect(steps[2].held).toEqual([
+      { table: 'public.customers', lockMode: 'ACCESS SHARE', acquiredBy: 1 },
+      { table: 'public.orders', lockMode: 'ROW EXCLUSIVE', acquiredBy: 2 }
+    ]);
+    expect(steps[3].released).toHaveLength(2);
+  });
+
+  it('should release locks acquired after a savepoint on ROLLBACK TO SAVEPOINT', async () => {
+    const script = await parseScript(`BEGIN;
+UPDATE accounts SET balance = 0;
+SAVEPOINT before_ddl;
+TRUNCATE ledger;
+ROLLBACK TO SAVEPOINT before_ddl;
+SELECT * FROM accounts;
+COMMIT;`);
+
+    const steps = analyzeTransactions(script.statements);
+
+    expect(steps[3].held.map(lock => lock.table)).toEqual(['public.accounts', 'public.ledger']);
+    expect(steps[4].released.map(lock => lock.table)).toEqual(['public.ledger']);
+    expect(steps[5].held).toEqual([{ table: 'public.accounts', lockMode: 'ROW EXCLUSIVE', acquiredBy: 1 }]);
+  });
+
+  it('should start a new transaction on COMMIT AND CHAIN', async () => {
+    const script = await parseScript(`BEGIN;
+UPDATE accounts SET balance = 0;
+COMMIT AND CHAIN;
+SELECT * FROM accounts;
+COMMIT;`);
+
+    const steps = analyzeTransactions(script.statements);
+
+    expect(steps[3].transaction).toBe(2);
+    expect(steps[3].isAutocommit).toBe(false);
+    expect(steps[3].held).toEqual([{ table: 'public.accounts', lockMode: 'ACCESS SHARE', acquiredBy: 3 }]);
+  });
+
+  it('should warn about commands that cannot run inside a transaction block', async () => {
+    const script = await parseScript(`BEGIN;
+CREATE INDEX CONCURRENTLY idx_orders_note ON orders(note);`);
+
+    const steps = analyzeTransactions(script.statements);
+
+    expect(steps[1].warnings).toContain('CREATE INDEX CONCURRENTLY cannot run inside a transaction block');
+    expect(steps[1].warnings).toContain('The transaction is never committed - its locks are held until the session ends');
+  });
+
+  it('should warn about DETACH PARTITION CONCURRENTLY inside a transaction block', async () => {
+    const script = await parseScript(`BEGIN;
+ALTER TABLE measurements DETACH PARTITION measurements_2023 CONCURRENTLY;
+COMMIT;`);
+
+    const steps = analyzeTransactions(script.statements);
+
+    expect(steps[1].warnings).toContain('ALTER TABLE DETACH PARTITION CONCURRENTLY cannot run inside a transaction block');
+  });
+
+  it('should warn about COMMIT without a transaction', async () => {
+    const script = await parseScript('COMMIT;');
+
+    const steps = analyzeTransactions(script.statements);
+
+    expect(steps[0].warnings).toEqual(['There is no transaction in progress']);
+  });
+});
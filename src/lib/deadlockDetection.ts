@@ -0,0 +1,202 @@
+import { formatTableName } from './sqlParser';
+import { LOCK_MODES } from './lockData';
+import { checkLockConflict } from './queryComparison';
+import { analyzeTransactions } from './transactionAnalysis';
+import { SimulationSession } from './lockQueueSimulator';
+
+export interface DeadlockLock {
+  table: string;
+  lockMode: string;
+  statementIndex: number;
+}
+
+// A transaction of the cycle - it holds a lock and waits for one held by the next participant
+export interface DeadlockParticipant {
+  session: number;
+  holds: DeadlockLock;
+  waitsFor: DeadlockLock;
+}
+
+export interface DeadlockStep {
+  session: number;
+  statementIndexes: number[];
+  description: string;
+}
+
+export interface PotentialDeadlock {
+  participants: DeadlockParticipant[];
+  tables: string[];
+  interleaving: DeadlockStep[];
+  suggestedOrder: string[];
+  suggestion: string;
+}
+
+// A table lock taken by a transaction, in the order the transaction takes them
+interface Acquisition extends DeadlockLock {
+  position: number;
+}
+
+interface Transaction {
+  session: number;
+  statementIndexes: number[];
+  acquisitions: Acquisition[];
+}
+
+interface Candidate {
+  transaction: Transaction;
+  holds: Acquisition;
+  waitsFor: Acquisition;
+  held: Acquisition[]; // every lock the transaction holds while it waits
+}
+
+// Find lock-ordering cycles between the transactions of different sessions: every transaction
+// of the cycle holds a lock the next one waits for, in a mode that conflicts with it
+export function findPotentialDeadlocks(sessions: SimulationSession[]): PotentialDeadlock[] {
+  const candidates = sessions.flatMap((session, index) =>
+    getTransactions(index, session).flatMap(getCandidates)
+  );
+  const deadlocks: PotentialDeadlock[] = [];
+  const found = new Set<string>();
+
+  const search = (path: Candidate[]) => {
+    const last = path[path.length - 1];
+    const first = path[0];
+
+    if (path.length > 1 && blocks(first, last)) {
+      // The same cycle is found from every participant - keep the rotation that starts with the lowest session
+      const key = path
+        .map(candidate => `${candidate.transaction.session}:${candidate.holds.table}:${candidate.waitsFor.table}`)
+        .join('|');
+      if (!found.has(key) && path.every(candidate => candidate.transaction.session >= first.transaction.session)) {
+        found.add(key);
+        deadlocks.push(describeDeadlock(path, sessions));
+      }
+    }
+
+    for (const next of candidates) {
+      if (
+        !path.some(candidate => candidate.transaction.session === next.transaction.session) &&
+        blocks(next, last) &&
+        path.every(candidate => canHoldTogether(candidate, next))
+      ) {
+        search([...path, next]);
+      }
+    }
+  };
+
+  candidates.forEach(candidate => search([candidate]));
+
+  return deadlocks;
+}
+
+function getTransactions(session: number, { statements }: SimulationSession): Transaction[] {
+  const transactions = new Map<number, Transaction>();
+
+  for (const step of analyzeTransactions(statements)) {
+    const transaction = transactions.get(step.transaction) || { session, statementIndexes: [], acquisitions: [] };
+    transaction.statementIndexes.push(step.statementIndex);
+    for (const lock of step.acquired) {
+      // NOWAIT fails instead of waiting, so it can't be part of a deadlock
+      if (!lock.nowait) {
+        transaction.acquisitions.push({
+          table: formatTableName(lock),
+          lockMode: lock.lockMode,
+          statementIndex: step.statementIndex,
+          position: transaction.acquisitions.length
+        });
+      }
+    }
+    transactions.set(step.transaction, transaction);
+  }
+
+  return Array.from(transactions.values());
+}
+
+// Every lock a transaction may wait for, paired with every lock it already holds by then
+function getCandidates(transaction: Transaction): Candidate[] {
+  return transaction.acquisitions.flatMap(waitsFor => {
+    const held = transaction.acquisitions.slice(0, waitsFor.position);
+    if (held.some(lock => lock.table === waitsFor.table && covers(lock.lockMode, waitsFor.lockMode))) {
+      return [];
+    }
+    return held.map(holds => ({ transaction, holds, waitsFor, held }));
+  });
+}
+
+// A lock that conflicts with everything the requested mode conflicts with already grants it
+function covers(heldMode: string, requestedMode: string): boolean {
+  const requestedConflicts = LOCK_MODES[requestedMode]?.conflicts || [];
+  return heldMode === requestedMode ||
+    requestedConflicts.every(mode => LOCK_MODES[heldMode]?.conflicts.includes(mode));
+}
+
+// Whether the lock a candidate holds blocks the lock the other one waits for
+function blocks(holder: Candidate, waiter: Candidate): boolean {
+  return holder.holds.table === waiter.waitsFor.table &&
+    checkLockConflict(holder.holds.lockMode, waiter.waitsFor.lockMode);
+}
+
+// Two transactions can only both be waiting if the locks they hold don't conflict
+function canHoldTogether(a: Candidate, b: Candidate): boolean {
+  return a.held.every(lockA => b.held.every(lockB =>
+    lockA.table !== lockB.table || !checkLockConflict(lockA.lockMode, lockB.lockMode)
+  ));
+}
+
+function formatStatements(statementIndexes: number[]): string {
+  const first = statementIndexes[0] + 1;
+  const last = statementIndexes[statementIndexes.length - 1] + 1;
+  return first === last ? `statement ${first}` : `statements ${first}-${last}`;
+}
+
+function describeDeadlock(path: Candidate[], sessions: SimulationSession[]): PotentialDeadlock {
+  const name = (candidate: Candidate) => sessions[candidate.transaction.session].name;
+  const interleaving: DeadlockStep[] = [];
+
+  // Every transaction takes the lock it holds first...
+  for (const candidate of path) {
+    const statementIndexes = candidate.transaction.statementIndexes.filter(index => index < candidate.waitsFor.statementIndex);
+    if (statementIndexes.length > 0) {
+      interleaving.push({
+        session: candidate.transaction.session,
+        statementIndexes,
+        description: `${name(candidate)} runs ${formatStatements(statementIndexes)} and holds ${candidate.holds.lockMode} on ${candidate.holds.table}`
+      });
+    }
+  }
+
+  // ...then waits for the lock held by the next one
+  path.forEach((candidate, i) => {
+    const holder = path[(i + 1) % path.length];
+    const isLast = i === path.length - 1;
+    interleaving.push({
+      session: candidate.transaction.session,
+      statementIndexes: [candidate.waitsFor.statementIndex],
+      description: `${name(candidate)} runs ${formatStatements([candidate.waitsFor.statementIndex])} and waits for ${candidate.waitsFor.lockMode} on ${candidate.waitsFor.table}, held by ${name(holder)}` +
+        (isLast ? ' - a deadlock, PostgreSQL cancels one of the transactions after deadlock_timeout' : '')
+    });
+  });
+
+  const tables = Array.from(new Set(path.flatMap(candidate => [candidate.holds.table, candidate.waitsFor.table])));
+  // The order the first transaction takes the tables in, followed by the tables it doesn't lock
+  const suggestedOrder = Array.from(new Set([
+    ...path[0].transaction.acquisitions.map(lock => lock.table).filter(table => tables.includes(table)),
+    ...tables
+  ]));
+
+  const suggestion = tables.length === 1
+    ? `Every transaction upgrades its lock on ${tables[0]} - take the strongest mode it needs the first time it locks the table, e.g. with LOCK TABLE at the start of the transaction.`
+    : `Lock the tables in the same order in every transaction - ${suggestedOrder.join(', then ')} - or take all the locks up front with LOCK TABLE at the start of the transaction.`;
+
+  return {
+    participants: path.map(candidate => ({
+      session: candidate.transaction.session,
+      holds: { table: candidate.holds.table, lockMode: candidate.holds.lockMode, statementIndex: candidate.holds.statementIndex },
+      waitsFor: { table: candidate.waitsFor.table, lockMode: candidate.waitsFor.lockMode, statementIndex: candidate.waitsFor.statementIndex }
+    })),
+    tables,
+    interleaving,
+    suggestedOrder,
+    suggestion
+  };
+}
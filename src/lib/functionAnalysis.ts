@@ -0,0 +1,132 @@
+import { FunctionDefinition, FunctionStatement, parseScript, parseSQL } from './sqlParser';
+
+// Keywords a SQL statement embedded in PL/pgSQL can start with
+const SQL_STATEMENT_START = /\b(?:WITH|SELECT|INSERT|UPDATE|DELETE|MERGE|TRUNCATE|LOCK|PERFORM|CALL|COPY|REFRESH|ALTER|CREATE|DROP|VACUUM|ANALYZE|REINDEX|CLUSTER)\b/gi;
+
+// PL/pgSQL control structures that can end an embedded statement without a semicolon
+const PLPGSQL_BOUNDARY = /\b(?:THEN|LOOP|ELSE|BEGIN|DECLARE|EXCEPTION)\b/gi;
+
+const DYNAMIC_SQL = /\bEXECUTE\b/i;
+
+// Find the statements a function runs. SQL functions are parsed as a script. PL/pgSQL can't be
+// parsed as SQL, so the statements embedded in it are looked for between its control structures.
+export async function analyzeFunctionBody(
+  body: string,
+  language: string,
+  version?: number
+): Promise<FunctionDefinition> {
+  const normalizedLanguage = language.toLowerCase();
+
+  if (normalizedLanguage === 'sql') {
+    const script = await parseScript(body, { version });
+    return {
+      language: normalizedLanguage,
+      statements: script.statements
+        .filter(statement => statement.command !== 'UNKNOWN')
+        .map(({ sql, command, relations }) => ({ sql, command, relations }))
+    };
+  }
+
+  if (normalizedLanguage !== 'plpgsql') {
+    return { language: normalizedLanguage, statements: [] };
+  }
+
+  const masked = maskLiterals(body);
+  const statements: FunctionStatement[] = [];
+  let start = 0;
+
+  for (const end of getStatementEnds(masked)) {
+    statements.push(...await findEmbeddedStatements(body.slice(start, end), masked.slice(start, end), version));
+    start = end + 1;
+  }
+
+  return {
+    language: normalizedLanguage,
+    statements,
+    dynamic: DYNAMIC_SQL.test(masked) || undefined
+  };
+}
+
+async function findEmbeddedStatements(text: string, masked: string, version?: number): Promise<FunctionStatement[]> {
+  const statements: FunctionStatement[] = [];
+  const starts = Array.from(masked.matchAll(SQL_STATEMENT_START)).map(match => match.index || 0);
+  const boundaries = Array.from(masked.matchAll(PLPGSQL_BOUNDARY)).map(match => match.index || 0);
+  let position = 0;
+
+  for (const start of starts) {
+    if (start < position) {
+      continue;
+    }
+
+    // A subquery ends at its closing parenthesis, e.g. in IF EXISTS (SELECT ...) THEN or
+    // WHILE (SELECT count(*) ...) > 0 LOOP. Otherwise the whole rest of the statement first, then
+    // up to each control structure keyword - CASE ... THEN ... ELSE ... END is valid SQL,
+    // FOR ... IN SELECT ... LOOP is not
+    const subqueryEnd = getSubqueryEnd(masked, start);
+    const ends = subqueryEnd !== undefined
+      ? [subqueryEnd]
+      : [text.length, ...boundaries.filter(boundary => boundary > start)];
+    for (const end of ends) {
+      const statement = await parseEmbeddedStatement(text.slice(start, end), version);
+      if (statement) {
+        statements.push(statement);
+        position = end;
+        break;
+      }
+    }
+  }
+
+  return statements;
+}
+
+async function parseEmbeddedStatement(text: string, version?: number): Promise<FunctionStatement | undefined> {
+  const sql = text
+    .trim()
+    // PERFORM runs a query and discards its result
+    .replace(/^PERFORM\b/i, 'SELECT')
+    // ... RETURNING x INTO variable stores the returned row in PL/pgSQL variables
+    .replace(/(\bRETURNING\b[\s\S]*?)\s+INTO\s+(?:STRICT\s+)?[\w.]+(?:\s*,\s*[\w.]+)*\s*$/i, '$1');
+
+  const parsed = await parseSQL(sql, { version });
+  if (!parsed.isValid || parsed.command === 'UNKNOWN') {
+    return undefined;
+  }
+  return { sql, command: parsed.command, relations: parsed.relations || [] };
+}
+
+// The closing parenthesis of a subquery starting at the given position, if it's in parentheses
+function getSubqueryEnd(masked: string, start: number): number | undefined {
+  if (!/\(\s*$/.test(masked.slice(0, start))) {
+    return undefined;
+  }
+
+  let depth = 1;
+  for (let i = start; i < masked.length; i++) {
+    if (masked[i] === '(') {
+      depth++;
+    } else if (masked[i] === ')' && --depth === 0) {
+      return i;
+    }
+  }
+  return undefined;
+}
+
+// Semicolons outside of literals and comments end a statement
+function getStatementEnds(masked: string): number[] {
+  const ends: number[] = [];
+  for (let i = 0; i < masked.length; i++) {
+    if (masked[i] === ';') {
+      ends.push(i);
+    }
+  }
+  ends.push(masked.length);
+  return ends;
+}
+
+// Blank out string literals, dollar-quoted strings and comments, keeping every position in place
+function maskLiterals(body: string): string {
+  return body.replace(
+    /'(?:[^']|'')*'|(\$[A-Za-z_0-9]*\$)[\s\S]*?\1|--[^\n]*|\/\*[\s\S]*?\*\//g,
+    literal => literal.replace(/[^\n]/g, ' ')
+  );
+}
@@ -55,7 +55,14 @@ export const LOCK_MODES: Record<string, LockMode> = {
       'CREATE INDEX CONCURRENTLY',
       'CREATE STATISTICS',
       'COMMENT ON',
-      'REINDEX CONCURRENTLY'
+      'REINDEX CONCURRENTLY',
+      'DROP INDEX CONCURRENTLY',
+      'ALTER TABLE VALIDATE CONSTRAINT',
+      'ALTER TABLE SET STATISTICS',
+      'ALTER TABLE SET (fillfactor, autovacuum_*, ...)',
+      'ALTER TABLE CLUSTER ON',
+      'ALTER TABLE ATTACH PARTITION',
+      'ALTER TABLE DETACH PARTITION CONCURRENTLY'
     ],
     details: 'This lock mode protects against concurrent schema changes and allows only one such operation at a time. It permits ordinary reads and writes but prevents concurrent VACUUM-type operations and schema modifications.'
   },
@@ -64,7 +71,8 @@ export const LOCK_MODES: Record<string, LockMode> = {
     description: 'Conflicts with ROW EXCLUSIVE, SHARE UPDATE EXCLUSIVE, SHARE ROW EXCLUSIVE, EXCLUSIVE, and ACCESS EXCLUSIVE locks.',
     conflicts: ['ROW EXCLUSIVE', 'SHARE UPDATE EXCLUSIVE', 'SHARE ROW EXCLUSIVE', 'EXCLUSIVE', 'ACCESS EXCLUSIVE'],
     statements: [
-      'CREATE INDEX (without CONCURRENTLY)'
+      'CREATE INDEX (without CONCURRENTLY)',
+      'REINDEX TABLE (without CONCURRENTLY)'
     ],
     details: 'This lock mode allows concurrent reads but prevents any data modification. Multiple SHARE locks can be held simultaneously, but they block all write operations.'
   },
@@ -75,7 +83,7 @@ export const LOCK_MODES: Record<string, LockMode> = {
     statements: [
       'CREATE TRIGGER',
       'ALTER TABLE ADD FOREIGN KEY',
-      'ALTER TABLE DISABLE TRIGGER'
+      'ALTER TABLE ENABLE/DISABLE TRIGGER'
     ],
     details: 'This lock mode is more restrictive than SHARE because it conflicts with SHARE locks and itself. It allows reads but prevents data modifications and any concurrent schema-changing operations.'
   },
@@ -94,12 +102,15 @@ export const LOCK_MODES: Record<string, LockMode> = {
     conflicts: ['ACCESS SHARE', 'ROW SHARE', 'ROW EXCLUSIVE', 'SHARE UPDATE EXCLUSIVE', 'SHARE', 'SHARE ROW EXCLUSIVE', 'EXCLUSIVE', 'ACCESS EXCLUSIVE'],
     statements: [
       'DROP TABLE',
+      'DROP INDEX (without CONCURRENTLY)',
       'TRUNCATE',
-      'REINDEX (without CONCURRENTLY)',
+      'REINDEX INDEX (without CONCURRENTLY)',
       'CLUSTER',
       'VACUUM FULL',
       'LOCK TABLE (default mode)',
       'ALTER TABLE (most forms)',
+      'ALTER TABLE ADD COLUMN',
+      'ALTER TABLE ALTER COLUMN TYPE',
       'ALTER TABLE SET TABLESPACE',
       'REFRESH MATERIALIZED VIEW'
     ],
@@ -115,6 +126,22 @@ export function getAllLockModes(): LockMode[] {
   return Object.values(LOCK_MODES);
 }
 
+// Lock modes ordered from the weakest to the strongest
+export const LOCK_MODE_ORDER: string[] = Object.keys(LOCK_MODES);
+
+export function getLockStrength(lockMode: string): number {
+  return LOCK_MODE_ORDER.indexOf(lockMode);
+}
+
+export function getStrongestLockMode(lockModes: string[]): string | null {
+  return lockModes.reduce<string | null>((strongest, lockMode) => {
+    if (!strongest || getLockStrength(lockMode) > getLockStrength(strongest)) {
+      return lockMode;
+    }
+    return strongest;
+  }, null);
+}
+
 // Mapping of SQL commands to their lock modes
 export const COMMAND_LOCKS: Record<string, string> = {
   'SELECT': 'ACCESS SHARE',
@@ -132,28 +159,414 @@ export const COMMAND_LOCKS: Record<string, string> = {
   'EXPLAIN': 'ACCESS SHARE',
   'TRUNCATE': 'ACCESS EXCLUSIVE',
   'DROP TABLE': 'ACCESS EXCLUSIVE',
+  'DROP INDEX': 'ACCESS EXCLUSIVE',
+  'DROP INDEX CONCURRENTLY': 'SHARE UPDATE EXCLUSIVE',
   'CREATE INDEX': 'SHARE',
   'CREATE INDEX CONCURRENTLY': 'SHARE UPDATE EXCLUSIVE',
   'REINDEX': 'ACCESS EXCLUSIVE',
+  'REINDEX INDEX': 'ACCESS EXCLUSIVE',
+  'REINDEX TABLE': 'SHARE',
+  'REINDEX INDEX CONCURRENTLY': 'SHARE UPDATE EXCLUSIVE',
+  'REINDEX TABLE CONCURRENTLY': 'SHARE UPDATE EXCLUSIVE',
+  'CLUSTER': 'ACCESS EXCLUSIVE',
+  'CREATE STATISTICS': 'SHARE UPDATE EXCLUSIVE',
+  'COMMENT ON': 'SHARE UPDATE EXCLUSIVE',
   'VACUUM': 'SHARE UPDATE EXCLUSIVE',
   'VACUUM FULL': 'ACCESS EXCLUSIVE',
   'ANALYZE': 'SHARE UPDATE EXCLUSIVE',
   'ALTER TABLE': 'ACCESS EXCLUSIVE',
-  'ALTER TABLE ADD COLUMN': 'SHARE UPDATE EXCLUSIVE',
+  'ALTER TABLE ADD COLUMN': 'ACCESS EXCLUSIVE',
   'ALTER TABLE ADD FOREIGN KEY': 'SHARE ROW EXCLUSIVE',
   'ALTER TABLE VALIDATE CONSTRAINT': 'SHARE UPDATE EXCLUSIVE',
   'ALTER TABLE ATTACH PARTITION': 'SHARE UPDATE EXCLUSIVE',
   'ALTER TABLE SET TABLESPACE': 'ACCESS EXCLUSIVE',
   'ALTER TABLE DISABLE TRIGGER': 'SHARE ROW EXCLUSIVE',
+  'ALTER TABLE ALTER COLUMN DROP DEFAULT': 'ACCESS EXCLUSIVE',
+  'ALTER TABLE DETACH PARTITION CONCURRENTLY': 'SHARE UPDATE EXCLUSIVE',
+  'ALTER TABLE RENAME TO': 'ACCESS EXCLUSIVE',
+  'ALTER TABLE RENAME COLUMN': 'ACCESS EXCLUSIVE',
+  'ALTER TABLE RENAME CONSTRAINT': 'ACCESS EXCLUSIVE',
+  'ALTER INDEX RENAME TO': 'SHARE UPDATE EXCLUSIVE',
   'CREATE TRIGGER': 'SHARE ROW EXCLUSIVE',
   'REFRESH MATERIALIZED VIEW': 'ACCESS EXCLUSIVE',
-  'REFRESH MATERIALIZED VIEW CONCURRENTLY': 'EXCLUSIVE'
+  'REFRESH MATERIALIZED VIEW CONCURRENTLY': 'EXCLUSIVE',
+  'LOCK TABLE': 'ACCESS EXCLUSIVE'
 };
 
-export function getCommandLockMode(command: string): string | null {
+export interface AlterTableSubcommand {
+  action: string;
+  lockMode: string;
+}
+
+// ALTER TABLE subcommands keyed by the parser's AlterTableType, with the lock level
+// PostgreSQL takes for each of them (see AlterTableGetLockLevel in tablecmds.c).
+// Subtypes ending in "Recurse" only exist in the PostgreSQL 15 parser.
+export const ALTER_TABLE_SUBCOMMANDS: Record<string, AlterTableSubcommand> = {
+  AT_AddColumn: { action: 'ADD COLUMN', lockMode: 'ACCESS EXCLUSIVE' },
+  AT_AddColumnRecurse: { action: 'ADD COLUMN', lockMode: 'ACCESS EXCLUSIVE' },
+  AT_AddColumnToView: { action: 'ADD COLUMN', lockMode: 'ACCESS EXCLUSIVE' },
+  AT_ColumnDefault: { action: 'ALTER COLUMN SET DEFAULT', lockMode: 'ACCESS EXCLUSIVE' },
+  AT_CookedColumnDefault: { action: 'ALTER COLUMN SET DEFAULT', lockMode: 'ACCESS EXCLUSIVE' },
+  AT_DropNotNull: { action: 'ALTER COLUMN DROP NOT NULL', lockMode: 'ACCESS EXCLUSIVE' },
+  AT_SetNotNull: { action: 'ALTER COLUMN SET NOT NULL', lockMode: 'ACCESS EXCLUSIVE' },
+  AT_SetExpression: { action: 'ALTER COLUMN SET EXPRESSION', lockMode: 'ACCESS EXCLUSIVE' },
+  AT_DropExpression: { action: 'ALTER COLUMN DROP EXPRESSION', lockMode: 'ACCESS EXCLUSIVE' },
+  AT_CheckNotNull: { action: 'CHECK NOT NULL', lockMode: 'ACCESS SHARE' },
+  AT_SetStatistics: { action: 'ALTER COLUMN SET STATISTICS', lockMode: 'SHARE UPDATE EXCLUSIVE' },
+  AT_SetOptions: { action: 'ALTER COLUMN SET (attribute_option)', lockMode: 'SHARE UPDATE EXCLUSIVE' },
+  AT_ResetOptions: { action: 'ALTER COLUMN RESET (attribute_option)', lockMode: 'SHARE UPDATE EXCLUSIVE' },
+  AT_SetStorage: { action: 'ALTER COLUMN SET STORAGE', lockMode: 'ACCESS EXCLUSIVE' },
+  AT_SetCompression: { action: 'ALTER COLUMN SET COMPRESSION', lockMode: 'ACCESS EXCLUSIVE' },
+  AT_DropColumn: { action: 'DROP COLUMN', lockMode: 'ACCESS EXCLUSIVE' },
+  AT_DropColumnRecurse: { action: 'DROP COLUMN', lockMode: 'ACCESS EXCLUSIVE' },
+  AT_AddIndex: { action: 'ADD INDEX', lockMode: 'ACCESS EXCLUSIVE' },
+  AT_ReAddIndex: { action: 'ADD INDEX', lockMode: 'ACCESS EXCLUSIVE' },
+  AT_AddConstraint: { action: 'ADD CONSTRAINT', lockMode: 'ACCESS EXCLUSIVE' },
+  AT_AddConstraintRecurse: { action: 'ADD CONSTRAINT', lockMode: 'ACCESS EXCLUSIVE' },
+  AT_ReAddConstraint: { action: 'ADD CONSTRAINT', lockMode: 'ACCESS EXCLUSIVE' },
+  AT_ReAddDomainConstraint: { action: 'ADD CONSTRAINT', lockMode: 'ACCESS EXCLUSIVE' },
+  AT_AlterConstraint: { action: 'ALTER CONSTRAINT', lockMode: 'ACCESS EXCLUSIVE' },
+  AT_ValidateConstraint: { action: 'VALIDATE CONSTRAINT', lockMode: 'SHARE UPDATE EXCLUSIVE' },
+  AT_ValidateConstraintRecurse: { action: 'VALIDATE CONSTRAINT', lockMode: 'SHARE UPDATE EXCLUSIVE' },
+  AT_AddIndexConstraint: { action: 'ADD CONSTRAINT USING INDEX', lockMode: 'ACCESS EXCLUSIVE' },
+  AT_DropConstraint: { action: 'DROP CONSTRAINT', lockMode: 'ACCESS EXCLUSIVE' },
+  AT_DropConstraintRecurse: { action: 'DROP CONSTRAINT', lockMode: 'ACCESS EXCLUSIVE' },
+  AT_ReAddComment: { action: 'COMMENT', lockMode: 'ACCESS EXCLUSIVE' },
+  AT_AlterColumnType: { action: 'ALTER COLUMN TYPE', lockMode: 'ACCESS EXCLUSIVE' },
+  AT_AlterColumnGenericOptions: { action: 'ALTER COLUMN OPTIONS', lockMode: 'ACCESS EXCLUSIVE' },
+  AT_ChangeOwner: { action: 'OWNER TO', lockMode: 'ACCESS EXCLUSIVE' },
+  AT_ClusterOn: { action: 'CLUSTER ON', lockMode: 'SHARE UPDATE EXCLUSIVE' },
+  AT_DropCluster: { action: 'SET WITHOUT CLUSTER', lockMode: 'SHARE UPDATE EXCLUSIVE' },
+  AT_SetLogged: { action: 'SET LOGGED', lockMode: 'ACCESS EXCLUSIVE' },
+  AT_SetUnLogged: { action: 'SET UNLOGGED', lockMode: 'ACCESS EXCLUSIVE' },
+  AT_DropOids: { action: 'SET WITHOUT OIDS', lockMode: 'ACCESS EXCLUSIVE' },
+  AT_SetAccessMethod: { action: 'SET ACCESS METHOD', lockMode: 'ACCESS EXCLUSIVE' },
+  AT_SetTableSpace: { action: 'SET TABLESPACE', lockMode: 'ACCESS EXCLUSIVE' },
+  // The lock level of SET/RESET (storage_parameter) depends on the parameters, see RELOPTION_LOCKS
+  AT_SetRelOptions: { action: 'SET (storage_parameter)', lockMode: 'ACCESS EXCLUSIVE' },
+  AT_ResetRelOptions: { action: 'RESET (storage_parameter)', lockMode: 'ACCESS EXCLUSIVE' },
+  AT_ReplaceRelOptions: { action: 'SET (storage_parameter)', lockMode: 'ACCESS EXCLUSIVE' },
+  AT_EnableTrig: { action: 'ENABLE TRIGGER', lockMode: 'SHARE ROW EXCLUSIVE' },
+  AT_EnableAlwaysTrig: { action: 'ENABLE ALWAYS TRIGGER', lockMode: 'SHARE ROW EXCLUSIVE' },
+  AT_EnableReplicaTrig: { action: 'ENABLE REPLICA TRIGGER', lockMode: 'SHARE ROW EXCLUSIVE' },
+  AT_DisableTrig: { action: 'DISABLE TRIGGER', lockMode: 'SHARE ROW EXCLUSIVE' },
+  AT_EnableTrigAll: { action: 'ENABLE TRIGGER ALL', lockMode: 'SHARE ROW EXCLUSIVE' },
+  AT_DisableTrigAll: { action: 'DISABLE TRIGGER ALL', lockMode: 'SHARE ROW EXCLUSIVE' },
+  AT_EnableTrigUser: { action: 'ENABLE TRIGGER USER', lockMode: 'SHARE ROW EXCLUSIVE' },
+  AT_DisableTrigUser: { action: 'DISABLE TRIGGER USER', lockMode: 'SHARE ROW EXCLUSIVE' },
+  AT_EnableRule: { action: 'ENABLE RULE', lockMode: 'ACCESS EXCLUSIVE' },
+  AT_EnableAlwaysRule: { action: 'ENABLE ALWAYS RULE', lockMode: 'ACCESS EXCLUSIVE' },
+  AT_EnableReplicaRule: { action: 'ENABLE REPLICA RULE', lockMode: 'ACCESS EXCLUSIVE' },
+  AT_DisableRule: { action: 'DISABLE RULE', lockMode: 'ACCESS EXCLUSIVE' },
+  AT_AddInherit: { action: 'INHERIT', lockMode: 'ACCESS EXCLUSIVE' },
+  AT_DropInherit: { action: 'NO INHERIT', lockMode: 'ACCESS EXCLUSIVE' },
+  AT_AddOf: { action: 'OF', lockMode: 'ACCESS EXCLUSIVE' },
+  AT_DropOf: { action: 'NOT OF', lockMode: 'ACCESS EXCLUSIVE' },
+  AT_ReplicaIdentity: { action: 'REPLICA IDENTITY', lockMode: 'ACCESS EXCLUSIVE' },
+  AT_EnableRowSecurity: { action: 'ENABLE ROW LEVEL SECURITY', lockMode: 'ACCESS EXCLUSIVE' },
+  AT_DisableRowSecurity: { action: 'DISABLE ROW LEVEL SECURITY', lockMode: 'ACCESS EXCLUSIVE' },
+  AT_ForceRowSecurity: { action: 'FORCE ROW LEVEL SECURITY', lockMode: 'ACCESS EXCLUSIVE' },
+  AT_NoForceRowSecurity: { action: 'NO FORCE ROW LEVEL SECURITY', lockMode: 'ACCESS EXCLUSIVE' },
+  AT_GenericOptions: { action: 'OPTIONS', lockMode: 'ACCESS EXCLUSIVE' },
+  AT_AttachPartition: { action: 'ATTACH PARTITION', lockMode: 'SHARE UPDATE EXCLUSIVE' },
+  AT_DetachPartition: { action: 'DETACH PARTITION', lockMode: 'ACCESS EXCLUSIVE' },
+  AT_DetachPartitionFinalize: { action: 'DETACH PARTITION FINALIZE', lockMode: 'SHARE UPDATE EXCLUSIVE' },
+  AT_AddIdentity: { action: 'ALTER COLUMN ADD GENERATED AS IDENTITY', lockMode: 'ACCESS EXCLUSIVE' },
+  AT_SetIdentity: { action: 'ALTER COLUMN SET (sequence_option)', lockMode: 'ACCESS EXCLUSIVE' },
+  AT_DropIdentity: { action: 'ALTER COLUMN DROP IDENTITY', lockMode: 'ACCESS EXCLUSIVE' },
+  AT_ReAddStatistics: { action: 'ADD STATISTICS', lockMode: 'SHARE UPDATE EXCLUSIVE' }
+};
+
+// ADD CONSTRAINT variants, keyed by the constraint type. Only foreign keys get away
+// with SHARE ROW EXCLUSIVE - on both the altered and the referenced table.
+export const ALTER_TABLE_CONSTRAINTS: Record<string, AlterTableSubcommand> = {
+  CONSTR_FOREIGN: { action: 'ADD FOREIGN KEY', lockMode: 'SHARE ROW EXCLUSIVE' },
+  CONSTR_PRIMARY: { action: 'ADD PRIMARY KEY', lockMode: 'ACCESS EXCLUSIVE' },
+  CONSTR_UNIQUE: { action: 'ADD UNIQUE', lockMode: 'ACCESS EXCLUSIVE' },
+  CONSTR_EXCLUSION: { action: 'ADD EXCLUDE', lockMode: 'ACCESS EXCLUSIVE' },
+  CONSTR_CHECK: { action: 'ADD CHECK', lockMode: 'ACCESS EXCLUSIVE' },
+  CONSTR_NOTNULL: { action: 'ADD NOT NULL', lockMode: 'ACCESS EXCLUSIVE' }
+};
+
+// How long a statement holds its lock: it only changes the catalog, reads every row,
+// or writes a new copy of the table and its indexes
+export type LockDuration = 'instant' | 'scan' | 'rewrite';
+
+export const LOCK_DURATIONS: Record<LockDuration, { label: string; description: string }> = {
+  instant: {
+    label: 'instant',
+    description: 'Only the catalog changes - the statement finishes as soon as it gets its lock.'
+  },
+  scan: {
+    label: 'full scan',
+    description: 'Every row is read while the lock is held - the larger the table, the longer it takes.'
+  },
+  rewrite: {
+    label: 'full rewrite',
+    description: 'The table and all of its indexes are written anew while the lock is held - the slowest kind of change.'
+  }
+};
+
+const LOCK_DURATION_ORDER: LockDuration[] = ['instant', 'scan', 'rewrite'];
+
+export function getLongestDuration(durations: Array<LockDuration | undefined>): LockDuration | undefined {
+  return durations.reduce<LockDuration | undefined>((longest, duration) =>
+    duration && (!longest || LOCK_DURATION_ORDER.indexOf(duration) > LOCK_DURATION_ORDER.indexOf(longest)) ? duration : longest,
+  undefined);
+}
+
+// ALTER TABLE actions that read or rewrite the table, keyed by action (see ATRewriteTables
+// in tablecmds.c). Every other action only changes the catalog. ADD COLUMN depends on the
+// column's default and constraints.
+export const ALTER_TABLE_DURATIONS: Record<string, LockDuration> = {
+  'ALTER COLUMN TYPE': 'rewrite',
+  'ALTER COLUMN SET EXPRESSION': 'rewrite',
+  'SET LOGGED': 'rewrite',
+  'SET UNLOGGED': 'rewrite',
+  'SET ACCESS METHOD': 'rewrite',
+  'SET TABLESPACE': 'rewrite',
+  'ALTER COLUMN SET NOT NULL': 'scan',
+  'ADD NOT NULL': 'scan',
+  'ADD CHECK': 'scan',
+  'ADD FOREIGN KEY': 'scan',
+  'ADD PRIMARY KEY': 'scan',
+  'ADD UNIQUE': 'scan',
+  'ADD EXCLUDE': 'scan',
+  'ADD INDEX': 'scan',
+  'VALIDATE CONSTRAINT': 'scan',
+  'ATTACH PARTITION': 'scan'
+};
+
+// Other commands that read or rewrite a whole table while holding their lock
+export const COMMAND_DURATIONS: Record<string, LockDuration> = {
+  'CREATE INDEX': 'scan',
+  'CREATE INDEX CONCURRENTLY': 'scan',
+  'REINDEX INDEX': 'scan',
+  'REINDEX INDEX CONCURRENTLY': 'scan',
+  'REINDEX TABLE': 'scan',
+  'REINDEX TABLE CONCURRENTLY': 'scan',
+  'VACUUM': 'scan',
+  'VACUUM FULL': 'rewrite',
+  'CLUSTER': 'rewrite',
+  'REFRESH MATERIALIZED VIEW': 'rewrite',
+  'REFRESH MATERIALIZED VIEW CONCURRENTLY': 'rewrite'
+};
+
+// Ways around the scan or rewrite of an ALTER TABLE action
+export const ALTER_TABLE_DURATION_NOTES: Record<string, string> = {
+  'ALTER COLUMN TYPE': 'No rewrite when the new type is binary coercible to the old one, such as varchar(n) to a longer varchar or to text',
+  'ADD PRIMARY KEY': 'Builds a unique index - CREATE UNIQUE INDEX CONCURRENTLY followed by ADD CONSTRAINT ... USING INDEX avoids the scan',
+  'ADD UNIQUE': 'Builds a unique index - CREATE UNIQUE INDEX CONCURRENTLY followed by ADD CONSTRAINT ... USING INDEX avoids the scan',
+  'ADD CHECK': 'NOT VALID skips the scan - VALIDATE CONSTRAINT checks the existing rows later without blocking writes',
+  'ADD FOREIGN KEY': 'NOT VALID skips the scan - VALIDATE CONSTRAINT checks the existing rows later without blocking writes',
+  'ATTACH PARTITION': 'The scan of the partition is skipped when a valid CHECK constraint on it already implies the partition bound'
+};
+
+// Functions that return a new value on every call. A column added with such a default
+// needs a value stored in every row.
+export const VOLATILE_FUNCTIONS = [
+  'random',
+  'clock_timestamp',
+  'timeofday',
+  'nextval',
+  'gen_random_uuid',
+  'uuid_generate_v1',
+  'uuid_generate_v1mc',
+  'uuid_generate_v4',
+  'txid_current'
+];
+
+// Storage parameters that only need SHARE UPDATE EXCLUSIVE when set or reset.
+// Every other parameter (user_catalog_table, security_barrier, ...) takes ACCESS EXCLUSIVE.
+export const RELOPTION_LOCKS: Record<string, string> = {
+  fillfactor: 'SHARE UPDATE EXCLUSIVE',
+  parallel_workers: 'SHARE UPDATE EXCLUSIVE',
+  toast_tuple_target: 'SHARE UPDATE EXCLUSIVE',
+  vacuum_index_cleanup: 'SHARE UPDATE EXCLUSIVE',
+  vacuum_truncate: 'SHARE UPDATE EXCLUSIVE',
+  log_autovacuum_min_duration: 'SHARE UPDATE EXCLUSIVE',
+  autovacuum_enabled: 'SHARE UPDATE EXCLUSIVE',
+  autovacuum_vacuum_threshold: 'SHARE UPDATE EXCLUSIVE',
+  autovacuum_vacuum_insert_threshold: 'SHARE UPDATE EXCLUSIVE',
+  autovacuum_vacuum_scale_factor: 'SHARE UPDATE EXCLUSIVE',
+  autovacuum_vacuum_insert_scale_factor: 'SHARE UPDATE EXCLUSIVE',
+  autovacuum_analyze_threshold: 'SHARE UPDATE EXCLUSIVE',
+  autovacuum_analyze_scale_factor: 'SHARE UPDATE EXCLUSIVE',
+  autovacuum_vacuum_cost_delay: 'SHARE UPDATE EXCLUSIVE',
+  autovacuum_vacuum_cost_limit: 'SHARE UPDATE EXCLUSIVE',
+  autovacuum_freeze_min_age: 'SHARE UPDATE EXCLUSIVE',
+  autovacuum_freeze_max_age: 'SHARE UPDATE EXCLUSIVE',
+  autovacuum_freeze_table_age: 'SHARE UPDATE EXCLUSIVE',
+  autovacuum_multixact_freeze_min_age: 'SHARE UPDATE EXCLUSIVE',
+  autovacuum_multixact_freeze_max_age: 'SHARE UPDATE EXCLUSIVE',
+  autovacuum_multixact_freeze_table_age: 'SHARE UPDATE EXCLUSIVE'
+};
+
+export function getReloptionLockMode(option: string): string {
+  return RELOPTION_LOCKS[option] || 'ACCESS EXCLUSIVE';
+}
+
+// Every ALTER TABLE subcommand can be looked up as a command of its own
+[...Object.values(ALTER_TABLE_SUBCOMMANDS), ...Object.values(ALTER_TABLE_CONSTRAINTS)].forEach(({ action, lockMode }) => {
+  const command = `ALTER TABLE ${action}`;
+  if (!COMMAND_LOCKS[command]) {
+    COMMAND_LOCKS[command] = lockMode;
+  }
+});
+
+// LOCK TABLE ... IN <mode> MODE takes exactly the requested mode
+LOCK_MODE_ORDER.forEach(lockMode => {
+  COMMAND_LOCKS[`LOCK TABLE IN ${lockMode} MODE`] = lockMode;
+});
+
+// PostgreSQL major versions the analysis can target. COMMAND_LOCKS describes the latest one.
+export const PG_VERSIONS = [10, 11, 12, 13, 14, 15, 16, 17];
+export const DEFAULT_PG_VERSION = 17;
+
+// A change in how a command locks, describing every version before `before`.
+// lockMode null means the command does not exist there yet; without a lockMode
+// only the note differs.
+export interface LockRuleChange {
+  before: number;
+  lockMode?: string | null;
+  note: string;
+}
+
+const REINDEX_CONCURRENTLY_ADDED: LockRuleChange[] = [
+  { before: 12, lockMode: null, note: 'REINDEX CONCURRENTLY is only available since PostgreSQL 12' }
+];
+
+// Commands whose lock behaviour differs between the versions in PG_VERSIONS
+export const COMMAND_LOCK_HISTORY: Record<string, LockRuleChange[]> = {
+  'ALTER TABLE ADD COLUMN': [
+    {
+      before: 11,
+      note: 'Before PostgreSQL 11, a column with a default value rewrites the whole table while holding ACCESS EXCLUSIVE'
+    }
+  ],
+  'ALTER TABLE ATTACH PARTITION': [
+    {
+      before: 12,
+      lockMode: 'ACCESS EXCLUSIVE',
+      note: 'Before PostgreSQL 12, ATTACH PARTITION takes ACCESS EXCLUSIVE on the partitioned table'
+    }
+  ],
+  'ALTER INDEX RENAME TO': [
+    {
+      before: 12,
+      lockMode: 'ACCESS EXCLUSIVE',
+      note: 'Before PostgreSQL 12, renaming an index takes ACCESS EXCLUSIVE on it'
+    }
+  ],
+  'REINDEX INDEX CONCURRENTLY': REINDEX_CONCURRENTLY_ADDED,
+  'REINDEX TABLE CONCURRENTLY': REINDEX_CONCURRENTLY_ADDED,
+  'REINDEX SCHEMA CONCURRENTLY': REINDEX_CONCURRENTLY_ADDED,
+  'REINDEX DATABASE CONCURRENTLY': REINDEX_CONCURRENTLY_ADDED,
+  'ALTER TABLE ALTER COLUMN DROP EXPRESSION': [
+    { before: 13, lockMode: null, note: 'DROP EXPRESSION is only available since PostgreSQL 13' }
+  ],
+  'ALTER TABLE DETACH PARTITION CONCURRENTLY': [
+    {
+      before: 14,
+      lockMode: null,
+      note: 'DETACH PARTITION CONCURRENTLY is only available since PostgreSQL 14 - older versions need ACCESS EXCLUSIVE on the partitioned table'
+    }
+  ],
+  'ALTER TABLE DETACH PARTITION FINALIZE': [
+    { before: 14, lockMode: null, note: 'DETACH PARTITION FINALIZE is only available since PostgreSQL 14' }
+  ],
+  'ALTER TABLE ALTER COLUMN SET COMPRESSION': [
+    { before: 14, lockMode: null, note: 'SET COMPRESSION is only available since PostgreSQL 14' }
+  ],
+  'MERGE': [
+    { before: 15, lockMode: null, note: 'MERGE is only available since PostgreSQL 15' }
+  ],
+  'ALTER TABLE SET ACCESS METHOD': [
+    { before: 15, lockMode: null, note: 'SET ACCESS METHOD is only available since PostgreSQL 15' }
+  ],
+  'ALTER TABLE ALTER COLUMN SET EXPRESSION': [
+    { before: 17, lockMode: null, note: 'SET EXPRESSION is only available since PostgreSQL 17' }
+  ]
+};
+
+// The change that applies to a version - the one with the closest `before` above it
+export function getLockRuleChange(command: string, version: number = DEFAULT_PG_VERSION): LockRuleChange | undefined {
+  return (COMMAND_LOCK_HISTORY[command] || [])
+    .filter(change => version < change.before)
+    .sort((a, b) => a.before - b.before)[0];
+}
+
+export function getCommandLockMode(command: string, version: number = DEFAULT_PG_VERSION): string | null {
+  const change = getLockRuleChange(command, version);
+  if (change && change.lockMode !== undefined) {
+    return change.lockMode;
+  }
   return COMMAND_LOCKS[command] || null;
 }
 
+// Row-level lock modes, from the weakest to the strongest. Row locks never block
+// readers - they only conflict with other row locks and modifications of the same rows.
+export const ROW_LOCK_MODES: Record<string, LockMode> = {
+  'FOR KEY SHARE': {
+    name: 'FOR KEY SHARE',
+    description: 'Conflicts with FOR UPDATE only. The weakest row lock.',
+    conflicts: ['FOR UPDATE'],
+    statements: [
+      'SELECT FOR KEY SHARE',
+      'Foreign key checks on the referenced rows'
+    ],
+    details: 'Blocks deleting the row and changing its key columns, but allows any other update. Foreign key checks take this lock on the referenced row so that updating non-key columns of the referenced table is never blocked.'
+  },
+  'FOR SHARE': {
+    name: 'FOR SHARE',
+    description: 'Conflicts with FOR NO KEY UPDATE and FOR UPDATE.',
+    conflicts: ['FOR NO KEY UPDATE', 'FOR UPDATE'],
+    statements: [
+      'SELECT FOR SHARE'
+    ],
+    details: 'A shared lock that prevents other transactions from updating or deleting the row. Other transactions can still take FOR SHARE and FOR KEY SHARE locks on it.'
+  },
+  'FOR NO KEY UPDATE': {
+    name: 'FOR NO KEY UPDATE',
+    description: 'Conflicts with FOR SHARE, FOR NO KEY UPDATE and FOR UPDATE.',
+    conflicts: ['FOR SHARE', 'FOR NO KEY UPDATE', 'FOR UPDATE'],
+    statements: [
+      'SELECT FOR NO KEY UPDATE',
+      'UPDATE that does not change key columns',
+      'INSERT ON CONFLICT DO UPDATE / MERGE updating non-key columns'
+    ],
+    details: 'Like FOR UPDATE, but does not block FOR KEY SHARE - so foreign key checks against the row can proceed while it is being updated.'
+  },
+  'FOR UPDATE': {
+    name: 'FOR UPDATE',
+    description: 'Conflicts with all row lock modes. The strongest row lock.',
+    conflicts: ['FOR KEY SHARE', 'FOR SHARE', 'FOR NO KEY UPDATE', 'FOR UPDATE'],
+    statements: [
+      'SELECT FOR UPDATE',
+      'DELETE',
+      'UPDATE that changes key columns'
+    ],
+    details: 'Locks the row as if it was about to be deleted or have its key changed. Blocks every other row lock on the same row, including foreign key checks.'
+  }
+};
+
+export const ROW_LOCK_MODE_ORDER: string[] = Object.keys(ROW_LOCK_MODES);
+
+export function getRowLockStrength(rowLockMode: string): number {
+  return ROW_LOCK_MODE_ORDER.indexOf(rowLockMode);
+}
+
+// Row locks taken on the rows a command reads or modifies. UPDATE is upgraded to
+// FOR UPDATE when it changes a key column (see getTableLockAnalysis).
+export const COMMAND_ROW_LOCKS: Record<string, string> = {
+  'SELECT FOR KEY SHARE': 'FOR KEY SHARE',
+  'SELECT FOR SHARE': 'FOR SHARE',
+  'SELECT FOR NO KEY UPDATE': 'FOR NO KEY UPDATE',
+  'SELECT FOR UPDATE': 'FOR UPDATE',
+  'UPDATE': 'FOR NO KEY UPDATE',
+  'DELETE': 'FOR UPDATE'
+};
+
 // Interface for backward compatibility with sqlParser.ts
 export interface LockInfo {
   lockMode: string;
@@ -161,8 +574,8 @@ export interface LockInfo {
   conflicts: string[];
 }
 
-export function getLockAnalysis(command: string): LockInfo | null {
-  const lockMode = COMMAND_LOCKS[command];
+export function getLockAnalysis(command: string, version: number = DEFAULT_PG_VERSION): LockInfo | null {
+  const lockMode = getCommandLockMode(command, version);
   if (!lockMode) {
     return null;
   }
@@ -0,0 +1,331 @@
+import { ParsedStatement, formatTableName } from './sqlParser';
+import { checkLockConflict } from './queryComparison';
+
+// A session of the simulation and the statements it runs, one per step
+export interface SimulationSession {
+  name: string;
+  statements: ParsedStatement[];
+}
+
+export type SessionStatus = 'running' | 'waiting' | 'failed' | 'skipped' | 'idle' | 'done';
+
+export interface LockRequest {
+  session: number;
+  lockMode: string;
+}
+
+// A session whose lock - granted, or queued ahead - conflicts with a waiting request
+export interface LockBlocker extends LockRequest {
+  granted: boolean;
+}
+
+export interface TableLockQueue {
+  table: string;
+  granted: LockRequest[];
+  waiting: LockRequest[]; // in queue order
+}
+
+export interface SessionState {
+  session: number;
+  status: SessionStatus;
+  statementIndex?: number; // statement run, waiting or failing in this step
+  inTransaction: boolean;
+  waitingFor?: {
+    table: string;
+    lockMode: string;
+    blockedBy: LockBlocker[];
+  };
+}
+
+export interface SimulationStep {
+  step: number;
+  sessions: SessionState[];
+  tables: TableLockQueue[];
+  events: string[];
+}
+
+export interface SimulationResult {
+  steps: SimulationStep[];
+  stuck: boolean; // sessions are left waiting for locks that are never released
+}
+
+interface GrantedLock extends LockRequest {
+  transaction: number;
+}
+
+interface TableState {
+  granted: GrantedLock[];
+  waiting: LockRequest[];
+}
+
+interface SessionRuntime {
+  next: number;
+  transaction: number;
+  inTransaction: boolean;
+  aborted: boolean; // a statement failed - the rest of the transaction block is ignored
+  releaseAtNextStep: boolean; // an autocommit statement ran in this step
+  pending?: {
+    statementIndex: number;
+    requests: { table: string; lockMode: string; nowait?: boolean }[];
+  };
+  status: SessionStatus;
+  statementIndex?: number;
+}
+
+const BEGIN_COMMANDS = ['BEGIN', 'START TRANSACTION'];
+const END_COMMANDS = ['COMMIT', 'ROLLBACK', 'PREPARE TRANSACTION'];
+
+// Step through the statements of several sessions side by side. Every session runs its next
+// statement in each step unless it waits for a lock. A lock request waits while it conflicts
+// with a lock granted to another session, or with a request queued ahead of it - so a waiting
+// ACCESS EXCLUSIVE blocks even the ACCESS SHARE requests that come after it.
+export function simulateLockQueue(sessions: SimulationSession[]): SimulationResult {
+  const tables = new Map<string, TableState>();
+  const runtimes: SessionRuntime[] = sessions.map(() => ({
+    next: 0,
+    transaction: 1,
+    inTransaction: false,
+    aborted: false,
+    releaseAtNextStep: false,
+    status: 'idle'
+  }));
+  const steps: SimulationStep[] = [];
+  // Every step runs a statement or releases the locks of one
+  const maxSteps = 2 * sessions.reduce((total, session) => total + session.statements.length, 0) + 1;
+
+  const getTable = (table: string): TableState => {
+    const existing = tables.get(table);
+    if (existing) {
+      return existing;
+    }
+    const state: TableState = { granted: [], waiting: [] };
+    tables.set(table, state);
+    return state;
+  };
+
+  const getBlockers = (table: TableState, request: LockRequest, ahead: LockRequest[]): LockBlocker[] => [
+    ...table.granted
+      .filter(lock => lock.session !== request.session && checkLockConflict(lock.lockMode, request.lockMode))
+      .map(lock => ({ session: lock.session, lockMode: lock.lockMode, granted: true })),
+    ...ahead
+      .filter(lock => lock.session !== request.session && checkLockConflict(lock.lockMode, request.lockMode))
+      .map(lock => ({ session: lock.session, lockMode: lock.lockMode, granted: false }))
+  ];
+
+  const release = (session: number, events: string[]) => {
+    const transaction = runtimes[session].transaction;
+    let released = false;
+    for (const table of tables.values()) {
+      const remaining = table.granted.filter(lock => lock.session !== session || lock.transaction !== transaction);
+      released = released || remaining.length !== table.granted.length;
+      table.granted = remaining;
+    }
+    if (released) {
+      events.push(`${sessions[session].name} releases its locks`);
+    }
+  };
+
+  // Request the remaining locks of the statement of a session, in order, until one of them has to wait
+  const continueStatement = (session: number, events: string[]) => {
+    const runtime = runtimes[session];
+    const pending = runtime.pending;
+    if (!pending) {
+      return;
+    }
+
+    while (pending.requests.length > 0) {
+      const { table: tableName, lockMode, nowait } = pending.requests[0];
+      const table = getTable(tableName);
+      const request = { session, lockMode };
+      const holdsLock = table.granted.some(lock => lock.session === session);
+
+      // A session that already holds a lock on the table is not queued behind the requests
+      // waiting for it, otherwise it would deadlock with them
+      const blockers = getBlockers(table, request, holdsLock ? [] : table.waiting);
+      if (blockers.length === 0) {
+        addGrantedLock(table, { ...request, transaction: runtime.transaction });
+        pending.requests.shift();
+        continue;
+      }
+
+      if (nowait) {
+        events.push(`${sessions[session].name} fails to get ${lockMode} on ${tableName} (NOWAIT)`);
+        runtime.pending = undefined;
+        runtime.status = 'failed';
+        release(session, events);
+        runtime.aborted = runtime.inTransaction;
+        if (!runtime.inTransaction) {
+          runtime.transaction++;
+        }
+        return;
+      }
+
+      if (!table.waiting.some(waiting => waiting.session === session)) {
+        const position = holdsLock
+          ? table.waiting.findIndex(waiting => table.granted.some(lock =>
+              lock.session === session && checkLockConflict(lock.lockMode, waiting.lockMode)))
+          : -1;
+        table.waiting.splice(position === -1 ? table.waiting.length : position, 0, request);
+        events.push(`${sessions[session].name} waits for ${lockMode} on ${tableName}`);
+      }
+      runtime.status = 'waiting';
+      return;
+    }
+
+    runtime.pending = undefined;
+    runtime.status = 'running';
+    runtime.statementIndex = pending.statementIndex;
+    if (!runtime.inTransaction) {
+      runtime.releaseAtNextStep = true;
+    }
+  };
+
+  // Grant the waiting requests in queue order, and let their sessions continue
+  const wakeUp = (events: string[], acted: Set<number>) => {
+    let changed = true;
+    while (changed) {
+      changed = false;
+      for (const [tableName, table] of tables) {
+        const index = table.waiting.findIndex((request, i) =>
+          getBlockers(table, request, table.waiting.slice(0, i)).length === 0);
+        if (index === -1) {
+          continue;
+        }
+
+        const [request] = table.waiting.splice(index, 1);
+        events.push(`${sessions[request.session].name} gets ${request.lockMode} on ${tableName}`);
+        acted.add(request.session);
+        const runtime = runtimes[request.session];
+        addGrantedLock(table, { ...request, transaction: runtime.transaction });
+        runtime.pending?.requests.shift();
+        continueStatement(request.session, events);
+        changed = true;
+        break;
+      }
+    }
+  };
+
+  const runStatement = (session: number, events: string[], acted: Set<number>) => {
+    const runtime = runtimes[session];
+    const statementIndex = runtime.next++;
+    const statement = sessions[session].statements[statementIndex];
+    runtime.statementIndex = statementIndex;
+    runtime.status = 'running';
+    acted.add(session);
+
+    if (BEGIN_COMMANDS.includes(statement.command)) {
+      runtime.inTransaction = true;
+      return;
+    }
+
+    if (END_COMMANDS.includes(statement.command)) {
+      // A prepared transaction keeps its locks after the session moves on
+      if (statement.command !== 'PREPARE TRANSACTION' || runtime.aborted) {
+        release(session, events);
+      }
+      runtime.transaction++;
+      runtime.aborted = false;
+      runtime.inTransaction = Boolean(statement.chain);
+      wakeUp(events, acted);
+      return;
+    }
+
+    if (runtime.aborted) {
+      runtime.status = 'skipped';
+      return;
+    }
+
+    const requests = new Map<string, { table: string; lockMode: string; nowait?: boolean }>();
+    for (const lock of statement.locks) {
+      const table = formatTableName(lock);
+      if (!requests.has(table)) {
+        requests.set(table, { table, lockMode: lock.lockMode, nowait: lock.nowait });
+      }
+    }
+    runtime.pending = { statementIndex, requests: Array.from(requests.values()) };
+    continueStatement(session, events);
+    // A failed NOWAIT request releases the locks of its transaction
+    wakeUp(events, acted);
+  };
+
+  const getSessionState = (session: number, runtime: SessionRuntime): SessionState => {
+    const state: SessionState = {
+      session,
+      status: runtime.status,
+      statementIndex: runtime.status === 'waiting' ? runtime.pending?.statementIndex : runtime.statementIndex,
+      inTransaction: runtime.inTransaction
+    };
+
+    const request = runtime.status === 'waiting' ? runtime.pending?.requests[0] : undefined;
+    const table = request ? tables.get(request.table) : undefined;
+    if (request && table) {
+      const position = table.waiting.findIndex(waiting => waiting.session === session);
+      state.waitingFor = {
+        table: request.table,
+        lockMode: request.lockMode,
+        blockedBy: getBlockers(table, { session, lockMode: request.lockMode }, table.waiting.slice(0, Math.max(position, 0)))
+      };
+    }
+
+    return state;
+  };
+
+  for (let step = 1; step <= maxSteps; step++) {
+    const events: string[] = [];
+    const acted = new Set<number>();
+    let progressed = false;
+
+    // Autocommit statements of the previous step are done and release their locks
+    runtimes.forEach((runtime, session) => {
+      if (runtime.releaseAtNextStep) {
+        runtime.releaseAtNextStep = false;
+        release(session, events);
+        runtime.transaction++;
+        progressed = true;
+      }
+      if (runtime.status !== 'waiting') {
+        runtime.status = runtime.next < sessions[session].statements.length ? 'idle' : 'done';
+        runtime.statementIndex = undefined;
+      }
+    });
+    wakeUp(events, acted);
+
+    runtimes.forEach((runtime, session) => {
+      if (!acted.has(session) && runtime.status !== 'waiting' && runtime.next < sessions[session].statements.length) {
+        runStatement(session, events, acted);
+      }
+    });
+
+    progressed = progressed || acted.size > 0;
+    if (!progressed) {
+      break;
+    }
+
+    steps.push({
+      step,
+      sessions: runtimes.map((runtime, session) => getSessionState(session, runtime)),
+      tables: Array.from(tables.entries())
+        .filter(([, table]) => table.granted.length > 0 || table.waiting.length > 0)
+        .map(([table, state]) => ({
+          table,
+          granted: state.granted.map(({ session, lockMode }) => ({ session, lockMode })),
+          waiting: [...state.waiting]
+        })),
+      events
+    });
+  }
+
+  return {
+    steps,
+    stuck: runtimes.some(runtime => runtime.status === 'waiting')
+  };
+}
+
+// A session holds every mode it was granted until the transaction ends
+function addGrantedLock(table: TableState, lock: GrantedLock) {
+  const exists = table.granted.some(granted =>
+    granted.session === lock.session && granted.lockMode === lock.lockMode && granted.transaction === lock.transaction);
+  if (!exists) {
+    table.granted.push(lock);
+  }
+}
@@ -0,0 +1,156 @@
+import { AlterTableAction, ParsedStatement } from './sqlParser';
+
+export type LintSeverity = 'error' | 'warning';
+
+// A known-dangerous migration pattern, and what to do instead
+export interface LintRule {
+  id: string;
+  severity: LintSeverity;
+  title: string;
+  explanation: string;
+  alternative: string;
+  matches: (statement: ParsedStatement) => boolean;
+}
+
+export interface LintFinding {
+  rule: LintRule;
+  statementIndex: number;
+  tables: string[];
+}
+
+const hasAction = (statement: ParsedStatement, test: (action: AlterTableAction) => boolean) =>
+  (statement.actions || []).some(test);
+
+export const LINT_RULES: LintRule[] = [
+  {
+    id: 'create-index-non-concurrently',
+    severity: 'warning',
+    title: 'CREATE INDEX without CONCURRENTLY',
+    explanation: 'Building the index takes a SHARE lock on the table, which blocks every INSERT, UPDATE and DELETE until the build is done.',
+    alternative: 'Use CREATE INDEX CONCURRENTLY, outside of a transaction block. It only takes SHARE UPDATE EXCLUSIVE and lets writes continue.',
+    matches: statement => statement.command === 'CREATE INDEX'
+  },
+  {
+    id: 'drop-index-non-concurrently',
+    severity: 'warning',
+    title: 'DROP INDEX without CONCURRENTLY',
+    explanation: 'Dropping the index takes ACCESS EXCLUSIVE on its table, so it waits for every running query on the table and blocks all new ones meanwhile.',
+    alternative: 'Use DROP INDEX CONCURRENTLY, outside of a transaction block.',
+    matches: statement => statement.command === 'DROP INDEX'
+  },
+  {
+    id: 'reindex-non-concurrently',
+    severity: 'warning',
+    title: 'REINDEX without CONCURRENTLY',
+    explanation: 'Rebuilding an index blocks writes to its table, and queries that would use the index, until the rebuild is done.',
+    alternative: 'Use REINDEX ... CONCURRENTLY (PostgreSQL 12 and later), outside of a transaction block.',
+    matches: statement => statement.command === 'REINDEX INDEX' || statement.command === 'REINDEX TABLE'
+  },
+  {
+    id: 'add-foreign-key-validating',
+    severity: 'warning',
+    title: 'ADD FOREIGN KEY without NOT VALID',
+    explanation: 'Every existing row is checked against the referenced table while SHARE ROW EXCLUSIVE blocks writes to both tables.',
+    alternative: 'Add the foreign key with NOT VALID, then run ALTER TABLE ... VALIDATE CONSTRAINT in a separate transaction - it only takes SHARE UPDATE EXCLUSIVE.',
+    matches: statement => hasAction(statement, action => action.action === 'ADD FOREIGN KEY' && action.duration === 'scan')
+  },
+  {
+    id: 'add-check-validating',
+    severity: 'warning',
+    title: 'ADD CHECK without NOT VALID',
+    explanation: 'Every existing row is checked while ACCESS EXCLUSIVE blocks all reads and writes of the table.',
+    alternative: 'Add the constraint with NOT VALID, then run ALTER TABLE ... VALIDATE CONSTRAINT in a separate transaction - it only takes SHARE UPDATE EXCLUSIVE.',
+    matches: statement => hasAction(statement, action => action.action === 'ADD CHECK' && action.duration === 'scan')
+  },
+  {
+    id: 'add-unique-without-index',
+    severity: 'warning',
+    title: 'ADD PRIMARY KEY or UNIQUE without an existing index',
+    explanation: 'The unique index is built while ACCESS EXCLUSIVE blocks all reads and writes of the table.',
+    alternative: 'Build the index with CREATE UNIQUE INDEX CONCURRENTLY first, then add the constraint with ADD CONSTRAINT ... PRIMARY KEY USING INDEX or UNIQUE USING INDEX.',
+    matches: statement => hasAction(statement, action =>
+      (action.action === 'ADD PRIMARY KEY' || action.action === 'ADD UNIQUE') && !action.index
+    )
+  },
+  {
+    id: 'set-not-null',
+    severity: 'warning',
+    title: 'SET NOT NULL on an existing column',
+    explanation: 'The whole table is scanned for NULLs while ACCESS EXCLUSIVE blocks all reads and writes - on a large table that takes a long time.',
+    alternative: 'Add CHECK (column IS NOT NULL) NOT VALID and validate it in a separate transaction. From PostgreSQL 12, SET NOT NULL then skips the scan, and the check can be dropped.',
+    matches: statement => hasAction(statement, action => action.action === 'ALTER COLUMN SET NOT NULL')
+  },
+  {
+    id: 'table-rewrite',
+    severity: 'error',
+    title: 'ALTER TABLE rewrites the table',
+    explanation: 'The table and all of its indexes are rewritten while ACCESS EXCLUSIVE blocks all reads and writes.',
+    alternative: 'Add a new column instead, backfill it in batches, and switch the application over to it before dropping the old one.',
+    matches: statement => hasAction(statement, action => action.duration === 'rewrite')
+  },
+  {
+    id: 'rename-column',
+    severity: 'warning',
+    title: 'Renaming a column',
+    explanation: 'Application code that is still running uses the old name and fails as soon as the migration commits.',
+    alternative: 'Add the new column, write to both, backfill and move the readers over - or rename it in a release that no longer uses the old name.',
+    matches: statement => statement.command === 'ALTER TABLE RENAME COLUMN'
+  },
+  {
+    id: 'vacuum-full',
+    severity: 'error',
+    title: 'VACUUM FULL',
+    explanation: 'The table is rewritten while ACCESS EXCLUSIVE blocks all reads and writes, and it needs disk space for a full copy.',
+    alternative: 'Run a plain VACUUM, or reclaim the space online with an extension such as pg_repack or pg_squeeze.',
+    matches: statement => statement.command === 'VACUUM FULL'
+  }
+];
+
+const DISABLE_COMMENT = /^--\s*pglocks:disable\b([^\n]*)/;
+
+// String literals, dollar-quoted bodies, quoted identifiers and comments, in the order they start -
+// a disable comment only counts outside of the others
+const SQL_TOKEN = /(?<![\w$])[Ee]'(?:[^'\\]|\\[\s\S]|'')*'|'(?:[^']|'')*'|"(?:[^"]|"")*"|(\$(?:[A-Za-z_]\w*)?\$)[\s\S]*?\1|\/\*[\s\S]*?\*\/|--[^\n]*/g;
+
+// Rules turned off for a statement by `-- pglocks:disable rule-id, ... [-- reason]` comments in
+// front of or inside of it, or after it on the same line. Without rule ids, every rule is turned off.
+function getDisabledRules(sql: string): Set<string> | 'all' {
+  const disabled = new Set<string>();
+
+  for (const [token] of sql.matchAll(SQL_TOKEN)) {
+    const match = DISABLE_COMMENT.exec(token);
+    if (!match) {
+      continue;
+    }
+    const ruleIds = match[1].split('--')[0].split(/[\s,]+/).filter(Boolean);
+    if (ruleIds.length === 0) {
+      return 'all';
+    }
+    ruleIds.forEach(ruleId => disabled.add(ruleId));
+  }
+
+  return disabled;
+}
+
+// Check every statement of a migration against the rule catalogue
+export function lintStatements(statements: ParsedStatement[], rules: LintRule[] = LINT_RULES): LintFinding[] {
+  const findings: LintFinding[] = [];
+
+  statements.forEach((statement, statementIndex) => {
+    // A comment on the line of the previous statement belongs to that one
+    const previousComment = statements[statementIndex - 1]?.trailingComment;
+    const sql = previousComment && statement.sql.startsWith(previousComment)
+      ? statement.sql.slice(previousComment.length)
+      : statement.sql;
+    const disabled = getDisabledRules(statement.trailingComment ? `${sql}\n${statement.trailingComment}` : sql);
+    if (disabled === 'all') {
+      return;
+    }
+
+    rules
+      .filter(rule => !disabled.has(rule.id) && rule.matches(statement))
+      .forEach(rule => findings.push({ rule, statementIndex, tables: statement.tables }));
+  });
+
+  return findings;
+}
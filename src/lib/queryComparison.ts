@@ -1,10 +1,11 @@
-import { TableLockInfo } from './sqlParser';
-import { LOCK_MODES } from './lockData';
+import { TableLockInfo, formatTableName } from './sqlParser';
+import { LOCK_MODES, ROW_LOCK_MODES } from './lockData';
 
 export interface QueryComparisonResult {
   isCompatible: boolean;
   conflictingTables: TableConflict[];
   compatibleTables: CompatibleTable[];
+  rowLockWarnings: RowLockWarning[];
   uniqueTables: {
     query1Only: string[];
     query2Only: string[];
@@ -16,6 +17,9 @@ export interface TableConflict {
   query1Lock: string;
   query2Lock: string;
   conflictReason: string;
+  // LOCK ... NOWAIT errors out instead of queueing behind the other query
+  query1Nowait?: boolean;
+  query2Nowait?: boolean;
 }
 
 export interface CompatibleTable {
@@ -24,6 +28,14 @@ export interface CompatibleTable {
   query2Lock: string;
 }
 
+// Compatible table locks can still block each other on the rows both queries touch
+export interface RowLockWarning {
+  table: string;
+  query1RowLock: string;
+  query2RowLock: string;
+  message: string;
+}
+
 export interface QueryAnalysisInput {
   query: string;
   tables: TableLockInfo[];
@@ -41,23 +53,26 @@ export function compareQueries(
       isCompatible: false,
       conflictingTables: [],
       compatibleTables: [],
+      rowLockWarnings: [],
       uniqueTables: { query1Only: [], query2Only: [] }
     };
   }
 
   const conflictingTables: TableConflict[] = [];
   const compatibleTables: CompatibleTable[] = [];
+  const rowLockWarnings: RowLockWarning[] = [];
   
-  // Create maps for easier lookup
+  // Create maps for easier lookup, keyed by the fully qualified relation name
+  // so that billing.invoices and public.invoices are never matched
   const query1TableMap = new Map<string, TableLockInfo>();
   const query2TableMap = new Map<string, TableLockInfo>();
   
   query1Analysis.tables.forEach(table => {
-    query1TableMap.set(table.table, table);
+    query1TableMap.set(formatTableName(table), table);
   });
   
   query2Analysis.tables.forEach(table => {
-    query2TableMap.set(table.table, table);
+    query2TableMap.set(formatTableName(table), table);
   });
 
   // Get all unique table names
@@ -83,7 +98,9 @@ export function compareQueries(
           table: tableName,
           query1Lock: table1Info.lockMode,
           query2Lock: table2Info.lockMode,
-          conflictReason: `${table1Info.lockMode} conflicts with ${table2Info.lockMode}`
+          conflictReason: getConflictReason(table1Info, table2Info),
+          query1Nowait: table1Info.nowait,
+          query2Nowait: table2Info.nowait
         });
       } else {
         compatibleTables.push({
@@ -91,6 +108,15 @@ export function compareQueries(
           query1Lock: table1Info.lockMode,
           query2Lock: table2Info.lockMode
         });
+
+        if (table1Info.rowLock && table2Info.rowLock && checkRowLockConflict(table1Info.rowLock, table2Info.rowLock)) {
+          rowLockWarnings.push({
+            table: tableName,
+            query1RowLock: table1Info.rowLock,
+            query2RowLock: table2Info.rowLock,
+            message: getRowConflictMessage(table1Info, table2Info)
+          });
+        }
       }
     } else if (table1Info && !table2Info) {
       query1OnlyTables.push(tableName);
@@ -105,6 +131,7 @@ export function compareQueries(
     isCompatible,
     conflictingTables,
     compatibleTables,
+    rowLockWarnings,
     uniqueTables: {
       query1Only: query1OnlyTables,
       query2Only: query2OnlyTables
@@ -112,6 +139,29 @@ export function compareQueries(
   };
 }
 
+function getConflictReason(table1Info: TableLockInfo, table2Info: TableLockInfo): string {
+  const reason = `${table1Info.lockMode} conflicts with ${table2Info.lockMode}`;
+
+  if (table1Info.nowait && table2Info.nowait) {
+    return `${reason} - both queries use NOWAIT and fail immediately instead of waiting`;
+  }
+  if (table1Info.nowait || table2Info.nowait) {
+    return `${reason} - Query ${table1Info.nowait ? 1 : 2} uses NOWAIT and fails immediately instead of waiting`;
+  }
+  return reason;
+}
+
+function getRowConflictMessage(table1Info: TableLockInfo, table2Info: TableLockInfo): string {
+  const message = `${table1Info.rowLock} conflicts with ${table2Info.rowLock} - the queries may conflict on overlapping rows`;
+  const waitPolicies = [table1Info, table2Info].flatMap((info, index) => {
+    if (info.skipLocked) return [`Query ${index + 1} uses SKIP LOCKED and skips rows the other query has locked`];
+    if (info.nowait) return [`Query ${index + 1} uses NOWAIT and fails on rows the other query has locked`];
+    return [];
+  });
+
+  return [message, ...waitPolicies].join('. ');
+}
+
 export function checkLockConflict(lockMode1: string, lockMode2: string): boolean {
   // Get lock mode information
   const lock1Info = LOCK_MODES[lockMode1];
@@ -131,6 +181,17 @@ export function checkLockConflict(lockMode1: string, lockMode2: string): boolean
   return lock1ConflictsWithLock2 || lock2ConflictsWithLock1;
 }
 
+export function checkRowLockConflict(rowLockMode1: string, rowLockMode2: string): boolean {
+  const rowLock1Info = ROW_LOCK_MODES[rowLockMode1];
+  const rowLock2Info = ROW_LOCK_MODES[rowLockMode2];
+
+  if (!rowLock1Info || !rowLock2Info) {
+    return false;
+  }
+
+  return rowLock1Info.conflicts.includes(rowLockMode2) || rowLock2Info.conflicts.includes(rowLockMode1);
+}
+
 export function getLockCompatibilityMatrix(): Record<string, Record<string, boolean>> {
   const matrix: Record<string, Record<string, boolean>> = {};
   
@@ -152,8 +213,12 @@ export function getComparisonSummary(result: QueryComparisonResult): string {
     const sharedTables = result.compatibleTables.length;
     const uniqueTables = result.uniqueTables.query1Only.length + result.uniqueTables.query2Only.length;
     
+    const rowConflicts = result.rowLockWarnings.length;
+
     if (sharedTables === 0) {
       return `✅ Queries are compatible - they access different tables`;
+    } else if (rowConflicts > 0) {
+      return `⚠️ Table locks are compatible, but ${rowConflicts} table${rowConflicts > 1 ? 's' : ''} may conflict on overlapping rows`;
     } else {
       return `✅ Queries are compatible - ${sharedTables} shared table${sharedTables > 1 ? 's' : ''} with compatible locks`;
     }
@@ -0,0 +1,218 @@
+import { AnalysisOptions, ParsedStatement, formatTableName, parseScript, parseToAST } from './sqlParser';
+import { DEFAULT_PG_VERSION, getLockStrength } from './lockData';
+
+// A lock-friendlier replacement for a statement, with the locks the replacement takes
+export interface SafeRewrite {
+  statementIndex: number;
+  title: string;
+  explanation: string;
+  original: ParsedStatement;
+  sql: string;
+  statements: ParsedStatement[];
+}
+
+interface RewriteSuggestion {
+  title: string;
+  explanation: string;
+  statements: string[];
+}
+
+// Only statements that block writes are worth rewriting
+const MIN_REWRITE_LOCK_STRENGTH = getLockStrength('SHARE');
+
+const LEADING_COMMENTS = /^(?:\s+|--[^\n]*(?:\n|$)|\/\*[\s\S]*?\*\/)*/;
+
+// Suggest safer replacements for the statements of a script. pg-parser can't deparse an AST,
+// so the replacements are built from the parts of the original text the AST points at.
+export async function suggestSafeRewrites(
+  statements: ParsedStatement[],
+  options: AnalysisOptions = {}
+): Promise<SafeRewrite[]> {
+  const rewrites: SafeRewrite[] = [];
+
+  for (const [statementIndex, statement] of statements.entries()) {
+    if (!statement.locks.some(lock => getLockStrength(lock.lockMode) >= MIN_REWRITE_LOCK_STRENGTH)) {
+      continue;
+    }
+
+    const suggestion = await getRewriteSuggestion(statement, options.version || DEFAULT_PG_VERSION);
+    if (!suggestion) {
+      continue;
+    }
+
+    const sql = suggestion.statements.map(rewritten => `${rewritten};`).join('\n');
+    const script = await parseScript(sql, options);
+    if (!script.isValid) {
+      continue;
+    }
+
+    rewrites.push({
+      statementIndex,
+      title: suggestion.title,
+      explanation: suggestion.explanation,
+      original: statement,
+      sql,
+      statements: script.statements
+    });
+  }
+
+  return rewrites;
+}
+
+async function getRewriteSuggestion(statement: ParsedStatement, version: number): Promise<RewriteSuggestion | undefined> {
+  const text = statement.sql.replace(LEADING_COMMENTS, '');
+
+  switch (statement.command) {
+    case 'CREATE INDEX':
+      return {
+        title: 'Build the index concurrently',
+        explanation: 'CREATE INDEX CONCURRENTLY only takes SHARE UPDATE EXCLUSIVE, so writes continue during the build. It must run outside of a transaction block, and a failed build leaves an INVALID index behind that needs to be dropped.',
+        statements: [text.replace(/^(CREATE\s+(?:UNIQUE\s+)?INDEX)\b/i, '$1 CONCURRENTLY')]
+      };
+    case 'DROP INDEX':
+      // CONCURRENTLY drops a single index, without CASCADE
+      if (statement.tables.length !== 1 || /\bCASCADE\s*$/i.test(text)) {
+        return undefined;
+      }
+      return {
+        title: 'Drop the index concurrently',
+        explanation: 'DROP INDEX CONCURRENTLY waits for the queries using the index instead of blocking the table. It must run outside of a transaction block.',
+        statements: [text.replace(/^(DROP\s+INDEX)\b/i, '$1 CONCURRENTLY')]
+      };
+    case 'REINDEX INDEX':
+    case 'REINDEX TABLE':
+      if (version < 12) {
+        return undefined;
+      }
+      return {
+        title: 'Rebuild concurrently',
+        explanation: 'REINDEX CONCURRENTLY builds a new copy of the index next to the old one and only takes SHARE UPDATE EXCLUSIVE. It must run outside of a transaction block.',
+        statements: [text.replace(/^(REINDEX\s+(?:\([^)]*\)\s*)?(?:INDEX|TABLE))\b/i, '$1 CONCURRENTLY')]
+      };
+  }
+
+  if (statement.actions?.length !== 1) {
+    return undefined;
+  }
+
+  const { ast } = await parseToAST(text, version);
+  const alterStmt = ast?.stmts[0]?.stmt.AlterTableStmt;
+  const cmd = alterStmt?.cmds?.[0]?.AlterTableCmd;
+  if (!cmd) {
+    return undefined;
+  }
+
+  const table = `ALTER TABLE ${alterStmt.relation.inh ? '' : 'ONLY '}${formatTableName({
+    catalog: alterStmt.relation.catalogname || undefined,
+    schema: alterStmt.relation.schemaname || undefined,
+    name: alterStmt.relation.relname
+  })}`;
+  const action = statement.actions[0];
+
+  if ((action.action === 'ADD FOREIGN KEY' || action.action === 'ADD CHECK') && action.duration === 'scan') {
+    return getValidateLaterRewrite(text, table, alterStmt.relation.relname, cmd.def.Constraint);
+  }
+  if (action.action === 'ALTER COLUMN SET NOT NULL' && version >= 12) {
+    return getNotNullRewrite(table, alterStmt.relation.relname, cmd.name);
+  }
+  if (action.action === 'ADD PRIMARY KEY' || action.action === 'ADD UNIQUE') {
+    return getUniqueIndexRewrite(table, alterStmt.relation, cmd.def.Constraint, action.action === 'ADD PRIMARY KEY');
+  }
+
+  return undefined;
+}
+
+// ADD ... NOT VALID only checks new rows, VALIDATE CONSTRAINT checks the existing ones under SHARE UPDATE EXCLUSIVE
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function getValidateLaterRewrite(text: string, table: string, tableName: string, constraint: any): RewriteSuggestion {
+  const isForeignKey = constraint.contype === 'CONSTR_FOREIGN';
+  const checkColumn = isForeignKey ? undefined : getFirstColumnRef(constraint.raw_expr);
+  const name = constraint.conname || (isForeignKey
+    ? `${tableName}_${getStrings(constraint.fk_attrs).join('_')}_fkey`
+    : `${tableName}_${checkColumn ? `${checkColumn}_` : ''}check`);
+  // The constraint clause of the original, from CONSTRAINT name or the constraint type to the end
+  const definition = sliceBytes(text, constraint.location).trim();
+
+  return {
+    title: isForeignKey ? 'Add the foreign key as NOT VALID, then validate it' : 'Add the check as NOT VALID, then validate it',
+    explanation: 'NOT VALID skips the check of the existing rows, so the constraint is added in an instant. VALIDATE CONSTRAINT checks them afterwards while only taking SHARE UPDATE EXCLUSIVE, which lets reads and writes continue. Run the two statements in separate transactions.',
+    statements: [
+      `${table} ADD ${constraint.conname ? '' : `CONSTRAINT ${formatTableName({ name })} `}${definition} NOT VALID`,
+      `${table} VALIDATE CONSTRAINT ${formatTableName({ name })}`
+    ]
+  };
+}
+
+// From PostgreSQL 12, SET NOT NULL skips the scan when a valid CHECK constraint already proves it
+function getNotNullRewrite(table: string, tableName: string, column: string): RewriteSuggestion {
+  const name = formatTableName({ name: `${tableName}_${column}_not_null` });
+  const quotedColumn = formatTableName({ name: column });
+
+  return {
+    title: 'Prove the column has no NULLs with a validated CHECK first',
+    explanation: 'The CHECK constraint is added as NOT VALID and validated under SHARE UPDATE EXCLUSIVE. SET NOT NULL then uses it instead of scanning the table, and the check is no longer needed.',
+    statements: [
+      `${table} ADD CONSTRAINT ${name} CHECK (${quotedColumn} IS NOT NULL) NOT VALID`,
+      `${table} VALIDATE CONSTRAINT ${name}`,
+      `${table} ALTER COLUMN ${quotedColumn} SET NOT NULL`,
+      `${table} DROP CONSTRAINT ${name}`
+    ]
+  };
+}
+
+// A unique index built concurrently can be turned into a PRIMARY KEY or UNIQUE constraint in an instant
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function getUniqueIndexRewrite(table: string, relation: any, constraint: any, isPrimaryKey: boolean): RewriteSuggestion | undefined {
+  const columns = getStrings(constraint.keys);
+  // USING INDEX already reuses an index, and INCLUDE, WITH or USING INDEX TABLESPACE don't carry over
+  if (constraint.indexname || columns.length === 0 || constraint.including || constraint.options || constraint.indexspace) {
+    return undefined;
+  }
+
+  const name = formatTableName({
+    name: constraint.conname || (isPrimaryKey ? `${relation.relname}_pkey` : `${relation.relname}_${columns.join('_')}_key`)
+  });
+  const relationName = formatTableName({
+    catalog: relation.catalogname || undefined,
+    schema: relation.schemaname || undefined,
+    name: relation.relname
+  });
+  const columnList = columns.map(column => formatTableName({ name: column })).join(', ');
+
+  return {
+    title: 'Build the unique index concurrently, then add the constraint using it',
+    explanation: `CREATE UNIQUE INDEX CONCURRENTLY builds the index without blocking writes, outside of a transaction block. Adding the constraint USING INDEX then only takes ACCESS EXCLUSIVE for a moment.${isPrimaryKey ? ' The primary key columns must already be NOT NULL, otherwise adding it scans the table.' : ''}`,
+    statements: [
+      `CREATE UNIQUE INDEX CONCURRENTLY ${name} ON ${relationName} (${columnList})`,
+      `${table} ADD CONSTRAINT ${name} ${isPrimaryKey ? 'PRIMARY KEY' : 'UNIQUE'} USING INDEX ${name}`
+    ]
+  };
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function getStrings(nodes: any[] = []): string[] {
+  return nodes.map(node => node.String?.sval).filter(Boolean);
+}
+
+// PostgreSQL names a check constraint after the first column it uses
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function getFirstColumnRef(node: any): string | undefined {
+  if (!node || typeof node !== 'object') {
+    return undefined;
+  }
+  if (node.ColumnRef) {
+    return getStrings(node.ColumnRef.fields).pop();
+  }
+  for (const value of Object.values(node)) {
+    const column = getFirstColumnRef(value);
+    if (column) {
+      return column;
+    }
+  }
+  return undefined;
+}
+
+// AST locations are byte offsets
+function sliceBytes(text: string, start: number = 0): string {
+  return new TextDecoder().decode(new TextEncoder().encode(text).slice(start));
+}
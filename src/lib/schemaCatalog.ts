@@ -0,0 +1,453 @@
+import {
+  AnalysisOptions,
+  ForeignKeyAction,
+  ForeignKeyDefinition,
+  FunctionStatement,
+  PartitionHierarchy,
+  TriggerDefinition,
+  TableReference,
+  formatTableName,
+  getRoutineBody,
+  parseQualifiedName,
+  parseToAST
+} from './sqlParser';
+import { analyzeFunctionBody } from './functionAnalysis';
+
+export interface CatalogIndex {
+  name: string;
+  columns: string[]; // plain columns only - expressions are left out
+  unique: boolean;
+  primary?: boolean;
+  partial?: boolean;
+}
+
+export interface CatalogForeignKey {
+  name?: string;
+  columns: string[];
+  referencedTable: string;
+  referencedColumns: string[];
+  onDelete?: ForeignKeyAction;
+  onUpdate?: ForeignKeyAction;
+}
+
+export interface CatalogTrigger {
+  name: string;
+  function: string;
+  timing: 'BEFORE' | 'AFTER' | 'INSTEAD OF';
+  events: string[];
+  columns?: string[]; // UPDATE OF
+  forEachRow: boolean;
+}
+
+export interface CatalogTable {
+  schema: string;
+  name: string;
+  columns: string[];
+  columnTypes: Record<string, string>; // type name without its schema, e.g. int8 or text
+  indexes: CatalogIndex[];
+  foreignKeys: CatalogForeignKey[];
+  triggers: CatalogTrigger[];
+  partitioned?: boolean;
+  partitionOf?: string;
+  defaultPartition?: boolean;
+  inherits?: string[];
+}
+
+export interface CatalogView {
+  schema: string;
+  name: string;
+  materialized: boolean;
+  tables: string[]; // relations the view reads from
+  baseTable?: string; // the single relation of an automatically updatable view
+}
+
+export interface CatalogFunction {
+  schema: string;
+  name: string;
+  language: string;
+  body: string;
+  statements: FunctionStatement[]; // statements found in the body
+  dynamic?: boolean;
+}
+
+export interface CatalogSequence {
+  schema: string;
+  name: string;
+  ownedBy?: string; // table.column
+}
+
+// Everything the analysis can use from the schema, keyed by schema-qualified name
+export interface SchemaCatalog {
+  tables: Record<string, CatalogTable>;
+  views: Record<string, CatalogView>;
+  sequences: Record<string, CatalogSequence>;
+  functions: Record<string, CatalogFunction>;
+}
+
+export interface SchemaCatalogResult {
+  catalog?: SchemaCatalog;
+  error?: string;
+}
+
+// CreateTrigStmt timing and events are bit masks (see TRIGGER_TYPE_* in pg_trigger.h)
+const TRIGGER_TYPE_BEFORE = 1 << 1;
+const TRIGGER_TYPE_INSTEAD = 1 << 6;
+const TRIGGER_EVENTS: Array<[number, string]> = [
+  [1 << 2, 'INSERT'],
+  [1 << 3, 'DELETE'],
+  [1 << 4, 'UPDATE'],
+  [1 << 5, 'TRUNCATE']
+];
+
+// Referential actions of a Constraint node, by fk_del_action / fk_upd_action
+const FOREIGN_KEY_ACTIONS: Record<string, ForeignKeyAction> = {
+  a: 'NO ACTION',
+  r: 'RESTRICT',
+  c: 'CASCADE',
+  n: 'SET NULL',
+  d: 'SET DEFAULT'
+};
+
+export function createEmptyCatalog(): SchemaCatalog {
+  return { tables: {}, views: {}, sequences: {}, functions: {} };
+}
+
+// Build a catalog from DDL such as the output of pg_dump --schema-only. Statements that
+// don't describe tables, indexes, constraints, triggers, views or sequences are skipped.
+export async function parseSchemaCatalog(ddl: string, version?: number): Promise<SchemaCatalogResult> {
+  // pg_dump output can contain psql meta-commands (\connect, \restrict, ...) the parser rejects
+  const sql = ddl
+    .split('\n')
+    .filter(line => !line.trimStart().startsWith('\\'))
+    .join('\n')
+    .trim();
+  if (!sql) {
+    return { error: 'Schema cannot be empty' };
+  }
+
+  try {
+    const { ast, error } = await parseToAST(sql, version);
+    if (error) {
+      return { error };
+    }
+
+    const catalog = createEmptyCatalog();
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    ast.stmts.forEach((rawStmt: any) => addStatementToCatalog(catalog, rawStmt.stmt));
+
+    // Function bodies are parsed on their own, once the whole schema is known
+    for (const func of Object.values(catalog.functions)) {
+      const definition = await analyzeFunctionBody(func.body, func.language, version);
+      func.statements = definition.statements;
+      func.dynamic = definition.dynamic;
+    }
+    return { catalog };
+  } catch (error) {
+    return { error: `Parse error: ${error instanceof Error ? error.message : 'Unknown error'}` };
+  }
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function addStatementToCatalog(catalog: SchemaCatalog, statement: any) {
+  if (statement.CreateStmt) {
+    addCreateTable(catalog, statement.CreateStmt);
+  } else if (statement.IndexStmt) {
+    const table = getOrCreateTable(catalog, statement.IndexStmt.relation);
+    table.indexes.push({
+      name: qualifiedName(table.schema, statement.IndexStmt.idxname || `${table.name}_idx`),
+      columns: getIndexColumns(statement.IndexStmt.indexParams),
+      unique: Boolean(statement.IndexStmt.unique),
+      primary: statement.IndexStmt.primary || undefined,
+      partial: statement.IndexStmt.whereClause ? true : undefined
+    });
+  } else if (statement.AlterTableStmt && statement.AlterTableStmt.objtype === 'OBJECT_TABLE') {
+    const table = getOrCreateTable(catalog, statement.AlterTableStmt.relation);
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    (statement.AlterTableStmt.cmds || []).forEach((cmd: any) => {
+      const { subtype, def } = cmd.AlterTableCmd || {};
+      if (subtype === 'AT_AddConstraint' && def?.Constraint) {
+        addConstraint(catalog, table, def.Constraint);
+      } else if (subtype === 'AT_AttachPartition' && def?.PartitionCmd) {
+        const partition = getOrCreateTable(catalog, def.PartitionCmd.name);
+        table.partitioned = true;
+        partition.partitionOf = tableKey(table);
+        partition.defaultPartition = def.PartitionCmd.bound?.is_default || undefined;
+      }
+    });
+  } else if (statement.CreateTrigStmt) {
+    const { trigname, relation, funcname, row, timing = 0, events = 0, columns } = statement.CreateTrigStmt;
+    getOrCreateTable(catalog, relation).triggers.push({
+      name: trigname,
+      function: getNames(funcname).join('.'),
+      timing: timing & TRIGGER_TYPE_INSTEAD ? 'INSTEAD OF' : timing & TRIGGER_TYPE_BEFORE ? 'BEFORE' : 'AFTER',
+      events: TRIGGER_EVENTS.filter(([bit]) => events & bit).map(([, event]) => event),
+      columns: columns ? getNames(columns) : undefined,
+      forEachRow: Boolean(row)
+    });
+  } else if (statement.ViewStmt) {
+    addView(catalog, statement.ViewStmt.view, statement.ViewStmt.query, false);
+  } else if (statement.CreateTableAsStmt && statement.CreateTableAsStmt.objtype === 'OBJECT_MATVIEW') {
+    addView(catalog, statement.CreateTableAsStmt.into?.rel, statement.CreateTableAsStmt.query, true);
+  } else if (statement.CreateFunctionStmt) {
+    addFunction(catalog, statement.CreateFunctionStmt);
+  } else if (statement.CreateSeqStmt) {
+    const sequence = statement.CreateSeqStmt.sequence;
+    const schema = sequence.schemaname || 'public';
+    catalog.sequences[qualifiedName(schema, sequence.relname)] = {
+      schema,
+      name: sequence.relname,
+      ownedBy: getSequenceOwner(statement.CreateSeqStmt.options)
+    };
+  } else if (statement.AlterSeqStmt) {
+    const sequence = statement.AlterSeqStmt.sequence;
+    const existing = catalog.sequences[qualifiedName(sequence.schemaname || 'public', sequence.relname)];
+    const ownedBy = getSequenceOwner(statement.AlterSeqStmt.options);
+    if (existing && ownedBy) {
+      existing.ownedBy = ownedBy;
+    }
+  }
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function addCreateTable(catalog: SchemaCatalog, createStmt: any) {
+  const table = getOrCreateTable(catalog, createStmt.relation);
+  table.partitioned = createStmt.partspec ? true : table.partitioned;
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const parents: string[] = (createStmt.inhRelations || []).map((parent: any) => tableKey(getOrCreateTable(catalog, parent.RangeVar || parent)));
+  if (createStmt.partbound && parents.length > 0) {
+    table.partitionOf = parents[0];
+    table.defaultPartition = createStmt.partbound.is_default || undefined;
+  } else if (parents.length > 0) {
+    table.inherits = parents;
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  (createStmt.tableElts || []).forEach((element: any) => {
+    if (element.ColumnDef) {
+      const { colname, typeName, constraints } = element.ColumnDef;
+      table.columns.push(colname);
+      const type = getNames(typeName?.names).pop();
+      if (type) {
+        table.columnTypes[colname] = type;
+      }
+      // Column constraints apply to that column only
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (constraints || []).forEach((constraint: any) => {
+        if (constraint.Constraint) {
+          addConstraint(catalog, table, { ...constraint.Constraint, keys: [{ String: { sval: colname } }], fk_attrs: [{ String: { sval: colname } }] });
+        }
+      });
+    } else if (element.Constraint) {
+      addConstraint(catalog, table, element.Constraint);
+    }
+  });
+}
+
+// PRIMARY KEY and UNIQUE constraints are backed by an index, FOREIGN KEY references another table
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function addConstraint(catalog: SchemaCatalog, table: CatalogTable, constraint: any) {
+  const primary = constraint.contype === 'CONSTR_PRIMARY';
+  if (primary || constraint.contype === 'CONSTR_UNIQUE') {
+    // ADD CONSTRAINT ... USING INDEX turns an existing index into the constraint's index
+    const existing = constraint.indexname &&
+      table.indexes.find(index => index.name === qualifiedName(table.schema, constraint.indexname));
+    if (existing) {
+      existing.unique = true;
+      existing.primary = primary || existing.primary;
+      return;
+    }
+
+    const columns = getNames(constraint.keys);
+    table.indexes.push({
+      name: qualifiedName(table.schema, constraint.conname || (primary ? `${table.name}_pkey` : `${table.name}_${columns.join('_')}_key`)),
+      columns,
+      unique: true,
+      primary: primary || undefined
+    });
+  } else if (constraint.contype === 'CONSTR_FOREIGN') {
+    table.foreignKeys.push({
+      name: constraint.conname || undefined,
+      columns: getNames(constraint.fk_attrs),
+      referencedTable: tableKey(getOrCreateTable(catalog, constraint.pktable)),
+      referencedColumns: getNames(constraint.pk_attrs),
+      onDelete: FOREIGN_KEY_ACTIONS[constraint.fk_del_action],
+      onUpdate: FOREIGN_KEY_ACTIONS[constraint.fk_upd_action]
+    });
+  }
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function addView(catalog: SchemaCatalog, relation: any, query: any, materialized: boolean) {
+  if (!relation?.relname) {
+    return;
+  }
+
+  const schema = relation.schemaname || 'public';
+  const cteNames = new Set(collectCteNames(query));
+  catalog.views[qualifiedName(schema, relation.relname)] = {
+    schema,
+    name: relation.relname,
+    materialized,
+    tables: Array.from(new Set(collectRelations(query, cteNames))),
+    baseTable: materialized ? undefined : getUpdatableBaseTable(query)
+  };
+}
+
+// Every relation a view's query refers to, except the WITH queries of the view itself
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function collectRelations(node: any, cteNames: Set<string>): string[] {
+  if (!node || typeof node !== 'object') {
+    return [];
+  }
+  if (Array.isArray(node)) {
+    return node.flatMap(child => collectRelations(child, cteNames));
+  }
+  if (node.RangeVar) {
+    const { schemaname, relname } = node.RangeVar;
+    return !schemaname && cteNames.has(relname) ? [] : [qualifiedName(schemaname || 'public', relname)];
+  }
+  return Object.values(node).flatMap(child => collectRelations(child, cteNames));
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function collectCteNames(node: any): string[] {
+  if (!node || typeof node !== 'object') {
+    return [];
+  }
+  const names = node.CommonTableExpr?.ctename ? [node.CommonTableExpr.ctename] : [];
+  return [...names, ...Object.values(node).flatMap(collectCteNames)];
+}
+
+// A view selecting from a single table or view, without DISTINCT, GROUP BY, HAVING, LIMIT,
+// set operations or WITH, is automatically updatable. Aggregates in the target list aren't checked.
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function getUpdatableBaseTable(query: any): string | undefined {
+  const select = query?.SelectStmt;
+  if (
+    !select ||
+    (select.op && select.op !== 'SETOP_NONE') ||
+    select.withClause ||
+    select.distinctClause ||
+    select.groupClause ||
+    select.havingClause ||
+    select.limitCount ||
+    select.limitOffset ||
+    select.fromClause?.length !== 1
+  ) {
+    return undefined;
+  }
+
+  const relation = select.fromClause[0].RangeVar;
+  return relation ? qualifiedName(relation.schemaname || 'public', relation.relname) : undefined;
+}
+
+// Bodies written as a string constant (AS $$ ... $$) - SQL-standard BEGIN ATOMIC bodies are skipped
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function addFunction(catalog: SchemaCatalog, createFunctionStmt: any) {
+  const names = getNames(createFunctionStmt.funcname);
+  const body = getRoutineBody(createFunctionStmt.options);
+  if (names.length === 0 || !body) {
+    return;
+  }
+
+  const schema = names.length > 1 ? names[names.length - 2] : 'public';
+  const name = names[names.length - 1];
+  catalog.functions[qualifiedName(schema, name)] = { schema, name, language: body.language, body: body.text, statements: [] };
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function getOrCreateTable(catalog: SchemaCatalog, relation: any): CatalogTable {
+  const schema = relation.schemaname || 'public';
+  const key = qualifiedName(schema, relation.relname);
+  if (!catalog.tables[key]) {
+    catalog.tables[key] = { schema, name: relation.relname, columns: [], columnTypes: {}, indexes: [], foreignKeys: [], triggers: [] };
+  }
+  return catalog.tables[key];
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function getIndexColumns(indexParams: any[] = []): string[] {
+  return indexParams
+    .map(param => param.IndexElem?.name)
+    .filter((name): name is string => Boolean(name));
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function getSequenceOwner(options: any[] = []): string | undefined {
+  const ownedBy = options.find(option => option.DefElem?.defname === 'owned_by');
+  const names = getNames(ownedBy?.DefElem.arg?.List?.items);
+  return names.length > 1 && names[names.length - 1] !== 'none' ? names.join('.') : undefined;
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function getNames(items: any[] = []): string[] {
+  return items
+    .map(item => item.String?.sval)
+    .filter((name): name is string => Boolean(name));
+}
+
+function qualifiedName(schema: string, name: string): string {
+  return formatTableName({ schema, name });
+}
+
+function tableKey(table: CatalogTable): string {
+  return qualifiedName(table.schema, table.name);
+}
+
+// Find a table the way PostgreSQL resolves names - unqualified names through the search_path
+export function findCatalogTable(
+  catalog: SchemaCatalog,
+  table: TableReference,
+  searchPath: string[] = ['public']
+): CatalogTable | undefined {
+  const schemas = table.schema ? [table.schema] : searchPath.filter(schema => schema !== '$user');
+  return schemas
+    .map(schema => catalog.tables[qualifiedName(schema, table.name)])
+    .find(Boolean);
+}
+
+// Everything the lock analysis can take from the catalog
+export function getCatalogAnalysisOptions(
+  catalog: SchemaCatalog | null
+): Pick<AnalysisOptions, 'keyColumns' | 'partitions' | 'indexes' | 'views' | 'foreignKeys' | 'triggers' | 'functions'> {
+  if (!catalog) {
+    return {};
+  }
+
+  const keyColumns: Record<string, string[]> = {};
+  const partitions: Record<string, PartitionHierarchy> = {};
+  const indexes: Record<string, string[]> = {};
+  const foreignKeys: ForeignKeyDefinition[] = [];
+  const triggers: Record<string, TriggerDefinition[]> = {};
+
+  Object.entries(catalog.tables).forEach(([key, table]) => {
+    // Indexes always live in the schema of their table
+    indexes[key] = table.indexes.map(index => parseQualifiedName(index.name).name);
+    table.foreignKeys.forEach(foreignKey => foreignKeys.push({ ...foreignKey, table: key }));
+    if (table.triggers.length > 0) {
+      triggers[key] = table.triggers;
+    }
+
+    // A foreign key can reference the columns of any unique, non-partial index
+    keyColumns[key] = Array.from(new Set(
+      table.indexes.filter(index => index.unique && !index.partial).flatMap(index => index.columns)
+    ));
+
+    if (table.partitionOf) {
+      const hierarchy = partitions[table.partitionOf] || (partitions[table.partitionOf] = { partitions: [] });
+      if (table.defaultPartition) {
+        hierarchy.defaultPartition = key;
+      } else {
+        hierarchy.partitions.push(key);
+      }
+    }
+    (table.inherits || []).forEach(parent => {
+      const hierarchy = partitions[parent] || (partitions[parent] = { partitions: [], inheritance: true });
+      hierarchy.partitions.push(key);
+    });
+  });
+
+  // Catalogs stored before functions were imported have none
+  return { keyColumns, partitions, indexes, views: catalog.views, foreignKeys, triggers, functions: catalog.functions || {} };
+}
@@ -0,0 +1,435 @@
+import {
+  AnalysisOptions,
+  DEFAULT_KEY_COLUMNS,
+  ParsedStatement,
+  TableReference,
+  formatTableName,
+  parseQualifiedName,
+  parseScript,
+  parseSQL
+} from './sqlParser';
+import {
+  COMMAND_DURATIONS,
+  DEFAULT_PG_VERSION,
+  LockDuration,
+  getLongestDuration,
+  getStrongestLockMode
+} from './lockData';
+import { CatalogTable, SchemaCatalog } from './schemaCatalog';
+
+// A step of a plan, with the locks it takes when it runs
+export interface PlanStep {
+  title: string;
+  description: string;
+  sql: string;
+  statements: ParsedStatement[];
+  peakLock?: string; // strongest lock any statement of the step takes
+  duration: LockDuration;
+  batched?: boolean; // repeated for every batch of rows until none are left
+}
+
+export interface SchemaChangePlan {
+  title: string;
+  steps: PlanStep[];
+  notes: string[];
+}
+
+export interface SchemaChangePlanResult {
+  plan?: SchemaChangePlan;
+  error?: string;
+}
+
+interface PlanStepDraft {
+  title: string;
+  description: string;
+  statements: string[];
+  batched?: boolean;
+}
+
+interface PlanDraft {
+  title: string;
+  steps: PlanStepDraft[];
+  notes: string[];
+}
+
+interface PlanContext {
+  options: AnalysisOptions;
+  version: number;
+  catalog?: SchemaCatalog | null;
+}
+
+export const PLAN_INTENT_EXAMPLES = [
+  'change column orders.amount from int to bigint',
+  "add NOT NULL column orders.status text with default 'new'",
+  'add column orders.token uuid with default gen_random_uuid()',
+  'add index on orders(customer_id)',
+  'add unique constraint on orders(code)',
+  'add primary key on orders(id)'
+];
+
+// Rows updated by every batch of a backfill
+const BATCH_SIZE = 10000;
+
+// How long the statements that block writes may wait for their lock before giving up
+const LOCK_TIMEOUT = '5s';
+
+// Key types a backfill can split into ranges of values
+const INTEGER_TYPES = new Set(['int2', 'int4', 'int8', 'smallserial', 'serial', 'bigserial', 'serial2', 'serial4', 'serial8']);
+
+const CHANGE_TYPE_INTENT = /^change\s+(?:the\s+)?(?:type\s+of\s+)?column\s+(\S+)\s+(?:from\s+(.+?)\s+)?(?:to|type)\s+(.+)$/i;
+const ADD_COLUMN_INTENT = /^add\s+(not\s+null\s+)?column\s+(\S+)\s+(.+)$/i;
+const ADD_INDEX_INTENT = /^add\s+(unique\s+)?index\s+on\s+([^\s(]+)\s*\((.+)\)$/i;
+const ADD_CONSTRAINT_INTENT = /^add\s+(unique|primary\s+key)(?:\s+constraint)?\s+on\s+([^\s(]+)\s*\((.+)\)$/i;
+
+// Turn a description of a schema change into a sequence of steps that keep the locks short,
+// and analyze the locks of every step
+export async function planSchemaChange(
+  intent: string,
+  options: AnalysisOptions = {},
+  catalog?: SchemaCatalog | null
+): Promise<SchemaChangePlanResult> {
+  const context: PlanContext = { options, version: options.version || DEFAULT_PG_VERSION, catalog };
+  const text = intent.trim().replace(/;$/, '');
+  let draft: PlanDraft | string | undefined;
+
+  let match;
+  if ((match = text.match(CHANGE_TYPE_INTENT))) {
+    draft = planColumnTypeChange(match[1], match[3], context);
+  } else if ((match = text.match(ADD_COLUMN_INTENT))) {
+    draft = await planAddColumn(match[2], match[3], Boolean(match[1]), context);
+  } else if ((match = text.match(ADD_CONSTRAINT_INTENT))) {
+    draft = planUniqueConstraint(match[2], splitList(match[3]), /primary/i.test(match[1]));
+  } else if ((match = text.match(ADD_INDEX_INTENT))) {
+    draft = planIndex(match[2], splitList(match[3]), Boolean(match[1]));
+  }
+
+  if (!draft) {
+    return { error: `The change is not understood. Describe it like one of these: ${PLAN_INTENT_EXAMPLES.join('; ')}` };
+  }
+  if (typeof draft === 'string') {
+    return { error: draft };
+  }
+
+  const steps: PlanStep[] = [];
+  let previousSql = '';
+  for (const [index, step] of draft.steps.entries()) {
+    const sql = step.statements.map(statement => `${statement};`).join('\n');
+    // Every step is analyzed after the ones before it, e.g. SET NOT NULL after the check that proves it
+    const script = await parseScript(`${previousSql}${sql}`, options);
+    if (!script.isValid) {
+      return { error: `Step ${index + 1} (${step.title}) is not valid SQL: ${script.error}` };
+    }
+    previousSql = `${previousSql}${sql}\n`;
+
+    const statements = script.statements.slice(-step.statements.length);
+    const locks = statements.flatMap(statement => statement.locks);
+    steps.push({
+      title: step.title,
+      description: step.description,
+      sql,
+      statements,
+      peakLock: getStrongestLockMode(locks.map(lock => lock.lockMode)) || undefined,
+      duration: getLongestDuration([
+        ...locks.map(lock => lock.duration),
+        ...statements.map(statement => COMMAND_DURATIONS[statement.command])
+      ]) || 'instant',
+      batched: step.batched
+    });
+  }
+
+  return { plan: { title: draft.title, steps, notes: draft.notes } };
+}
+
+// A new column filled by a trigger and a backfill, swapped in for the old one in a short transaction
+function planColumnTypeChange(qualifiedColumn: string, type: string, context: PlanContext): PlanDraft | string {
+  const target = parseColumn(qualifiedColumn);
+  if (!target) {
+    return 'Name the column with its table, e.g. orders.amount';
+  }
+
+  const { table, column } = target;
+  const tableName = formatTableName(table);
+  const oldColumn = quote(column);
+  const newColumn = quote(`${column}_new`);
+  const syncFunction = quote(`${table.name}_${column}_sync`);
+  // Catalog index names are schema-qualified, the new index lives next to the old one
+  const indexes = findTableIndexes(table, context.catalog)
+    .filter(index => index.columns.includes(column))
+    .map(index => ({ ...index, name: parseQualifiedName(index.name).name }));
+  const notes: string[] = [
+    `If ${column} is NOT NULL, add CHECK (${column}_new IS NOT NULL) NOT VALID and validate it before the swap, then SET NOT NULL in the swap transaction.`,
+    `Defaults, constraints, views and foreign keys that use ${column} have to be recreated for the new column.`
+  ];
+
+  if (!context.catalog) {
+    notes.push(`Load the schema to get the indexes on ${column} rebuilt concurrently for the new column.`);
+  }
+  indexes.filter(index => index.partial).forEach(index => {
+    notes.push(`The partial index ${index.name} has to be rebuilt by hand with its WHERE clause.`);
+  });
+  const rebuiltIndexes = indexes.filter(index => !index.partial);
+
+  const steps: PlanStepDraft[] = [
+    getLockTimeoutStep(
+      'Add the new column',
+      `A column without a default only changes the catalog. It is filled while the application keeps using ${column}.`,
+      [`ALTER TABLE ${tableName} ADD COLUMN ${newColumn} ${type}`]
+    ),
+    getLockTimeoutStep(
+      'Keep the new column in sync',
+      'A trigger copies every inserted or updated value into the new column, so the backfill never falls behind.',
+      [
+        `CREATE FUNCTION ${syncFunction}() RETURNS trigger LANGUAGE plpgsql AS $$\nBEGIN\n  NEW.${newColumn} := NEW.${oldColumn};\n  RETURN NEW;\nEND\n$$`,
+        `CREATE TRIGGER ${syncFunction} BEFORE INSERT OR UPDATE ON ${tableName} FOR EACH ROW EXECUTE ${context.version < 11 ? 'PROCEDURE' : 'FUNCTION'} ${syncFunction}()`
+      ]
+    ),
+    getBackfillStep(table, context, `${newColumn} = ${oldColumn}`, `${newColumn} IS DISTINCT FROM ${oldColumn}`),
+    ...rebuiltIndexes.map(index => ({
+      title: `Build ${index.name} for the new column`,
+      description: 'The index is built without blocking writes. It must run outside of a transaction block.',
+      statements: [
+        `CREATE ${index.unique ? 'UNIQUE ' : ''}INDEX CONCURRENTLY ${quote(`${index.name}_new`)} ON ${tableName} (${index.columns.map(indexColumn => indexColumn === column ? newColumn : quote(indexColumn)).join(', ')})`
+      ]
+    })),
+    getLockTimeoutStep(
+      'Swap the columns',
+      'The old column is dropped and the new one takes its name. Both only change the catalog, so ACCESS EXCLUSIVE is held for a moment - lock_timeout gives up instead of queueing behind long queries.',
+      [
+        `DROP TRIGGER ${syncFunction} ON ${tableName}`,
+        `ALTER TABLE ${tableName} DROP COLUMN ${oldColumn}`,
+        `ALTER TABLE ${tableName} RENAME COLUMN ${newColumn} TO ${oldColumn}`,
+        ...rebuiltIndexes.map(index => `ALTER INDEX ${quote(`${index.name}_new`)} RENAME TO ${quote(index.name)}`),
+        ...rebuiltIndexes.filter(index => index.primary).map(index =>
+          `ALTER TABLE ${tableName} ADD CONSTRAINT ${quote(index.name)} PRIMARY KEY USING INDEX ${quote(index.name)}`
+        )
+      ]
+    ),
+    {
+      title: 'Drop the sync function',
+      description: 'Nothing uses the function once the trigger is gone.',
+      statements: [`DROP FUNCTION ${syncFunction}()`]
+    }
+  ];
+
+  return { title: `Change the type of ${tableName}.${oldColumn} to ${type}`, steps, notes };
+}
+
+// Columns whose default only lives in the catalog are added in one step. Otherwise the
+// column is added empty, backfilled in batches, and NOT NULL is proven by a validated CHECK.
+async function planAddColumn(
+  qualifiedColumn: string,
+  definition: string,
+  notNullPrefix: boolean,
+  context: PlanContext
+): Promise<PlanDraft | string> {
+  const target = parseColumn(qualifiedColumn);
+  if (!target) {
+    return 'Name the column with its table, e.g. orders.status';
+  }
+
+  const { table, column } = target;
+  const tableName = formatTableName(table);
+  const quotedColumn = quote(column);
+  const defaultMatch = definition.match(/^(.*?)\s+(?:with\s+)?default\s+(.+)$/i);
+  const typeWithConstraints = defaultMatch ? defaultMatch[1] : definition;
+  const defaultValue = defaultMatch?.[2];
+  const notNull = notNullPrefix || /\bnot\s+null\b/i.test(typeWithConstraints);
+  const type = typeWithConstraints.replace(/\s*\bnot\s+null\b/i, '').trim();
+  const title = `Add ${notNull ? 'the NOT NULL column' : 'the column'} ${tableName}.${quotedColumn}`;
+
+  if (notNull && !defaultValue) {
+    return 'A NOT NULL column needs a default for the rows that already exist';
+  }
+
+  const oneStep = `ALTER TABLE ${tableName} ADD COLUMN ${quotedColumn} ${type}${notNull ? ' NOT NULL' : ''}${defaultValue ? ` DEFAULT ${defaultValue}` : ''}`;
+  const parsed = await parseSQL(oneStep, context.options);
+  if (!parsed.isValid) {
+    return `The column definition is not valid SQL: ${parsed.error}`;
+  }
+
+  const action = parsed.actions?.[0];
+  if (action?.duration === 'instant') {
+    return {
+      title,
+      steps: [
+        getLockTimeoutStep(
+          'Add the column',
+          'The default only lives in the catalog, so existing rows are not touched and ACCESS EXCLUSIVE is held for a moment.',
+          [oneStep]
+        )
+      ],
+      notes: []
+    };
+  }
+
+  const checkName = quote(`${table.name}_${column}_not_null`);
+  const steps: PlanStepDraft[] = [
+    getLockTimeoutStep(
+      'Add the column without a default',
+      'A column without a default only changes the catalog.',
+      [`ALTER TABLE ${tableName} ADD COLUMN ${quotedColumn} ${type}`]
+    ),
+    getLockTimeoutStep(
+      'Set the default for new rows',
+      'Changing a default never touches the existing rows.',
+      [`ALTER TABLE ${tableName} ALTER COLUMN ${quotedColumn} SET DEFAULT ${defaultValue}`]
+    ),
+    getBackfillStep(table, context, `${quotedColumn} = ${defaultValue}`, `${quotedColumn} IS NULL`)
+  ];
+
+  if (notNull) {
+    steps.push(
+      getLockTimeoutStep(
+        'Add a NOT VALID check for NULLs',
+        'NOT VALID only checks new rows, so the constraint is added in an instant.',
+        [`ALTER TABLE ${tableName} ADD CONSTRAINT ${checkName} CHECK (${quotedColumn} IS NOT NULL) NOT VALID`]
+      ),
+      {
+        title: 'Validate the check',
+        description: 'The existing rows are checked under SHARE UPDATE EXCLUSIVE, which lets reads and writes continue.',
+        statements: [`ALTER TABLE ${tableName} VALIDATE CONSTRAINT ${checkName}`]
+      },
+      getLockTimeoutStep(
+        'Set NOT NULL',
+        context.version >= 12
+          ? 'SET NOT NULL uses the validated check instead of scanning the table, and the check is no longer needed.'
+          : 'Before PostgreSQL 12, SET NOT NULL scans the table even with the validated check in place.',
+        [
+          `ALTER TABLE ${tableName} ALTER COLUMN ${quotedColumn} SET NOT NULL`,
+          `ALTER TABLE ${tableName} DROP CONSTRAINT ${checkName}`
+        ]
+      )
+    );
+  }
+
+  return {
+    title,
+    steps,
+    notes: action?.durationNote ? [`Adding the column in one statement would rewrite the table: ${action.durationNote}.`] : []
+  };
+}
+
+function planIndex(qualifiedTable: string, columns: string[], unique: boolean): PlanDraft {
+  const table = parseQualifiedName(qualifiedTable);
+  const name = quote(`${table.name}_${columns.join('_')}_${unique ? 'key' : 'idx'}`);
+
+  return {
+    title: `Add ${unique ? 'a unique index' : 'an index'} on ${formatTableName(table)}`,
+    steps: [
+      {
+        title: 'Build the index concurrently',
+        description: 'The index is built without blocking writes. It must run outside of a transaction block.',
+        statements: [`CREATE ${unique ? 'UNIQUE ' : ''}INDEX CONCURRENTLY ${name} ON ${formatTableName(table)} (${columns.map(quote).join(', ')})`]
+      }
+    ],
+    notes: ['A failed concurrent build leaves an INVALID index behind - drop it with DROP INDEX CONCURRENTLY before retrying.']
+  };
+}
+
+function planUniqueConstraint(qualifiedTable: string, columns: string[], isPrimaryKey: boolean): PlanDraft {
+  const table = parseQualifiedName(qualifiedTable);
+  const tableName = formatTableName(table);
+  const name = quote(isPrimaryKey ? `${table.name}_pkey` : `${table.name}_${columns.join('_')}_key`);
+  const index = planIndex(qualifiedTable, columns, true);
+  index.steps[0].statements = [`CREATE UNIQUE INDEX CONCURRENTLY ${name} ON ${tableName} (${columns.map(quote).join(', ')})`];
+
+  return {
+    title: `Add ${isPrimaryKey ? 'a primary key' : 'a unique constraint'} on ${tableName}`,
+    steps: [
+      ...index.steps,
+      getLockTimeoutStep(
+        'Add the constraint using the index',
+        'USING INDEX turns the existing index into the constraint without building anything.',
+        [`ALTER TABLE ${tableName} ADD CONSTRAINT ${name} ${isPrimaryKey ? 'PRIMARY KEY' : 'UNIQUE'} USING INDEX ${name}`]
+      )
+    ],
+    notes: [
+      ...index.notes,
+      ...(isPrimaryKey ? ['The primary key columns must already be NOT NULL, otherwise adding the constraint scans the table.'] : [])
+    ]
+  };
+}
+
+// Integer keys are updated in ranges of values, other unique keys in the next rows in key order,
+// and tables without a key in the next rows of the heap
+function getBackfillStep(table: TableReference, context: PlanContext, assignment: string, condition: string): PlanStepDraft {
+  const tableName = formatTableName(table);
+  const keyColumn = getKeyColumn(table, context.options);
+  const catalogTable = findCatalogTable(table, context.catalog);
+  const description = 'Every batch is its own short transaction that only locks the rows it updates.';
+
+  // Without the table definition, the key is taken to be an integer
+  if (!catalogTable || INTEGER_TYPES.has(catalogTable.columnTypes[keyColumn])) {
+    return {
+      title: 'Backfill in batches',
+      description: `${description} Repeat it for the next ${BATCH_SIZE} values of ${keyColumn} until the whole table is done.`,
+      statements: [`UPDATE ${tableName} SET ${assignment} WHERE ${quote(keyColumn)} BETWEEN 1 AND ${BATCH_SIZE} AND ${condition}`],
+      batched: true
+    };
+  }
+
+  if (catalogTable.columns.includes(keyColumn)) {
+    return {
+      title: 'Backfill in batches',
+      description: `${description} ${keyColumn} is not an integer, so every batch takes the next ${BATCH_SIZE} rows in ${keyColumn} order that still need the change - repeat it until it updates no rows.`,
+      statements: [
+        `UPDATE ${tableName} SET ${assignment} WHERE ${quote(keyColumn)} IN (SELECT ${quote(keyColumn)} FROM ${tableName} WHERE ${condition} ORDER BY ${quote(keyColumn)} LIMIT ${BATCH_SIZE})`
+      ],
+      batched: true
+    };
+  }
+
+  return {
+    title: 'Backfill in batches',
+    description: `${description} ${tableName} has no unique key, so every batch takes ${BATCH_SIZE} rows that still need the change by their physical location (ctid) - repeat it until it updates no rows.`,
+    statements: [
+      `UPDATE ${tableName} SET ${assignment} WHERE ctid = ANY (ARRAY(SELECT ctid FROM ${tableName} WHERE ${condition} LIMIT ${BATCH_SIZE}))`
+    ],
+    batched: true
+  };
+}
+
+// Statements whose locks block writes run in one short transaction that gives up instead of
+// queueing behind long-running queries - and blocking everything queued behind it
+function getLockTimeoutStep(title: string, description: string, statements: string[]): PlanStepDraft {
+  return {
+    title,
+    description,
+    statements: ['BEGIN', `SET LOCAL lock_timeout = '${LOCK_TIMEOUT}'`, ...statements, 'COMMIT']
+  };
+}
+
+function parseColumn(qualifiedColumn: string): { table: TableReference; column: string } | undefined {
+  const parts = parseQualifiedName(qualifiedColumn);
+  if (!parts.schema) {
+    return undefined;
+  }
+  // table.column parses as schema.name, schema.table.column as catalog.schema.name
+  return {
+    table: { schema: parts.catalog, name: parts.schema },
+    column: parts.name
+  };
+}
+
+// A catalog table without unique indexes has no key columns
+function getKeyColumn(table: TableReference, options: AnalysisOptions): string {
+  const keyColumns = options.keyColumns?.[formatTableName({ schema: table.schema || 'public', name: table.name })]
+    || options.keyColumns?.[table.name];
+  return (keyColumns?.length ? keyColumns : DEFAULT_KEY_COLUMNS)[0];
+}
+
+function findCatalogTable(table: TableReference, catalog?: SchemaCatalog | null): CatalogTable | undefined {
+  return catalog?.tables[formatTableName({ schema: table.schema || 'public', name: table.name })];
+}
+
+function findTableIndexes(table: TableReference, catalog?: SchemaCatalog | null) {
+  return findCatalogTable(table, catalog)?.indexes || [];
+}
+
+function splitList(value: string): string[] {
+  return value.split(',').map(item => item.trim()).filter(Boolean);
+}
+
+function quote(identifier: string): string {
+  return formatTableName({ name: identifier });
+}
@@ -1,8 +1,33 @@
-import { LockInfo, COMMAND_LOCKS, getLockAnalysis as getLockAnalysisFromData, LOCK_MODES } from './lockData';
+import {
+  LockInfo,
+  COMMAND_LOCKS,
+  getLockAnalysis as getLockAnalysisFromData,
+  LOCK_MODES,
+  getLockStrength,
+  getStrongestLockMode,
+  ALTER_TABLE_SUBCOMMANDS,
+  ALTER_TABLE_CONSTRAINTS,
+  getReloptionLockMode,
+  LOCK_MODE_ORDER,
+  COMMAND_ROW_LOCKS,
+  getRowLockStrength,
+  DEFAULT_PG_VERSION,
+  getLockRuleChange,
+  LockRuleChange,
+  LockDuration,
+  getLongestDuration,
+  ALTER_TABLE_DURATIONS,
+  ALTER_TABLE_DURATION_NOTES,
+  VOLATILE_FUNCTIONS
+} from './lockData';
 
 export interface ParsedQuery {
   command: string;
   tables: string[];
+  relations?: TableReference[];
+  actions?: AlterTableAction[];
+  routines?: RoutineCall[];
+  notes?: string[];
   isValid: boolean;
   error?: string;
 }
@@ -10,88 +35,107 @@ export interface ParsedQuery {
 
 // Import @supabase/pg-parser for browser-compatible AST parsing
 import { PgParser } from '@supabase/pg-parser';
+import { analyzeFunctionBody } from './functionAnalysis';
 
-// Initialize parser instance with proper async handling
-let parser: PgParser | null = null;
-let parserInitialized = false;
+// Parser builds exist for PostgreSQL 15 to 17 - older versions are parsed with the oldest
+// build, as their grammar is a subset of it for the statements analyzed here
+const PARSER_VERSIONS = [15, 16, 17] as const;
+type ParserVersion = typeof PARSER_VERSIONS[number];
 
-async function initParser(): Promise<PgParser> {
-  if (!parser && !parserInitialized) {
-    parserInitialized = true;
-    try {
-      parser = new PgParser(); // Defaults to PostgreSQL version 17
+function getParserVersion(version: number): ParserVersion {
+  return PARSER_VERSIONS.find(parserVersion => parserVersion >= version) || PARSER_VERSIONS[PARSER_VERSIONS.length - 1];
+}
 
-      // Test the parser with a simple query to ensure WASM is loaded
-      const testResult = await parser.parse('SELECT 1;');
+// One parser instance per build, initialized on first use
+const parsers = new Map<ParserVersion, PgParser<ParserVersion>>();
 
-      // Check if the result indicates an error
-      if (testResult && typeof testResult === 'object' && 'error' in testResult && testResult.error) {
-        const errorMessage = typeof testResult.error === 'string' ? testResult.error : String(testResult.error);
-        throw new Error(`Parser test failed: ${errorMessage}`);
-      }
+async function initParser(version: number = DEFAULT_PG_VERSION): Promise<PgParser<ParserVersion>> {
+  const parserVersion = getParserVersion(version);
+  const existing = parsers.get(parserVersion);
+  if (existing) {
+    return existing;
+  }
 
-      // Check if we got a valid tree result
-      if (!testResult || typeof testResult !== 'object' || !('tree' in testResult) || !testResult.tree) {
-        throw new Error('Parser test failed: No valid AST tree returned');
-      }
-    } catch (error) {
-      parser = null;
-      parserInitialized = false;
-      throw error;
-    }
+  const parser = new PgParser<ParserVersion>({ version: parserVersion });
+
+  // Test the parser with a simple query to ensure WASM is loaded
+  const testResult = await parser.parse('SELECT 1;');
+
+  // Check if the result indicates an error
+  if (testResult && typeof testResult === 'object' && 'error' in testResult && testResult.error) {
+    const errorMessage = typeof testResult.error === 'string' ? testResult.error : String(testResult.error);
+    throw new Error(`Parser test failed: ${errorMessage}`);
   }
 
-  if (!parser) {
-    throw new Error('Parser not initialized');
+  // Check if we got a valid tree result
+  if (!testResult || typeof testResult !== 'object' || !('tree' in testResult) || !testResult.tree) {
+    throw new Error('Parser test failed: No valid AST tree returned');
   }
 
+  parsers.set(parserVersion, parser);
   return parser;
 }
 
-export async function parseSQL(query: string): Promise<ParsedQuery> {
-  try {
-    const cleanQuery = query.trim();
-    if (!cleanQuery) {
-      return { command: '', tables: [], isValid: false, error: 'Query cannot be empty' };
-    }
+// Shared by everything that parses SQL, e.g. the schema catalog import
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export async function parseToAST(cleanQuery: string, version?: number): Promise<{ ast?: any; error?: string }> {
+  // Get the parser instance for the PostgreSQL version
+  const parserInstance = await initParser(version);
 
-    // Get parser instance (now async)
-    const parserInstance = await initParser();
+  // Ensure query ends with semicolon (required by pg parsers)
+  const queryWithSemicolon = cleanQuery.endsWith(';') ? cleanQuery : cleanQuery + ';';
 
-    // Ensure query ends with semicolon (required by pg parsers)
-    const queryWithSemicolon = cleanQuery.endsWith(';') ? cleanQuery : cleanQuery + ';';
+  // Parse SQL to AST using @supabase/pg-parser
+  const result = await parserInstance.parse(queryWithSemicolon);
 
-    // Parse SQL to AST using @supabase/pg-parser
-    const result = await parserInstance.parse(queryWithSemicolon);
+  // Check if parsing failed
+  if (result && typeof result === 'object' && 'error' in result && result.error) {
+    const errorMessage = typeof result.error === 'string' ? result.error : String(result.error);
+    return { error: errorMessage };
+  }
 
-    // Check if parsing failed
-    if (result && typeof result === 'object' && 'error' in result && result.error) {
-      const errorMessage = typeof result.error === 'string' ? result.error : String(result.error);
-      return { command: '', tables: [], isValid: false, error: errorMessage };
-    }
+  // Extract the AST tree
+  let ast;
+  if (result && typeof result === 'object' && 'tree' in result) {
+    ast = result.tree;
+  } else {
+    // Maybe the result IS the tree directly?
+    ast = result;
+  }
 
-    // Extract the AST tree
-    let ast;
-    if (result && typeof result === 'object' && 'tree' in result) {
-      ast = result.tree;
-    } else {
-      // Maybe the result IS the tree directly?
-      ast = result;
+  if (!ast || !ast.stmts || ast.stmts.length === 0) {
+    return { error: 'No statements found in query' };
+  }
+
+  return { ast };
+}
+
+export async function parseSQL(query: string, options: AnalysisOptions = {}): Promise<ParsedQuery> {
+  try {
+    const cleanQuery = query.trim();
+    if (!cleanQuery) {
+      return { command: '', tables: [], isValid: false, error: 'Query cannot be empty' };
     }
 
-    if (!ast || !ast.stmts || ast.stmts.length === 0) {
-      return { command: '', tables: [], isValid: false, error: 'No statements found in query' };
+    const { ast, error } = await parseToAST(cleanQuery, options.version);
+    if (error) {
+      return { command: '', tables: [], isValid: false, error };
     }
 
-    // Process the first statement (support for single statements for now)
+    // Process the first statement only - use parseScript to analyze every statement
     const statement = ast.stmts[0].stmt;
 
     // Extract command and tables from AST
-    const extractionResult = extractFromAST(statement);
+    const extractionResult = extractFromAST(statement, options.version);
+    const routines = await resolveRoutines(extractionResult, options.functions || {}, options.version);
 
     return {
       command: extractionResult.command,
       tables: extractionResult.tables,
+      relations: extractionResult.relations,
+      actions: extractionResult.actions,
+      routines,
+      notes: getStatementNotes(extractionResult, routines, options.version),
       isValid: true
     };
   } catch (error) {
@@ -104,82 +148,382 @@ export async function parseSQL(query: string): Promise<ParsedQuery> {
   }
 }
 
+export interface ParsedStatement {
+  sql: string;
+  command: string;
+  tables: string[];
+  relations: TableReference[];
+  actions?: AlterTableAction[];
+  routines?: RoutineCall[];
+  notes?: string[];
+  locks: TableLockInfo[];
+  searchPath: string[];
+  timeouts?: TimeoutSettings; // timeouts in effect when the statement runs
+  trailingComment?: string; // comment after the semicolon on the same line - the text of the next statement starts with it
+  savepoint?: string;
+  chain?: boolean;
+}
+
+export interface ParsedScript {
+  statements: ParsedStatement[];
+  isValid: boolean;
+  error?: string;
+}
+
+// lock_timeout and statement_timeout, e.g. '5s' - unset when disabled
+export interface TimeoutSettings {
+  lockTimeout?: string;
+  statementTimeout?: string;
+}
+
+const TIMEOUT_SETTINGS: Record<string, keyof TimeoutSettings> = {
+  lock_timeout: 'lockTimeout',
+  statement_timeout: 'statementTimeout'
+};
+
+// Parse a multi-statement script (e.g. a migration file) and analyze every statement in it
+export async function parseScript(script: string, options: AnalysisOptions = {}): Promise<ParsedScript> {
+  try {
+    const cleanScript = script.trim();
+    if (!cleanScript) {
+      return { statements: [], isValid: false, error: 'Query cannot be empty' };
+    }
+
+    const { ast, error } = await parseToAST(cleanScript, options.version);
+    if (error) {
+      return { statements: [], isValid: false, error };
+    }
+
+    // SET search_path changes how the following statements resolve unqualified names,
+    // SET LOCAL only until the end of the current transaction. Outside of a transaction
+    // block, SET LOCAL only raises a warning and changes nothing.
+    const defaultSearchPath = options.searchPath || DEFAULT_SEARCH_PATH;
+    let sessionSearchPath = defaultSearchPath;
+    let localSearchPath: string[] | null = null;
+    // SET lock_timeout / statement_timeout are tracked the same way
+    let sessionTimeouts: TimeoutSettings = {};
+    let localTimeouts: TimeoutSettings = {};
+    let inTransactionBlock = false;
+    // ROLLBACK reverts even plain SETs to the settings at BEGIN, ROLLBACK TO SAVEPOINT to the ones
+    // at the savepoint. PREPARE TRANSACTION keeps them, like COMMIT.
+    const getSettings = (): ScriptSettings => ({ sessionSearchPath, localSearchPath, sessionTimeouts, localTimeouts });
+    const restoreSettings = (settings: ScriptSettings) => {
+      ({ sessionSearchPath, localSearchPath, sessionTimeouts, localTimeouts } = settings);
+    };
+    let transactionStart: ScriptSettings | null = null;
+    let savepoints: Array<{ name?: string; settings: ScriptSettings }> = [];
+    // Functions created by the script can be called by its later statements
+    const functions = { ...options.functions };
+    // CHECK (column IS NOT NULL) constraints added by the script, keyed by table
+    const notNullChecks = new Map<string, NotNullCheck[]>();
+
+    const statements: ParsedStatement[] = [];
+    for (const rawStmt of ast.stmts) {
+      const extractionResult = extractFromAST(rawStmt.stmt, options.version);
+      applyNotNullChecks(extractionResult, notNullChecks, options.version || DEFAULT_PG_VERSION);
+      const { setting } = extractionResult;
+      const timeout = setting && TIMEOUT_SETTINGS[setting.name];
+
+      if (setting && setting.name === 'search_path') {
+        const searchPath = setting.isReset ? defaultSearchPath : setting.values;
+        if (!setting.isLocal) {
+          sessionSearchPath = searchPath;
+          localSearchPath = null;
+        } else if (inTransactionBlock) {
+          localSearchPath = searchPath;
+        }
+      } else if (setting && timeout) {
+        const value = setting.isReset ? undefined : getTimeoutValue(setting.values);
+        if (!setting.isLocal) {
+          sessionTimeouts = { ...sessionTimeouts, [timeout]: value };
+          localTimeouts = withoutTimeout(localTimeouts, timeout);
+        } else if (inTransactionBlock) {
+          localTimeouts = { ...localTimeouts, [timeout]: value };
+        }
+      } else if (['BEGIN', 'START TRANSACTION'].includes(extractionResult.command)) {
+        if (!inTransactionBlock) {
+          transactionStart = getSettings();
+          savepoints = [];
+        }
+        inTransactionBlock = true;
+      } else if (extractionResult.command === 'SAVEPOINT' && inTransactionBlock) {
+        savepoints.push({ name: extractionResult.savepoint, settings: getSettings() });
+      } else if (['RELEASE SAVEPOINT', 'ROLLBACK TO SAVEPOINT'].includes(extractionResult.command)) {
+        const index = savepoints.map(savepoint => savepoint.name).lastIndexOf(extractionResult.savepoint);
+        if (index >= 0 && extractionResult.command === 'ROLLBACK TO SAVEPOINT') {
+          restoreSettings(savepoints[index].settings);
+          savepoints = savepoints.slice(0, index + 1);
+        } else if (index >= 0) {
+          savepoints = savepoints.slice(0, index);
+        }
+      } else if (['COMMIT', 'ROLLBACK', 'PREPARE TRANSACTION'].includes(extractionResult.command)) {
+        if (extractionResult.command === 'ROLLBACK' && transactionStart) {
+          restoreSettings(transactionStart);
+        }
+        localSearchPath = null;
+        localTimeouts = {};
+        inTransactionBlock = Boolean(extractionResult.chain);
+        transactionStart = inTransactionBlock ? getSettings() : null;
+        savepoints = [];
+      }
+
+      const searchPath = localSearchPath || sessionSearchPath;
+      const timeouts = getEffectiveTimeouts(sessionTimeouts, localTimeouts);
+
+      const routines = await resolveRoutines(extractionResult, functions, options.version);
+      const { createdFunction } = extractionResult;
+      if (createdFunction) {
+        functions[createdFunction.name] = await analyzeFunctionBody(
+          createdFunction.body.text,
+          createdFunction.body.language,
+          options.version
+        );
+      }
+
+      statements.push({
+        sql: getStatementText(cleanScript, rawStmt.stmt_location, rawStmt.stmt_len),
+        command: extractionResult.command,
+        tables: extractionResult.tables,
+        relations: extractionResult.relations,
+        actions: extractionResult.actions,
+        routines,
+        notes: getStatementNotes(extractionResult, routines, options.version),
+        locks: getStatementLockAnalysis(
+          { relations: extractionResult.relations, command: extractionResult.command, actions: extractionResult.actions, routines },
+          { ...options, functions, searchPath }
+        ),
+        searchPath,
+        timeouts,
+        trailingComment: getTrailingComment(cleanScript, rawStmt.stmt_location, rawStmt.stmt_len),
+        savepoint: extractionResult.savepoint,
+        chain: extractionResult.chain
+      });
+    }
+
+    return { statements, isValid: true };
+  } catch (error) {
+    return {
+      statements: [],
+      isValid: false,
+      error: `Parse error: ${error instanceof Error ? error.message : 'Unknown error'}`
+    };
+  }
+}
+
+// The settings parseScript tracks from statement to statement
+interface ScriptSettings {
+  sessionSearchPath: string[];
+  localSearchPath: string[] | null;
+  sessionTimeouts: TimeoutSettings;
+  localTimeouts: TimeoutSettings;
+}
+
+// Integer timeouts are in milliseconds, and 0 turns the timeout off
+function getTimeoutValue(values: string[]): string | undefined {
+  const value = values[0]?.trim();
+  if (!value || /^0+(?:\.0*)?\s*[a-z]*$/i.test(value)) {
+    return undefined;
+  }
+  return /^\d+$/.test(value) ? `${value}ms` : value;
+}
+
+function withoutTimeout(timeouts: TimeoutSettings, timeout: keyof TimeoutSettings): TimeoutSettings {
+  const rest = { ...timeouts };
+  delete rest[timeout];
+  return rest;
+}
+
+// SET LOCAL values override the session ones until the transaction ends
+function getEffectiveTimeouts(session: TimeoutSettings, local: TimeoutSettings): TimeoutSettings | undefined {
+  const timeouts = { ...session, ...local };
+  const entries = Object.entries(timeouts).filter(([, value]) => value !== undefined);
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+}
+
+// Statement locations reported by the parser are UTF-8 byte offsets, not string indexes
+function getStatementText(script: string, location: number = 0, length: number = 0): string {
+  const bytes = new TextEncoder().encode(script);
+  const end = length > 0 ? location + length : bytes.length;
+  const text = new TextDecoder().decode(bytes.slice(location, end)).trim();
+
+  return text.endsWith(';') ? text.slice(0, -1).trimEnd() : text;
+}
+
+// The last statement runs to the end of the script, so its text already has any trailing comment
+function getTrailingComment(script: string, location: number = 0, length: number = 0): string | undefined {
+  if (length === 0) {
+    return undefined;
+  }
+  const rest = new TextDecoder().decode(new TextEncoder().encode(script).slice(location + length));
+  return rest.match(/^[ \t]*;[ \t]*(--[^\n]*)/)?.[1].trimEnd();
+}
+
+// Where a table appears in a statement - the target of the command, a table it reads
+// from, or one it locks as a side effect such as the table referenced by a foreign key
+export type TableRole = 'target' | 'source' | 'subquery' | 'cte' | 'referenced' | 'referencing' | 'partition' | 'parent';
+
+// A table appearing in several places keeps the first of its roles in this order
+const TABLE_ROLE_PRIORITY: TableRole[] = ['target', 'partition', 'parent', 'referenced', 'referencing', 'source', 'cte', 'subquery'];
+
+function isMoreSignificantRole(role: TableRole | undefined, existing: TableRole | undefined): boolean {
+  if (!role) {
+    return false;
+  }
+  return !existing || TABLE_ROLE_PRIORITY.indexOf(role) < TABLE_ROLE_PRIORITY.indexOf(existing);
+}
+
+export interface TableReference {
+  catalog?: string;
+  schema?: string;
+  name: string;
+  role?: TableRole;
+  // Lock the statement takes on this table when it can't be derived from the command alone
+  lockMode?: string;
+  only?: boolean; // ONLY - descendant tables are not included
+  nowait?: boolean; // LOCK ... NOWAIT / FOR UPDATE NOWAIT - fail instead of waiting for the lock
+  skipLocked?: boolean; // FOR UPDATE SKIP LOCKED - rows locked by others are skipped
+  // Row lock taken on the rows of this table when it can't be derived from the command alone
+  rowLock?: string;
+  updatedColumns?: string[];
+  cte?: string; // WITH query that modifies this table
+  index?: string; // index the statement creates, rebuilds or drops
+  cascade?: boolean; // DROP ... CASCADE / TRUNCATE ... CASCADE
+  duration?: LockDuration; // whether the statement scans or rewrites the table while holding the lock
+}
+
+// A single subcommand of a (multi-action) ALTER TABLE statement
+export interface AlterTableAction {
+  action: string;
+  target?: string; // column, constraint, trigger, partition, ... the action applies to
+  index?: string; // existing index a PRIMARY KEY or UNIQUE constraint is added USING
+  notNullCheck?: NotNullCheck; // an added CHECK (column IS NOT NULL) constraint
+  lockMode: string;
+  duration: LockDuration;
+  durationNote?: string; // why the action scans or rewrites, or how to avoid it
+}
+
+export interface NotNullCheck {
+  name?: string;
+  column: string;
+  validated: boolean;
+}
+
+// Tables referenced by a statement, keyed by their display name
+type TableSet = Map<string, TableReference>;
+
 interface ASTExtractionResult {
   command: string;
   tables: string[];
+  relations: TableReference[];
+  actions?: AlterTableAction[];
+  savepoint?: string;
+  chain?: boolean;
+  setting?: VariableSetting;
+  routineBody?: RoutineBody; // body of a DO block
+  createdFunction?: { name: string; body: RoutineBody };
+  functionCalls?: string[];
+}
+
+export interface RoutineBody {
+  language: string;
+  text: string;
 }
 
+// A DO block run by a statement, or a function or procedure it calls
+export interface RoutineCall {
+  name: string;
+  definition?: FunctionDefinition; // undefined when the function isn't known
+}
+
+export interface VariableSetting {
+  name: string;
+  values: string[];
+  isLocal: boolean;
+  isReset: boolean;
+}
+
+// Transaction control commands, keyed by TransactionStmt kind
+const TRANSACTION_COMMANDS: Record<string, string> = {
+  TRANS_STMT_BEGIN: 'BEGIN',
+  TRANS_STMT_START: 'START TRANSACTION',
+  TRANS_STMT_COMMIT: 'COMMIT',
+  TRANS_STMT_ROLLBACK: 'ROLLBACK',
+  TRANS_STMT_SAVEPOINT: 'SAVEPOINT',
+  TRANS_STMT_RELEASE: 'RELEASE SAVEPOINT',
+  TRANS_STMT_ROLLBACK_TO: 'ROLLBACK TO SAVEPOINT',
+  TRANS_STMT_PREPARE: 'PREPARE TRANSACTION',
+  TRANS_STMT_COMMIT_PREPARED: 'COMMIT PREPARED',
+  TRANS_STMT_ROLLBACK_PREPARED: 'ROLLBACK PREPARED'
+};
+
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
-function extractFromAST(statement: any): ASTExtractionResult {
-  const tables: Set<string> = new Set();
+function extractFromAST(statement: any, version?: number): ASTExtractionResult {
+  const tables: TableSet = new Map();
   const cteNames: Set<string> = new Set();
   let command = '';
+  let actions: AlterTableAction[] | undefined;
+
+  // Handle WITH clauses (CTEs) first - collect CTE names and extract underlying tables.
+  // The WITH clause belongs to the statement node itself, e.g. statement.InsertStmt.withClause
+  const statementNode = Object.values(statement)[0];
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const withClause = statementNode && typeof statementNode === 'object' ? (statementNode as any).withClause : undefined;
+  if (withClause) {
+    extractTablesFromCTE(withClause, tables, cteNames);
+  }
+
+  // Transaction control statements don't lock any tables themselves
+  if (statement.TransactionStmt) {
+    return {
+      command: TRANSACTION_COMMANDS[statement.TransactionStmt.kind] || 'UNKNOWN',
+      tables: [],
+      relations: [],
+      savepoint: statement.TransactionStmt.savepoint_name,
+      chain: statement.TransactionStmt.chain
+    };
+  }
 
-  // Handle WITH clauses (CTEs) first - collect CTE names and extract underlying tables
-  if (statement.withClause) {
-    extractTablesFromCTE(statement.withClause, tables, cteNames);
+  // SET / RESET of run-time parameters such as search_path
+  if (statement.VariableSetStmt) {
+    return {
+      command: statement.VariableSetStmt.kind === 'VAR_RESET' ? 'RESET' : 'SET',
+      tables: [],
+      relations: [],
+      setting: extractVariableSetting(statement.VariableSetStmt)
+    };
   }
 
   // Determine statement type and extract information
   if (statement.SelectStmt) {
-    // Handle WITH clause for SELECT statements
-    if (statement.SelectStmt.withClause) {
-      extractTablesFromCTE(statement.SelectStmt.withClause, tables, cteNames);
-    }
     command = analyzeSelectStatement(statement.SelectStmt, tables, cteNames);
   } else if (statement.InsertStmt) {
     command = analyzeInsertStatement(statement.InsertStmt, tables, cteNames);
   } else if (statement.UpdateStmt) {
-    command = 'UPDATE';
-    extractTableFromRelation(statement.UpdateStmt.relation, tables);
-    // Extract tables from FROM clause (for JOINs in UPDATE)
-    if (statement.UpdateStmt.fromClause) {
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      statement.UpdateStmt.fromClause.forEach((fromItem: any) => {
-        extractTablesFromFromClause(fromItem, tables, cteNames);
-      });
-    }
-    // Extract tables from WHERE clause subqueries
-    if (statement.UpdateStmt.whereClause) {
-      extractTablesFromExpression(statement.UpdateStmt.whereClause, tables, cteNames);
-    }
-    // Extract tables from SET clause expressions
-    if (statement.UpdateStmt.targetList) {
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      statement.UpdateStmt.targetList.forEach((target: any) => {
-        if (target.ResTarget && target.ResTarget.val) {
-          extractTablesFromExpression(target.ResTarget.val, tables, cteNames);
-        }
-      });
-    }
+    command = analyzeUpdateStatement(statement.UpdateStmt, tables, cteNames);
   } else if (statement.DeleteStmt) {
-    command = 'DELETE';
-    extractTableFromRelation(statement.DeleteStmt.relation, tables);
-    // Extract tables from USING clause
-    if (statement.DeleteStmt.usingClause) {
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      statement.DeleteStmt.usingClause.forEach((fromItem: any) => {
-        extractTablesFromFromClause(fromItem, tables, cteNames);
-      });
-    }
-    // Extract tables from WHERE clause subqueries
-    if (statement.DeleteStmt.whereClause) {
-      extractTablesFromExpression(statement.DeleteStmt.whereClause, tables, cteNames);
-    }
+    command = analyzeDeleteStatement(statement.DeleteStmt, tables, cteNames);
   } else if (statement.IndexStmt) {
     command = statement.IndexStmt.concurrent ? 'CREATE INDEX CONCURRENTLY' : 'CREATE INDEX';
-    extractTableFromRelation(statement.IndexStmt.relation, tables);
+    const table = extractTableFromRelation(statement.IndexStmt.relation, tables, 'target');
+    const reference = table ? tables.get(table) : undefined;
+    if (reference && statement.IndexStmt.idxname) {
+      reference.index = statement.IndexStmt.idxname;
+    }
   } else if (statement.CreateTrigStmt) {
     command = 'CREATE TRIGGER';
-    extractTableFromRelation(statement.CreateTrigStmt.relation, tables);
+    extractTableFromRelation(statement.CreateTrigStmt.relation, tables, 'target');
   } else if (statement.RefreshMatViewStmt) {
     command = statement.RefreshMatViewStmt.concurrent ?
       'REFRESH MATERIALIZED VIEW CONCURRENTLY' : 'REFRESH MATERIALIZED VIEW';
-    extractTableFromRelation(statement.RefreshMatViewStmt.relation, tables);
+    extractTableFromRelation(statement.RefreshMatViewStmt.relation, tables, 'target');
   } else if (statement.DropStmt) {
     if (statement.DropStmt.removeType === 'OBJECT_TABLE') {
       command = 'DROP TABLE';
       extractTablesFromDropStmt(statement.DropStmt, tables);
+    } else if (statement.DropStmt.removeType === 'OBJECT_INDEX') {
+      // The index is reported until the table it belongs to is known
+      command = statement.DropStmt.concurrent ? 'DROP INDEX CONCURRENTLY' : 'DROP INDEX';
+      extractTablesFromDropStmt(statement.DropStmt, tables);
     } else {
       command = 'DROP';
     }
@@ -187,82 +531,221 @@ function extractFromAST(statement: any): ASTExtractionResult {
     command = 'TRUNCATE';
     extractTablesFromTruncateStmt(statement.TruncateStmt, tables);
   } else if (statement.AlterTableStmt) {
-    command = analyzeAlterTableStatement(statement.AlterTableStmt, tables);
+    const alterTable = analyzeAlterTableStatement(statement.AlterTableStmt, tables, version);
+    command = alterTable.command;
+    actions = alterTable.actions;
+  } else if (statement.RenameStmt) {
+    command = analyzeRenameStatement(statement.RenameStmt, tables);
+  } else if (statement.LockStmt) {
+    command = analyzeLockStatement(statement.LockStmt, tables);
   } else if (statement.VacuumStmt) {
+    command = analyzeVacuumStatement(statement.VacuumStmt, tables);
+  } else if (statement.ReindexStmt) {
+    command = analyzeReindexStatement(statement.ReindexStmt, tables);
+  } else if (statement.ClusterStmt) {
+    command = 'CLUSTER';
+    extractTableFromRelation(statement.ClusterStmt.relation, tables, 'target');
+  } else if (statement.CopyStmt) {
+    command = analyzeCopyStatement(statement.CopyStmt, tables, cteNames);
+  } else if (statement.CreateStatsStmt) {
+    command = 'CREATE STATISTICS';
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    command = statement.VacuumStmt.options?.some((opt: any) => opt.DefElem?.defname === 'full')
-      ? 'VACUUM FULL' : 'VACUUM';
-    if (statement.VacuumStmt.rels && statement.VacuumStmt.rels.length > 0) {
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      statement.VacuumStmt.rels.forEach((rel: any) => {
-        if (rel.RangeVar && rel.RangeVar.relname) {
-          tables.add(rel.RangeVar.relname);
-        } else if (rel.relname) {
-          tables.add(rel.relname);
-        } else {
-          extractTableFromRelation(rel, tables);
-        }
-      });
-    }
+    (statement.CreateStatsStmt.relations || []).forEach((relation: any) => {
+      extractTableFromRelation(relation.RangeVar || relation, tables, 'target');
+    });
+  } else if (statement.CommentStmt) {
+    command = 'COMMENT ON';
+    extractTableFromCommentStmt(statement.CommentStmt, tables);
   } else if (statement.MergeStmt) {
-    command = 'MERGE';
-    extractTableFromRelation(statement.MergeStmt.relation, tables);
-    // Extract source table from USING clause - could be table, subquery, or complex expression
-    if (statement.MergeStmt.sourceRelation) {
-      extractTablesFromFromClause(statement.MergeStmt.sourceRelation, tables, cteNames);
-    }
-    // Extract tables from MERGE conditions
-    if (statement.MergeStmt.joinCondition) {
-      extractTablesFromExpression(statement.MergeStmt.joinCondition, tables, cteNames);
-    }
+    command = analyzeMergeStatement(statement.MergeStmt, tables, cteNames);
+  } else if (statement.DoStmt) {
+    // DO blocks are PL/pgSQL unless they say otherwise
+    return { command: 'DO', tables: [], relations: [], routineBody: getRoutineBody(statement.DoStmt.args, 'plpgsql') };
+  } else if (statement.CreateFunctionStmt) {
+    const body = getRoutineBody(statement.CreateFunctionStmt.options);
+    return {
+      command: statement.CreateFunctionStmt.is_procedure ? 'CREATE PROCEDURE' : 'CREATE FUNCTION',
+      tables: [],
+      relations: [],
+      createdFunction: body && { name: formatTableName(tableReferenceFromNames(getNameList(statement.CreateFunctionStmt.funcname))), body }
+    };
+  } else if (statement.CallStmt) {
+    command = 'CALL';
   } else {
     command = 'UNKNOWN';
   }
 
+  // Tables not covered by any locking clause are only read
+  if (command.startsWith('SELECT FOR')) {
+    tables.forEach(table => addTable(tables, { ...table, lockMode: 'ACCESS SHARE' }));
+  }
+
   // Filter out CTE names from the final table list
-  const filteredTables = Array.from(tables).filter(table =>
-    table.length > 0 && !cteNames.has(table)
+  // Only unqualified names can refer to a CTE
+  const filteredTables = Array.from(tables.entries()).filter(([, table]) =>
+    table.name.length > 0 && !(cteNames.has(table.name) && !table.schema && !table.catalog)
   );
 
+  const functionCalls = new Set<string>();
+  collectFunctionCalls(statement, functionCalls);
+
   return {
     command,
-    tables: filteredTables
+    tables: filteredTables.map(([displayName]) => displayName),
+    relations: filteredTables.map(([, table]) => table),
+    actions,
+    functionCalls: functionCalls.size > 0 ? Array.from(functionCalls) : undefined
   };
 }
 
+// The body of a DO block or of a function written as a string constant (AS $$ ... $$)
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
-function analyzeSelectStatement(selectStmt: any, tables: Set<string>, cteNames: Set<string> = new Set()): string {
-  let command = 'SELECT';
+export function getRoutineBody(options: any[] = [], defaultLanguage?: string): RoutineBody | undefined {
+  const findOption = (name: string) => options.find(option => option.DefElem?.defname === name)?.DefElem.arg;
+  const language = findOption('language')?.String?.sval || defaultLanguage;
+  const body = findOption('as');
+  // DO takes the body as a string, CREATE FUNCTION as a list of the body and an optional link symbol
+  const text = body?.String?.sval ?? body?.List?.items?.[0]?.String?.sval;
+  return language && text !== undefined ? { language, text } : undefined;
+}
 
-  // Check for locking clauses (FOR UPDATE, FOR SHARE, etc.)
-  if (selectStmt.lockingClause && selectStmt.lockingClause.length > 0) {
-    const lockClause = selectStmt.lockingClause[0].LockingClause;
-    if (lockClause) {
-      switch (lockClause.strength) {
-        case 'LCS_FORKEYSHARE':
-          command = 'SELECT FOR KEY SHARE';
-          break;
-        case 'LCS_FORSHARE':
-          command = 'SELECT FOR SHARE';
-          break;
-        case 'LCS_FORNOKEYUPDATE':
-          command = 'SELECT FOR NO KEY UPDATE';
-          break;
-        case 'LCS_FORUPDATE':
-          command = 'SELECT FOR UPDATE';
-          break;
-      }
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function getNameList(names: any[] = []): string[] {
+  return names.map(name => name.String?.sval).filter(Boolean);
+}
+
+// Functions can be called anywhere in a statement - the target list, FROM, WHERE, CALL ...
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function collectFunctionCalls(node: any, calls: Set<string>) {
+  if (Array.isArray(node)) {
+    node.forEach(item => collectFunctionCalls(item, calls));
+    return;
+  }
+  if (!node || typeof node !== 'object') {
+    return;
+  }
+
+  const funcCall = node.FuncCall || node.funccall;
+  if (funcCall?.funcname) {
+    calls.add(formatTableName(tableReferenceFromNames(getNameList(funcCall.funcname))));
+  }
+  Object.values(node).forEach(value => collectFunctionCalls(value, calls));
+}
+
+// The DO block of a statement and the known functions it calls, with their analyzed bodies.
+// Calls of unknown functions are only kept for CALL - most are built-ins like now()
+async function resolveRoutines(
+  extraction: ASTExtractionResult,
+  functions: Record<string, FunctionDefinition>,
+  version?: number
+): Promise<RoutineCall[] | undefined> {
+  const routines: RoutineCall[] = [];
+
+  if (extraction.routineBody) {
+    routines.push({
+      name: 'DO block',
+      definition: await analyzeFunctionBody(extraction.routineBody.text, extraction.routineBody.language, version)
+    });
+  }
+
+  (extraction.functionCalls || []).forEach(name => {
+    const definition = findFunctionDefinition(name, functions);
+    if (definition || extraction.command === 'CALL') {
+      routines.push({ name: `${name}()`, definition });
+    }
+  });
+
+  return routines.length > 0 ? routines : undefined;
+}
+
+function getStatementNotes(
+  extraction: ASTExtractionResult,
+  routines: RoutineCall[] = [],
+  version: number = DEFAULT_PG_VERSION
+): string[] | undefined {
+  const notes = getUnavailableChanges(extraction.command, extraction.actions, version).map(change =>
+    `${change.note} - PostgreSQL ${version} rejects the statement, so it takes no locks`
+  );
+
+  if (extraction.createdFunction) {
+    notes.push(`The statements of ${extraction.createdFunction.name}() take their locks when it is called, not when it is created`);
+  }
+  routines.forEach(routine => {
+    if (!routine.definition) {
+      notes.push(`${routine.name} is not a known procedure - its locks can't be analyzed. Load its definition on the Schema page or create it earlier in the script`);
+    } else if (routine.definition.dynamic) {
+      notes.push(`${routine.name} runs dynamic SQL (EXECUTE) - its locks can't be analyzed`);
     }
+  });
+
+  return notes.length > 0 ? notes : undefined;
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function extractVariableSetting(variableSetStmt: any): VariableSetting {
+  const values: string[] = (variableSetStmt.args || [])
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    .map((arg: any) => {
+      const constant = arg.A_Const;
+      if (!constant) return null;
+      if (constant.sval) return constant.sval.sval ?? '';
+      if (constant.ival) return String(constant.ival.ival ?? 0);
+      if (constant.fval) return constant.fval.fval;
+      return null;
+    })
+    .filter((value: string | null): value is string => value !== null);
+
+  return {
+    name: variableSetStmt.name || '',
+    values,
+    isLocal: Boolean(variableSetStmt.is_local),
+    isReset: variableSetStmt.kind === 'VAR_RESET' || variableSetStmt.kind === 'VAR_SET_DEFAULT'
+  };
+}
+
+// Row locks of the locking clauses, keyed by LockingClause strength
+const LOCKING_CLAUSE_ROW_LOCKS: Record<string, string> = {
+  LCS_FORKEYSHARE: 'FOR KEY SHARE',
+  LCS_FORSHARE: 'FOR SHARE',
+  LCS_FORNOKEYUPDATE: 'FOR NO KEY UPDATE',
+  LCS_FORUPDATE: 'FOR UPDATE'
+};
+
+// Tables of a FROM clause keyed by the name a locking clause refers to them with -
+// the alias, or the table name itself. A subquery alias covers all tables of the subquery.
+type TableAliases = Map<string, string[]>;
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function analyzeSelectStatement(selectStmt: any, tables: TableSet, cteNames: Set<string> = new Set()): string {
+  let command = 'SELECT';
+  const aliases: TableAliases = new Map();
+
+  // UNION / INTERSECT / EXCEPT - both sides are SELECTs of their own
+  if (selectStmt.larg) {
+    analyzeSelectStatement(selectStmt.larg, tables, cteNames);
+  }
+  if (selectStmt.rarg) {
+    analyzeSelectStatement(selectStmt.rarg, tables, cteNames);
   }
 
   // Extract tables from FROM clause
   if (selectStmt.fromClause) {
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     selectStmt.fromClause.forEach((fromItem: any) => {
-      extractTablesFromFromClause(fromItem, tables);
+      extractTablesFromFromClause(fromItem, tables, cteNames, aliases);
     });
   }
 
+  // Apply every locking clause (FOR UPDATE, FOR SHARE OF ..., etc.) to the tables it covers
+  const rowLocks: string[] = (selectStmt.lockingClause || [])
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    .map((clause: any) => clause.LockingClause && applyLockingClause(clause.LockingClause, aliases, tables))
+    .filter(Boolean);
+  if (rowLocks.length > 0) {
+    const strongest = rowLocks.reduce((a, b) => getRowLockStrength(b) > getRowLockStrength(a) ? b : a);
+    command = `SELECT ${strongest}`;
+  }
+
   // Extract tables from WHERE clause subqueries
   if (selectStmt.whereClause) {
     extractTablesFromExpression(selectStmt.whereClause, tables, cteNames);
@@ -281,29 +764,68 @@ function analyzeSelectStatement(selectStmt: any, tables: Set<string>, cteNames:
   return command;
 }
 
+// A locking clause without OF covers every table of the FROM clause, but never WITH queries.
+// Covered tables get ROW SHARE plus the clause's row lock.
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function applyLockingClause(lockingClause: any, aliases: TableAliases, tables: TableSet): string | undefined {
+  const rowLock = LOCKING_CLAUSE_ROW_LOCKS[lockingClause.strength];
+  if (!rowLock) {
+    return undefined;
+  }
+
+  const lockedRels = lockingClause.lockedRels || [];
+  const covered: string[] = lockedRels.length > 0
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    ? lockedRels.flatMap((rel: any) => aliases.get((rel.RangeVar || rel).relname) || [])
+    : Array.from(aliases.values()).flat();
+
+  covered.forEach(displayName => {
+    const table = tables.get(displayName);
+    if (!table) {
+      return;
+    }
+    addTable(tables, {
+      ...table,
+      lockMode: 'ROW SHARE',
+      rowLock,
+      nowait: lockingClause.waitPolicy === 'LockWaitError' || undefined,
+      skipLocked: lockingClause.waitPolicy === 'LockWaitSkip' || undefined
+    });
+  });
+
+  return rowLock;
+}
+
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
-function extractTablesFromFromClause(fromItem: any, tables: Set<string>, cteNames: Set<string> = new Set()) {
+function extractTablesFromFromClause(fromItem: any, tables: TableSet, cteNames: Set<string> = new Set(), aliases?: TableAliases) {
   if (fromItem.RangeVar) {
     // Simple table reference
-    if (fromItem.RangeVar.relname) {
-      tables.add(fromItem.RangeVar.relname);
+    const displayName = extractTableFromRelation(fromItem.RangeVar, tables, 'source');
+    if (displayName && aliases) {
+      aliases.set(fromItem.RangeVar.alias?.aliasname || fromItem.RangeVar.relname, [displayName]);
     }
   } else if (fromItem.JoinExpr) {
     // JOIN expression - extract from both sides
     if (fromItem.JoinExpr.larg) {
-      extractTablesFromFromClause(fromItem.JoinExpr.larg, tables, cteNames);
+      extractTablesFromFromClause(fromItem.JoinExpr.larg, tables, cteNames, aliases);
     }
     if (fromItem.JoinExpr.rarg) {
-      extractTablesFromFromClause(fromItem.JoinExpr.rarg, tables, cteNames);
+      extractTablesFromFromClause(fromItem.JoinExpr.rarg, tables, cteNames, aliases);
     }
     // Extract tables from JOIN condition
     if (fromItem.JoinExpr.quals) {
       extractTablesFromExpression(fromItem.JoinExpr.quals, tables, cteNames);
     }
   } else if (fromItem.RangeSubselect) {
-    // Subquery in FROM clause
+    // Subquery in FROM clause - collected separately so that a locking clause naming
+    // its alias can find all of its tables
     if (fromItem.RangeSubselect.subquery) {
-      extractTablesFromSubquery(fromItem.RangeSubselect.subquery, tables, cteNames);
+      const subqueryTables: TableSet = new Map();
+      extractTablesFromSubquery(fromItem.RangeSubselect.subquery, subqueryTables, cteNames);
+      subqueryTables.forEach(table => addTable(tables, table));
+      if (aliases && fromItem.RangeSubselect.alias?.aliasname) {
+        aliases.set(fromItem.RangeSubselect.alias.aliasname, Array.from(subqueryTables.keys()));
+      }
     }
   } else if (fromItem.RangeFunction) {
     // Function call in FROM clause - may contain subqueries in arguments
@@ -330,128 +852,254 @@ function extractTablesFromFromClause(fromItem: any, tables: Set<string>, cteName
     // Multiple FROM items (comma-separated)
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     fromItem.List.items.forEach((item: any) => {
-      extractTablesFromFromClause(item, tables);
+      extractTablesFromFromClause(item, tables, cteNames, aliases);
     });
   }
 }
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
-function extractTableFromRelation(relation: any, tables: Set<string>) {
-  if (relation && relation.relname) {
-    tables.add(relation.relname);
+function extractTableFromRelation(relation: any, tables: TableSet, role: TableRole, lockMode?: string): string | undefined {
+  if (!relation || !relation.relname) {
+    return undefined;
+  }
+
+  const table: TableReference = {
+    catalog: relation.catalogname || undefined,
+    schema: relation.schemaname || undefined,
+    name: relation.relname,
+    role,
+    lockMode,
+    // The parser omits inh for ONLY table
+    only: relation.inh ? undefined : true
+  };
+  addTable(tables, table);
+  return formatTableName(table);
+}
+
+// A table referenced several times keeps the strongest locks and the most significant role of all references
+function addTable(tables: TableSet, table: TableReference) {
+  const displayName = formatTableName(table);
+  const existing = tables.get(displayName);
+  if (!existing) {
+    tables.set(displayName, { ...table });
+    return;
+  }
+
+  if (isMoreSignificantRole(table.role, existing.role)) {
+    existing.role = table.role;
+  }
+
+  if (table.lockMode && (!existing.lockMode || getLockStrength(table.lockMode) > getLockStrength(existing.lockMode))) {
+    existing.lockMode = table.lockMode;
+  }
+  if (table.rowLock && (!existing.rowLock || getRowLockStrength(table.rowLock) > getRowLockStrength(existing.rowLock))) {
+    existing.rowLock = table.rowLock;
+  }
+  if (table.updatedColumns) {
+    existing.updatedColumns = Array.from(new Set([...(existing.updatedColumns || []), ...table.updatedColumns]));
+  }
+  existing.cte = existing.cte || table.cte;
+  existing.nowait = existing.nowait || table.nowait;
+  existing.skipLocked = existing.skipLocked || table.skipLocked;
+}
+
+// Tables a nested query reads from take the role of the place the query appears in
+function addScopedTables(tables: TableSet, scopedTables: TableSet, role: TableRole) {
+  scopedTables.forEach(table => addTable(tables, table.role === 'source' ? { ...table, role } : table));
+}
+
+function addRowLock(tables: TableSet, displayName: string | undefined, rowLock: string, updatedColumns: string[] = []) {
+  const table = displayName && tables.get(displayName);
+  if (table) {
+    addTable(tables, { ...table, rowLock, updatedColumns });
   }
 }
 
+// Columns assigned by the SET list of UPDATE, ON CONFLICT DO UPDATE and MERGE
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function getTargetColumns(targetList: any[] = []): string[] {
+  return targetList
+    .map(target => target.ResTarget?.name)
+    .filter((name): name is string => Boolean(name));
+}
+
+// Object names in DROP, COMMENT, ... are lists of [[catalog,] schema,] name
+function tableReferenceFromNames(names: string[]): TableReference {
+  return {
+    catalog: names.length > 2 ? names[names.length - 3] : undefined,
+    schema: names.length > 1 ? names[names.length - 2] : undefined,
+    name: names[names.length - 1]
+  };
+}
+
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
-function extractTablesFromDropStmt(dropStmt: any, tables: Set<string>) {
+function extractTablesFromDropStmt(dropStmt: any, tables: TableSet) {
   if (dropStmt.objects) {
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     dropStmt.objects.forEach((obj: any) => {
       if (obj.List && obj.List.items) {
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        obj.List.items.forEach((item: any) => {
-          if (item.String && item.String.sval) {
-            tables.add(item.String.sval);
-          }
-        });
+        const names: string[] = obj.List.items
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          .map((item: any) => item.String?.sval)
+          .filter(Boolean);
+        if (names.length > 0) {
+          addTable(tables, {
+            ...tableReferenceFromNames(names),
+            role: 'target',
+            cascade: dropStmt.behavior === 'DROP_CASCADE' || undefined
+          });
+        }
       }
     });
   }
 }
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
-function extractTablesFromTruncateStmt(truncateStmt: any, tables: Set<string>) {
+function extractTablesFromTruncateStmt(truncateStmt: any, tables: TableSet) {
   if (truncateStmt.relations && truncateStmt.relations.length > 0) {
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     truncateStmt.relations.forEach((relation: any) => {
-      if (relation.RangeVar) {
-        extractTableFromRelation(relation.RangeVar, tables);
-      } else {
-        extractTableFromRelation(relation, tables);
+      const table = extractTableFromRelation(relation.RangeVar || relation, tables, 'target');
+      const reference = table ? tables.get(table) : undefined;
+      if (reference && truncateStmt.behavior === 'DROP_CASCADE') {
+        reference.cascade = true;
       }
     });
   }
 }
 
+// VACUUM and ANALYZE share VacuumStmt - is_vacuumcmd tells them apart
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
-function extractTablesFromCTE(withClause: any, tables: Set<string>, cteNames: Set<string>) {
-  if (withClause.ctes) {
+function analyzeVacuumStatement(vacuumStmt: any, tables: TableSet): string {
+  let command = 'ANALYZE';
+  if (vacuumStmt.is_vacuumcmd) {
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    withClause.ctes.forEach((cte: any) => {
-      if (cte.CommonTableExpr) {
-        // Add CTE name to exclusion list
-        if (cte.CommonTableExpr.ctename) {
-          cteNames.add(cte.CommonTableExpr.ctename);
-        }
-        // Extract tables from CTE query
-        if (cte.CommonTableExpr.ctequery) {
-          extractTablesFromSubquery(cte.CommonTableExpr.ctequery, tables, cteNames);
-        }
-      }
-    });
+    command = vacuumStmt.options?.some((opt: any) => opt.DefElem?.defname === 'full')
+      ? 'VACUUM FULL' : 'VACUUM';
   }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  (vacuumStmt.rels || []).forEach((rel: any) => {
+    extractTableFromRelation(rel.VacuumRelation?.relation || rel.RangeVar || rel, tables, 'target');
+  });
+
+  return command;
 }
 
+// Object kinds of ReindexStmt
+const REINDEX_COMMANDS: Record<string, string> = {
+  REINDEX_OBJECT_INDEX: 'REINDEX INDEX',
+  REINDEX_OBJECT_TABLE: 'REINDEX TABLE',
+  REINDEX_OBJECT_SCHEMA: 'REINDEX SCHEMA',
+  REINDEX_OBJECT_SYSTEM: 'REINDEX SYSTEM',
+  REINDEX_OBJECT_DATABASE: 'REINDEX DATABASE'
+};
+
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
-function analyzeInsertStatement(insertStmt: any, tables: Set<string>, cteNames: Set<string> = new Set()): string {
-  let command = 'INSERT';
+function analyzeReindexStatement(reindexStmt: any, tables: TableSet): string {
+  const command = REINDEX_COMMANDS[reindexStmt.kind] || 'REINDEX';
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const concurrent = (reindexStmt.params || []).some((param: any) => param.DefElem?.defname === 'concurrently');
 
-  extractTableFromRelation(insertStmt.relation, tables);
+  // SCHEMA, SYSTEM and DATABASE name no table - their tables are processed one at a time
+  extractTableFromRelation(reindexStmt.relation, tables, 'target');
 
-  // Extract tables from SELECT part (INSERT ... SELECT)
-  if (insertStmt.selectStmt) {
-    extractTablesFromSubquery(insertStmt.selectStmt, tables, cteNames);
+  return concurrent ? `${command} CONCURRENTLY` : command;
+}
+
+// COPY table FROM writes into the table, COPY table TO and COPY (query) TO only read
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function analyzeCopyStatement(copyStmt: any, tables: TableSet, cteNames: Set<string>): string {
+  if (copyStmt.relation) {
+    extractTableFromRelation(copyStmt.relation, tables, 'target');
+    return copyStmt.is_from ? 'COPY FROM' : 'COPY TO';
   }
 
-  // Check for ON CONFLICT clause
-  if (insertStmt.onConflictClause) {
-    command = 'INSERT ON CONFLICT';
+  if (copyStmt.query) {
+    // COPY (UPDATE ... RETURNING ...) TO still modifies the target table
+    extractTablesFromSubquery(copyStmt.query, tables, cteNames);
   }
 
-  return command;
+  return 'COPY TO';
 }
 
+// Only comments on relations lock a table - or on a column, constraint, trigger, rule or
+// policy, whose name list is the table name followed by the object name
+const COMMENT_RELATION_TYPES = [
+  'OBJECT_TABLE',
+  'OBJECT_VIEW',
+  'OBJECT_MATVIEW',
+  'OBJECT_FOREIGN_TABLE',
+  'OBJECT_INDEX',
+  'OBJECT_SEQUENCE'
+];
+const COMMENT_TABLE_OBJECT_TYPES = ['OBJECT_COLUMN', 'OBJECT_TABCONSTRAINT', 'OBJECT_TRIGGER', 'OBJECT_RULE', 'OBJECT_POLICY'];
+
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
-function analyzeAlterTableStatement(alterStmt: any, tables: Set<string>): string {
-  let command = 'ALTER TABLE';
-
-  extractTableFromRelation(alterStmt.relation, tables);
-
-  // Analyze specific ALTER TABLE commands
-  if (alterStmt.cmds && alterStmt.cmds.length > 0) {
-    const cmd = alterStmt.cmds[0].AlterTableCmd;
-    if (cmd) {
-      switch (cmd.subtype) {
-        case 'AT_AddColumn':
-          command = 'ALTER TABLE ADD COLUMN';
-          break;
-        case 'AT_AddConstraint':
-          if (cmd.def?.Constraint?.contype === 'CONSTR_FOREIGN') {
-            command = 'ALTER TABLE ADD FOREIGN KEY';
-            // Extract referenced table
-            if (cmd.def.Constraint.pktable) {
-              extractTableFromRelation(cmd.def.Constraint.pktable, tables);
-            }
-          }
-          break;
-        case 'AT_ValidateConstraint':
-          command = 'ALTER TABLE VALIDATE CONSTRAINT';
-          break;
-        case 'AT_AttachPartition':
-          command = 'ALTER TABLE ATTACH PARTITION';
-          if (cmd.def && cmd.def.RangeVar) {
-            extractTableFromRelation(cmd.def.RangeVar, tables);
-          } else if (cmd.def) {
-            extractTableFromRelation(cmd.def, tables);
-          }
-          break;
-        case 'AT_SetTableSpace':
-          command = 'ALTER TABLE SET TABLESPACE';
-          break;
-        case 'AT_DisableTrig':
-          command = 'ALTER TABLE DISABLE TRIGGER';
-          break;
-      }
+function extractTableFromCommentStmt(commentStmt: any, tables: TableSet) {
+  const names: string[] = (commentStmt.object?.List?.items || [])
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    .map((item: any) => item.String?.sval)
+    .filter(Boolean);
+
+  let relationNames: string[];
+  if (COMMENT_RELATION_TYPES.includes(commentStmt.objtype)) {
+    relationNames = names;
+  } else if (COMMENT_TABLE_OBJECT_TYPES.includes(commentStmt.objtype)) {
+    relationNames = names.slice(0, -1);
+  } else {
+    return;
+  }
+
+  if (relationNames.length > 0) {
+    addTable(tables, { ...tableReferenceFromNames(relationNames), role: 'target' });
+  }
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function extractTablesFromCTE(withClause: any, tables: TableSet, cteNames: Set<string>) {
+  if (withClause.ctes) {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    withClause.ctes.forEach((cte: any) => {
+      if (cte.CommonTableExpr) {
+        // Add CTE name to exclusion list
+        if (cte.CommonTableExpr.ctename) {
+          cteNames.add(cte.CommonTableExpr.ctename);
+        }
+        // Extract tables from CTE query
+        if (cte.CommonTableExpr.ctequery) {
+          const cteTables: TableSet = new Map();
+          extractTablesFromSubquery(cte.CommonTableExpr.ctequery, cteTables, cteNames);
+          // Data-modifying WITH queries lock their own target, whatever the outer statement is
+          cteTables.forEach(table => {
+            if (table.role === 'target') {
+              table.cte = cte.CommonTableExpr.ctename;
+            }
+          });
+          addScopedTables(tables, cteTables, 'cte');
+        }
+      }
+    });
+  }
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function analyzeInsertStatement(insertStmt: any, tables: TableSet, cteNames: Set<string> = new Set()): string {
+  let command = 'INSERT';
+
+  const target = extractTableFromRelation(insertStmt.relation, tables, 'target', 'ROW EXCLUSIVE');
+
+  // Extract tables from SELECT part (INSERT ... SELECT)
+  if (insertStmt.selectStmt) {
+    extractTablesFromSubquery(insertStmt.selectStmt, tables, cteNames);
+  }
+
+  // Check for ON CONFLICT clause
+  if (insertStmt.onConflictClause) {
+    command = 'INSERT ON CONFLICT';
+    // DO UPDATE locks the conflicting row before updating it, DO NOTHING locks no rows
+    if (insertStmt.onConflictClause.action === 'ONCONFLICT_UPDATE') {
+      addRowLock(tables, target, 'FOR NO KEY UPDATE', getTargetColumns(insertStmt.onConflictClause.targetList));
     }
   }
 
@@ -459,13 +1107,395 @@ function analyzeAlterTableStatement(alterStmt: any, tables: Set<string>): string
 }
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
-function extractTablesFromExpression(expr: any, tables: Set<string>, cteNames: Set<string> = new Set()) {
+function analyzeUpdateStatement(updateStmt: any, tables: TableSet, cteNames: Set<string> = new Set()): string {
+  const target = extractTableFromRelation(updateStmt.relation, tables, 'target', 'ROW EXCLUSIVE');
+  addRowLock(tables, target, 'FOR NO KEY UPDATE', getTargetColumns(updateStmt.targetList));
+  // Extract tables from FROM clause (for JOINs in UPDATE)
+  if (updateStmt.fromClause) {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    updateStmt.fromClause.forEach((fromItem: any) => {
+      extractTablesFromFromClause(fromItem, tables, cteNames);
+    });
+  }
+  // Extract tables from WHERE clause subqueries
+  if (updateStmt.whereClause) {
+    extractTablesFromExpression(updateStmt.whereClause, tables, cteNames);
+  }
+  // Extract tables from SET clause expressions
+  if (updateStmt.targetList) {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    updateStmt.targetList.forEach((target: any) => {
+      if (target.ResTarget && target.ResTarget.val) {
+        extractTablesFromExpression(target.ResTarget.val, tables, cteNames);
+      }
+    });
+  }
+
+  return 'UPDATE';
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function analyzeDeleteStatement(deleteStmt: any, tables: TableSet, cteNames: Set<string> = new Set()): string {
+  const target = extractTableFromRelation(deleteStmt.relation, tables, 'target', 'ROW EXCLUSIVE');
+  addRowLock(tables, target, 'FOR UPDATE');
+  // Extract tables from USING clause
+  if (deleteStmt.usingClause) {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    deleteStmt.usingClause.forEach((fromItem: any) => {
+      extractTablesFromFromClause(fromItem, tables, cteNames);
+    });
+  }
+  // Extract tables from WHERE clause subqueries
+  if (deleteStmt.whereClause) {
+    extractTablesFromExpression(deleteStmt.whereClause, tables, cteNames);
+  }
+
+  return 'DELETE';
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function analyzeMergeStatement(mergeStmt: any, tables: TableSet, cteNames: Set<string> = new Set()): string {
+  const target = extractTableFromRelation(mergeStmt.relation, tables, 'target', 'ROW EXCLUSIVE');
+  // Matched rows are locked like UPDATE or DELETE would lock them
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  (mergeStmt.mergeWhenClauses || []).forEach((clause: any) => {
+    const { commandType, targetList } = clause.MergeWhenClause || {};
+    if (commandType === 'CMD_UPDATE') {
+      addRowLock(tables, target, 'FOR NO KEY UPDATE', getTargetColumns(targetList));
+    } else if (commandType === 'CMD_DELETE') {
+      addRowLock(tables, target, 'FOR UPDATE');
+    }
+  });
+  // Extract source table from USING clause - could be table, subquery, or complex expression
+  if (mergeStmt.sourceRelation) {
+    extractTablesFromFromClause(mergeStmt.sourceRelation, tables, cteNames);
+  }
+  // Extract tables from MERGE conditions
+  if (mergeStmt.joinCondition) {
+    extractTablesFromExpression(mergeStmt.joinCondition, tables, cteNames);
+  }
+
+  return 'MERGE';
+}
+
+// ALTER TABLE is also used for indexes, views, sequences, ... keyed by AlterTableStmt objtype
+const ALTER_COMMAND_PREFIXES: Record<string, string> = {
+  OBJECT_TABLE: 'ALTER TABLE',
+  OBJECT_INDEX: 'ALTER INDEX',
+  OBJECT_VIEW: 'ALTER VIEW',
+  OBJECT_MATVIEW: 'ALTER MATERIALIZED VIEW',
+  OBJECT_FOREIGN_TABLE: 'ALTER FOREIGN TABLE',
+  OBJECT_SEQUENCE: 'ALTER SEQUENCE',
+  OBJECT_TYPE: 'ALTER TYPE'
+};
+
+// Every subcommand is analyzed on its own - the statement takes the strongest lock among them
+function analyzeAlterTableStatement(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  alterStmt: any,
+  tables: TableSet,
+  version?: number
+): { command: string; actions: AlterTableAction[] } {
+  const prefix = ALTER_COMMAND_PREFIXES[alterStmt.objtype] || 'ALTER TABLE';
+
+  extractTableFromRelation(alterStmt.relation, tables, 'target');
+
+  const actions: AlterTableAction[] = (alterStmt.cmds || [])
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    .filter((cmd: any) => cmd.AlterTableCmd)
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    .map((cmd: any) => analyzeAlterTableCommand(cmd.AlterTableCmd, tables, version));
+
+  const lockMode = getStrongestLockMode(actions.map(action => action.lockMode)) || 'ACCESS EXCLUSIVE';
+  const strongestAction = actions.find(action => action.lockMode === lockMode);
+
+  const table = extractTableFromRelation(alterStmt.relation, tables, 'target', lockMode);
+  const reference = table ? tables.get(table) : undefined;
+  if (reference) {
+    reference.duration = getLongestDuration(actions.map(action => action.duration));
+  }
+
+  return {
+    command: strongestAction?.action ? `${prefix} ${strongestAction.action}` : prefix,
+    actions
+  };
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function analyzeAlterTableCommand(cmd: any, tables: TableSet, version?: number): AlterTableAction {
+  const subcommand = ALTER_TABLE_SUBCOMMANDS[cmd.subtype] || { action: '', lockMode: 'ACCESS EXCLUSIVE' };
+  const result: AlterTableAction = {
+    action: subcommand.action,
+    target: cmd.name || undefined,
+    lockMode: subcommand.lockMode,
+    duration: 'instant'
+  };
+
+  switch (cmd.subtype) {
+    case 'AT_AddColumn':
+    case 'AT_AddColumnRecurse':
+    case 'AT_AddColumnToView': {
+      const columnDef = cmd.def?.ColumnDef;
+      result.target = columnDef?.colname;
+      // An inline REFERENCES clause locks the referenced table like ADD FOREIGN KEY does
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (columnDef?.constraints || []).forEach((constraint: any) => {
+        if (constraint.Constraint?.contype === 'CONSTR_FOREIGN') {
+          extractTableFromRelation(constraint.Constraint.pktable, tables, 'referenced', 'SHARE ROW EXCLUSIVE');
+        }
+      });
+      break;
+    }
+    case 'AT_ColumnDefault':
+      if (!cmd.def) {
+        result.action = 'ALTER COLUMN DROP DEFAULT';
+      }
+      break;
+    case 'AT_AddConstraint':
+    case 'AT_AddConstraintRecurse':
+    case 'AT_ReAddConstraint': {
+      const constraint = cmd.def?.Constraint;
+      const constraintType = constraint && ALTER_TABLE_CONSTRAINTS[constraint.contype];
+      if (constraintType) {
+        result.action = constraintType.action;
+        result.lockMode = constraintType.lockMode;
+      }
+      result.target = constraint?.conname || undefined;
+      result.index = constraint?.indexname || undefined;
+      result.notNullCheck = getNotNullCheck(constraint);
+      if (constraint?.contype === 'CONSTR_FOREIGN') {
+        extractTableFromRelation(constraint.pktable, tables, 'referenced', 'SHARE ROW EXCLUSIVE');
+      }
+      break;
+    }
+    case 'AT_SetRelOptions':
+    case 'AT_ResetRelOptions': {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const options: string[] = (cmd.def?.List?.items || []).map((item: any) =>
+        [item.DefElem?.defnamespace, item.DefElem?.defname].filter(Boolean).join('.')
+      );
+      const lockMode = getStrongestLockMode(options.map(option => getReloptionLockMode(option.replace(/^toast\./, ''))));
+      result.target = options.join(', ');
+      result.lockMode = lockMode || result.lockMode;
+      break;
+    }
+    case 'AT_AttachPartition':
+    case 'AT_DetachPartition':
+    case 'AT_DetachPartitionFinalize': {
+      const partitionCmd = cmd.def?.PartitionCmd;
+      if (partitionCmd?.concurrent) {
+        result.action = 'DETACH PARTITION CONCURRENTLY';
+        result.lockMode = 'SHARE UPDATE EXCLUSIVE';
+      }
+      // The partition itself is locked in ACCESS EXCLUSIVE mode - except by the two
+      // transactions of DETACH CONCURRENTLY, which only take SHARE UPDATE EXCLUSIVE on it
+      if (partitionCmd?.name) {
+        const concurrent = partitionCmd.concurrent || cmd.subtype === 'AT_DetachPartitionFinalize';
+        result.target = extractTableFromRelation(
+          partitionCmd.name,
+          tables,
+          'partition',
+          concurrent ? 'SHARE UPDATE EXCLUSIVE' : 'ACCESS EXCLUSIVE'
+        );
+      }
+      break;
+    }
+    case 'AT_AddInherit':
+      result.target = extractTableFromRelation(cmd.def?.RangeVar, tables, 'parent', 'SHARE UPDATE EXCLUSIVE');
+      break;
+    case 'AT_DropInherit':
+      result.target = extractTableFromRelation(cmd.def?.RangeVar, tables, 'parent', 'ACCESS SHARE');
+      break;
+  }
+
+  // Older versions lock some actions differently - the table takes the strongest of them
+  const versionChange = getLockRuleChange(`ALTER TABLE ${result.action}`, version);
+  if (versionChange?.lockMode) {
+    result.lockMode = versionChange.lockMode;
+  }
+
+  return { ...result, ...getAlterTableDuration(cmd, result.action, version) };
+}
+
+// CHECK (column IS NOT NULL) proves what SET NOT NULL would otherwise scan the table for
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function getNotNullCheck(constraint: any): NotNullCheck | undefined {
+  const nullTest = constraint?.contype === 'CONSTR_CHECK' ? constraint.raw_expr?.NullTest : undefined;
+  const fields = getNameList(nullTest?.arg?.ColumnRef?.fields);
+  if (nullTest?.nulltesttype !== 'IS_NOT_NULL' || fields.length !== 1) {
+    return undefined;
+  }
+  return { name: constraint.conname || undefined, column: fields[0], validated: !constraint.skip_validation };
+}
+
+// From PostgreSQL 12, SET NOT NULL skips its scan when a validated CHECK (column IS NOT NULL) constraint
+// added earlier in the script - or earlier in the same ALTER TABLE - already proves the column has no NULLs
+function applyNotNullChecks(extraction: ASTExtractionResult, checks: Map<string, NotNullCheck[]>, version: number) {
+  const target = extraction.relations.find(relation => relation.role === 'target');
+  if (!target || !extraction.actions) {
+    return;
+  }
+
+  const table = formatTableName(target);
+  const tableChecks = checks.get(table) || [];
+  checks.set(table, tableChecks);
+
+  extraction.actions.forEach(action => {
+    if (action.notNullCheck) {
+      tableChecks.push({ ...action.notNullCheck });
+    } else if (action.action === 'VALIDATE CONSTRAINT') {
+      tableChecks.filter(check => check.name === action.target).forEach(check => { check.validated = true; });
+    } else if (action.action === 'DROP CONSTRAINT') {
+      const index = tableChecks.findIndex(check => check.name === action.target);
+      if (index >= 0) {
+        tableChecks.splice(index, 1);
+      }
+    } else if (
+      action.action === 'ALTER COLUMN SET NOT NULL' &&
+      version >= 12 &&
+      tableChecks.some(check => check.validated && check.column === action.target)
+    ) {
+      action.duration = 'instant';
+      action.durationNote = `A validated CHECK (${action.target} IS NOT NULL) constraint proves the column has no NULLs`;
+    }
+  });
+
+  target.duration = getLongestDuration(extraction.actions.map(action => action.duration));
+}
+
+// Serial types are integers with a nextval() default
+const SERIAL_TYPES = ['smallserial', 'serial', 'bigserial', 'serial2', 'serial4', 'serial8'];
+
+// Constraints that are checked against every existing row when they are added
+const SCANNING_CONSTRAINTS = ['CONSTR_NOTNULL', 'CONSTR_CHECK', 'CONSTR_FOREIGN', 'CONSTR_PRIMARY', 'CONSTR_UNIQUE', 'CONSTR_EXCLUSION'];
+
+// Whether an ALTER TABLE action only changes the catalog, or scans or rewrites the table while holding its lock
+function getAlterTableDuration(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  cmd: any,
+  action: string,
+  version: number = DEFAULT_PG_VERSION
+): Pick<AlterTableAction, 'duration' | 'durationNote'> {
+  if (cmd.def?.Constraint?.skip_validation) {
+    return { duration: 'instant', durationNote: 'NOT VALID - the existing rows are only checked by VALIDATE CONSTRAINT' };
+  }
+  // USING INDEX takes over an existing index - a primary key still sets its columns NOT NULL
+  if (cmd.def?.Constraint?.indexname && action === 'ADD PRIMARY KEY') {
+    return {
+      duration: 'scan',
+      durationNote: 'The index is not rebuilt, and the scan for NULLs is skipped when every column of the index is already NOT NULL'
+    };
+  }
+  if (cmd.def?.Constraint?.indexname) {
+    return { duration: 'instant', durationNote: 'USING INDEX - the existing index is not rebuilt' };
+  }
+  if (action === 'ADD COLUMN') {
+    return getAddColumnDuration(cmd.def?.ColumnDef, version);
+  }
+  if (action === 'ALTER COLUMN SET NOT NULL' && version >= 12) {
+    return {
+      duration: 'scan',
+      durationNote: 'The scan is skipped when a valid CHECK (column IS NOT NULL) constraint already proves the column has no NULLs'
+    };
+  }
+  return { duration: ALTER_TABLE_DURATIONS[action] || 'instant', durationNote: ALTER_TABLE_DURATION_NOTES[action] };
+}
+
+// A new column only changes the catalog unless every existing row needs a value of its own
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function getAddColumnDuration(columnDef: any, version: number): Pick<AlterTableAction, 'duration' | 'durationNote'> {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const constraints: any[] = (columnDef?.constraints || []).map((constraint: any) => constraint.Constraint).filter(Boolean);
+  const typeName = getNameList(columnDef?.typeName?.names).pop() || '';
+  const defaultExpression = constraints.find(constraint => constraint.contype === 'CONSTR_DEFAULT')?.raw_expr;
+  const defaultValue = defaultExpression?.A_Const?.isnull ? undefined : defaultExpression;
+
+  if (SERIAL_TYPES.includes(typeName) || constraints.some(constraint => ['CONSTR_IDENTITY', 'CONSTR_GENERATED'].includes(constraint.contype))) {
+    return { duration: 'rewrite', durationNote: 'Every existing row gets a generated value of its own' };
+  }
+
+  if (defaultValue) {
+    const calls = new Set<string>();
+    collectFunctionCalls(defaultValue, calls);
+    const volatileCall = Array.from(calls).find(name => VOLATILE_FUNCTIONS.includes(parseQualifiedName(name).name));
+    if (volatileCall) {
+      return { duration: 'rewrite', durationNote: `The default calls the volatile function ${volatileCall}() - every existing row gets a value of its own` };
+    }
+    if (version < 11) {
+      return { duration: 'rewrite', durationNote: 'Before PostgreSQL 11, a column with a default value rewrites the whole table' };
+    }
+  }
+
+  // NOT NULL holds without a check when every row gets the default
+  if (constraints.some(constraint =>
+    SCANNING_CONSTRAINTS.includes(constraint.contype) && !(constraint.contype === 'CONSTR_NOTNULL' && defaultValue)
+  )) {
+    return { duration: 'scan', durationNote: 'The constraints of the new column are checked against every existing row' };
+  }
+  return { duration: 'instant' };
+}
+
+// ALTER ... RENAME, keyed by RenameStmt renameType
+const RENAME_COMMANDS: Record<string, string> = {
+  OBJECT_TABLE: 'ALTER TABLE RENAME TO',
+  OBJECT_INDEX: 'ALTER INDEX RENAME TO',
+  OBJECT_VIEW: 'ALTER VIEW RENAME TO',
+  OBJECT_MATVIEW: 'ALTER MATERIALIZED VIEW RENAME TO',
+  OBJECT_FOREIGN_TABLE: 'ALTER FOREIGN TABLE RENAME TO',
+  OBJECT_SEQUENCE: 'ALTER SEQUENCE RENAME TO',
+  OBJECT_COLUMN: 'ALTER TABLE RENAME COLUMN',
+  OBJECT_TABCONSTRAINT: 'ALTER TABLE RENAME CONSTRAINT',
+  OBJECT_TRIGGER: 'ALTER TRIGGER RENAME TO',
+  OBJECT_RULE: 'ALTER RULE RENAME TO',
+  OBJECT_POLICY: 'ALTER POLICY RENAME TO'
+};
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function analyzeRenameStatement(renameStmt: any, tables: TableSet): string {
+  const command = RENAME_COMMANDS[renameStmt.renameType];
+  if (!command) {
+    return 'RENAME';
+  }
+
+  // Renaming an index only needs SHARE UPDATE EXCLUSIVE, everything else ACCESS EXCLUSIVE
+  extractTableFromRelation(
+    renameStmt.relation,
+    tables,
+    'target',
+    renameStmt.renameType === 'OBJECT_INDEX' ? 'SHARE UPDATE EXCLUSIVE' : 'ACCESS EXCLUSIVE'
+  );
+
+  return command;
+}
+
+// LOCK [TABLE] [ONLY] name [, ...] [IN lockmode MODE] [NOWAIT] - every table gets the requested mode
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function analyzeLockStatement(lockStmt: any, tables: TableSet): string {
+  // The mode is PostgreSQL's LOCKMODE number, 1 (ACCESS SHARE) to 8 (ACCESS EXCLUSIVE)
+  const lockMode = LOCK_MODE_ORDER[(lockStmt.mode || 8) - 1] || 'ACCESS EXCLUSIVE';
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  (lockStmt.relations || []).forEach((relation: any) => {
+    const name = extractTableFromRelation(relation.RangeVar || relation, tables, 'target', lockMode);
+    const table = name && tables.get(name);
+    if (table && lockStmt.nowait) {
+      table.nowait = true;
+    }
+  });
+
+  return `LOCK TABLE IN ${lockMode} MODE`;
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function extractTablesFromExpression(expr: any, tables: TableSet, cteNames: Set<string> = new Set()) {
   if (!expr) return;
 
   if (expr.SubLink) {
     // Subquery in expression
     if (expr.SubLink.subselect) {
-      extractTablesFromSubquery(expr.SubLink.subselect, tables, cteNames);
+      const subqueryTables: TableSet = new Map();
+      extractTablesFromSubquery(expr.SubLink.subselect, subqueryTables, cteNames);
+      addScopedTables(tables, subqueryTables, 'subquery');
     }
   } else if (expr.BoolExpr) {
     // Boolean expression (AND, OR, etc.)
@@ -537,58 +1567,161 @@ function extractTablesFromExpression(expr: any, tables: Set<string>, cteNames: S
 }
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
-function extractTablesFromSubquery(subquery: any, tables: Set<string>, cteNames: Set<string> = new Set()) {
+function extractTablesFromSubquery(subquery: any, tables: TableSet, cteNames: Set<string> = new Set()) {
   if (subquery.SelectStmt) {
     analyzeSelectStatement(subquery.SelectStmt, tables, cteNames);
   } else if (subquery.InsertStmt) {
     analyzeInsertStatement(subquery.InsertStmt, tables, cteNames);
   } else if (subquery.UpdateStmt) {
-    extractTableFromRelation(subquery.UpdateStmt.relation, tables);
-    if (subquery.UpdateStmt.fromClause) {
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      subquery.UpdateStmt.fromClause.forEach((fromItem: any) => {
-        extractTablesFromFromClause(fromItem, tables, cteNames);
-      });
-    }
-    if (subquery.UpdateStmt.whereClause) {
-      extractTablesFromExpression(subquery.UpdateStmt.whereClause, tables, cteNames);
-    }
+    analyzeUpdateStatement(subquery.UpdateStmt, tables, cteNames);
   } else if (subquery.DeleteStmt) {
-    extractTableFromRelation(subquery.DeleteStmt.relation, tables);
-    if (subquery.DeleteStmt.usingClause) {
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      subquery.DeleteStmt.usingClause.forEach((fromItem: any) => {
-        extractTablesFromFromClause(fromItem, tables, cteNames);
-      });
-    }
-    if (subquery.DeleteStmt.whereClause) {
-      extractTablesFromExpression(subquery.DeleteStmt.whereClause, tables, cteNames);
-    }
+    analyzeDeleteStatement(subquery.DeleteStmt, tables, cteNames);
+  } else if (subquery.MergeStmt) {
+    analyzeMergeStatement(subquery.MergeStmt, tables, cteNames);
   }
 }
 
-export function getLockAnalysis(command: string): LockInfo | null {
-  return getLockAnalysisFromData(command);
+export function getLockAnalysis(command: string, version?: number): LockInfo | null {
+  return getLockAnalysisFromData(command, version);
 }
 
 export interface TableLockInfo {
   table: string;
+  catalog?: string;
+  schema: string;
+  name: string;
   lockMode: string;
   description: string;
   conflicts: string[];
+  only?: boolean;
+  nowait?: boolean;
+  skipLocked?: boolean;
+  rowLock?: string;
+  role?: TableRole;
+  cte?: string;
+  partitionOf?: string; // partitioned table or inheritance parent the lock was propagated from
+  defaultPartition?: boolean;
+  view?: string; // view the lock was propagated through
+  trigger?: string; // trigger whose function takes the lock
+  routine?: string; // DO block or function whose statements take the lock
+  duration?: LockDuration; // whether the table is scanned or rewritten while the lock is held
+  reason?: string; // why a table the statement doesn't name is locked
+  notes?: string[];
+  indexes?: IndexLockInfo[];
+}
+
+// Indexes are relations of their own and are locked separately from their table
+export interface IndexLockInfo {
+  index: string;
+  lockMode: string;
+  description: string;
+  conflicts: string[];
+  isNew?: boolean; // created by the statement
+}
+
+// Relations a view reads, so locks on the view can be reported on the tables behind it
+export interface ViewDefinition {
+  tables: string[];
+  baseTable?: string; // the single relation of an automatically updatable view
+  materialized?: boolean;
+}
+
+export type ForeignKeyAction = 'NO ACTION' | 'RESTRICT' | 'CASCADE' | 'SET NULL' | 'SET DEFAULT';
+
+// A foreign key from table(columns) to referencedTable(referencedColumns)
+export interface ForeignKeyDefinition {
+  name?: string;
+  table: string;
+  columns: string[];
+  referencedTable: string;
+  referencedColumns: string[]; // empty for the primary key of the referenced table
+  onDelete?: ForeignKeyAction;
+  onUpdate?: ForeignKeyAction;
+}
+
+export interface TriggerDefinition {
+  name: string;
+  function: string;
+  timing: 'BEFORE' | 'AFTER' | 'INSTEAD OF';
+  events: string[]; // INSERT, UPDATE, DELETE, TRUNCATE
+  columns?: string[]; // UPDATE OF
+  forEachRow: boolean;
+}
+
+// A statement found in the body of a function
+export interface FunctionStatement {
+  sql: string;
+  command: string;
+  relations: TableReference[];
+}
+
+export interface FunctionDefinition {
+  language: string;
+  statements: FunctionStatement[];
+  dynamic?: boolean; // runs statements built at run time with EXECUTE
+}
+
+// Children of a partitioned table, or of an inheritance parent
+export interface PartitionHierarchy {
+  partitions: string[];
+  defaultPartition?: string;
+  inheritance?: boolean; // children created with INHERITS instead of PARTITION OF
 }
 
+export interface AnalysisOptions {
+  searchPath?: string[];
+  // Columns covered by a unique index, keyed by table name - updating them takes FOR UPDATE row locks
+  keyColumns?: Record<string, string[]>;
+  // PostgreSQL major version - picks the parser build and the lock rules of that version
+  version?: number;
+  // Partition hierarchies keyed by the name of the partitioned table
+  partitions?: Record<string, PartitionHierarchy>;
+  // Index names keyed by the name of their table
+  indexes?: Record<string, string[]>;
+  // View definitions keyed by the name of the view
+  views?: Record<string, ViewDefinition>;
+  foreignKeys?: ForeignKeyDefinition[];
+  // Triggers keyed by the name of their table, and the functions they run keyed by name
+  triggers?: Record<string, TriggerDefinition[]>;
+  functions?: Record<string, FunctionDefinition>;
+}
+
+export const DEFAULT_SEARCH_PATH = ['$user', 'public'];
+
+// Without schema information, assume the conventional primary key column
+export const DEFAULT_KEY_COLUMNS = ['id'];
+
 // Get lock analysis for each table based on its role in the query
-export function getTableLockAnalysis(tables: string[], command: string, primaryTable?: string): TableLockInfo[] {
+export function getTableLockAnalysis(
+  tables: Array<string | TableReference>,
+  command: string,
+  primaryTable?: string,
+  options: AnalysisOptions = {}
+): TableLockInfo[] {
   const results: TableLockInfo[] = [];
+  if (getUnavailableChanges(command, [], options.version).length > 0) {
+    return results;
+  }
+
+  const references = tables
+    .map(table => typeof table === 'string' ? parseQualifiedName(table) : table)
+    .map(reference => resolveIndexReference(reference, command, options));
+  const tableNames = references.map(formatTableName);
 
-  for (const table of tables) {
+  references.forEach((reference, index) => {
+    const table = tableNames[index];
+    // Tables extracted from the AST know their role, plain table names fall back to a heuristic
+    const isPrimary = reference.role && !primaryTable
+      ? reference.role === 'target'
+      : isPrimaryTable(table, command, primaryTable, tableNames);
     let lockMode: string;
 
-    // Special handling for specific commands where multiple tables get the same lock
-    if (command === 'ALTER TABLE ADD FOREIGN KEY' && tables.length === 2) {
+    // Locks that the AST analysis already determined for this table take precedence
+    if (reference.lockMode) {
+      lockMode = reference.lockMode;
+    } else if (command === 'ALTER TABLE ADD FOREIGN KEY' && tableNames.length === 2) {
       // For FK creation: primary table gets SHARE ROW EXCLUSIVE, referenced table gets SHARE ROW EXCLUSIVE too
-      if (isPrimaryTable(table, command, primaryTable, tables)) {
+      if (isPrimary) {
         lockMode = 'SHARE ROW EXCLUSIVE';
       } else {
         lockMode = 'SHARE ROW EXCLUSIVE'; // Both tables get the same lock for FK
@@ -597,7 +1730,7 @@ export function getTableLockAnalysis(tables: string[], command: string, primaryT
       // For SELECT FOR UPDATE/SHARE, all referenced tables get the locking mode
       const commandLockMode = COMMAND_LOCKS[command];
       lockMode = commandLockMode || 'ACCESS SHARE';
-    } else if (isPrimaryTable(table, command, primaryTable, tables)) {
+    } else if (isPrimary) {
       // Primary table gets the command's lock mode
       const commandLockMode = COMMAND_LOCKS[command];
       lockMode = commandLockMode || 'ACCESS SHARE';
@@ -606,18 +1739,927 @@ export function getTableLockAnalysis(tables: string[], command: string, primaryT
       lockMode = 'ACCESS SHARE';
     }
 
+    // Older versions lock the target of some commands differently
+    const versionChange = isPrimary ? getLockRuleChange(command, options.version) : undefined;
+    if (versionChange?.lockMode) {
+      lockMode = versionChange.lockMode;
+    }
+
     const lockModeInfo = LOCK_MODES[lockMode];
-    if (lockModeInfo) {
-      results.push({
-        table,
+    if (!lockModeInfo) {
+      return;
+    }
+
+    const schema = resolveSchema(reference, options.searchPath);
+    const rowLock = getRowLock(reference, schema, command, isPrimary || command.startsWith('SELECT FOR'), options);
+
+    const lock: TableLockInfo = {
+      table,
+      catalog: reference.catalog,
+      schema,
+      name: reference.name,
+      lockMode,
+      description: lockModeInfo.description,
+      conflicts: lockModeInfo.conflicts,
+      only: reference.only,
+      nowait: reference.nowait,
+      skipLocked: reference.skipLocked,
+      rowLock,
+      role: reference.role,
+      cte: reference.cte,
+      duration: reference.duration
+    };
+
+    addLock(results, lock);
+  });
+
+  const viewLocks = addViewLocks(results, command, options);
+  const foreignKeyLocks = addForeignKeyLocks(viewLocks, references, command, options);
+  const triggerLocks = addTriggerLocks(foreignKeyLocks, references, command, options);
+  return addIndexLocks(addPartitionLocks(triggerLocks, command, options), references, command, options);
+}
+
+// Commands and ALTER TABLE actions that the version does not have yet
+function getUnavailableChanges(command: string, actions: AlterTableAction[] = [], version?: number): LockRuleChange[] {
+  return Array.from(new Set([command, ...actions.map(action => `ALTER TABLE ${action.action}`)]))
+    .map(name => getLockRuleChange(name, version))
+    .filter((change): change is LockRuleChange => change?.lockMode === null);
+}
+
+// The locks of a statement, and of the statements in the DO block or functions it runs
+export function getStatementLockAnalysis(
+  statement: Pick<ParsedQuery, 'command' | 'relations' | 'routines' | 'actions'>,
+  options: AnalysisOptions = {}
+): TableLockInfo[] {
+  // The server rejects a statement its version does not have before it takes any lock
+  if (getUnavailableChanges(statement.command, statement.actions, options.version).length > 0) {
+    return [];
+  }
+
+  const locks = getTableLockAnalysis(statement.relations || [], statement.command, undefined, options);
+
+  (statement.routines || []).forEach(routine => {
+    (routine.definition?.statements || []).forEach(routineStatement => {
+      getTableLockAnalysis(routineStatement.relations, routineStatement.command, undefined, options).forEach(routineLock => {
+        const isLocked = locks.some(existing => existing.table === routineLock.table);
+        addLock(locks, isLocked ? routineLock : {
+          ...routineLock,
+          routine: routineLock.routine || routine.name,
+          reason: routineLock.reason || `${routine.name} runs ${routineStatement.command}`
+        });
+      });
+    });
+  });
+
+  return locks;
+}
+
+// `invoices` and `public.invoices` can be the same relation - keep the strongest lock once
+function addLock(results: TableLockInfo[], lock: TableLockInfo) {
+  const existing = results.find(result => formatTableName(result) === formatTableName(lock));
+  if (!existing) {
+    results.push(lock);
+    return;
+  }
+
+  if (getLockStrength(lock.lockMode) > getLockStrength(existing.lockMode)) {
+    Object.assign(existing, { lockMode: lock.lockMode, description: lock.description, conflicts: lock.conflicts });
+  }
+  if (lock.rowLock && (!existing.rowLock || getRowLockStrength(lock.rowLock) > getRowLockStrength(existing.rowLock))) {
+    existing.rowLock = lock.rowLock;
+  }
+  if (isMoreSignificantRole(lock.role, existing.role)) {
+    existing.role = lock.role;
+  }
+  existing.cte = existing.cte || lock.cte;
+  existing.partitionOf = existing.partitionOf || lock.partitionOf;
+  existing.defaultPartition = existing.defaultPartition || lock.defaultPartition;
+  existing.view = existing.view || lock.view;
+  existing.trigger = existing.trigger || lock.trigger;
+  existing.routine = existing.routine || lock.routine;
+  existing.duration = getLongestDuration([existing.duration, lock.duration]);
+  existing.reason = existing.reason || lock.reason;
+  if (lock.notes) {
+    existing.notes = [...(existing.notes || []), ...lock.notes];
+  }
+}
+
+// Only reads and writes go through a view to the tables behind it - DDL acts on the view itself
+const VIEW_LOCK_MODES = ['ACCESS SHARE', 'ROW SHARE', 'ROW EXCLUSIVE'];
+
+// The rewriter replaces a view with its query: the base table of an updatable view takes the
+// lock of the view, every other table is read. A materialized view stores its rows, so its
+// tables are only read by REFRESH MATERIALIZED VIEW.
+function addViewLocks(results: TableLockInfo[], command: string, options: AnalysisOptions): TableLockInfo[] {
+  if (!options.views) {
+    return results;
+  }
+
+  const locks = [...results];
+  const expanded = new Set<string>();
+
+  // Tables added along the way are expanded too, for views on views
+  for (let i = 0; i < locks.length; i++) {
+    const lock = locks[i];
+    const view = findViewDefinition(lock, options.views);
+    const viewName = formatTableName(lock);
+    if (!view || expanded.has(viewName)) {
+      continue;
+    }
+    expanded.add(viewName);
+
+    const isRefresh = command.startsWith('REFRESH MATERIALIZED VIEW') && lock.role === 'target';
+    if (view.materialized ? !isRefresh : !VIEW_LOCK_MODES.includes(lock.lockMode)) {
+      continue;
+    }
+    if (!view.materialized && lock.lockMode === 'ROW EXCLUSIVE' && !view.baseTable) {
+      lock.notes = [
+        ...(lock.notes || []),
+        'The view is not automatically updatable - the statement needs an INSTEAD OF trigger or rule on it'
+      ];
+    }
+
+    view.tables.forEach(table => {
+      const reference = parseQualifiedName(table);
+      const isBaseTable = !view.materialized && table === view.baseTable;
+      // FOR UPDATE/SHARE in a query over a view applies to every table of the view
+      const lockMode = isBaseTable || lock.lockMode === 'ROW SHARE' ? lock.lockMode : 'ACCESS SHARE';
+      const lockModeInfo = LOCK_MODES[lockMode];
+      addLock(locks, {
+        table: formatTableName(reference),
+        catalog: reference.catalog,
+        schema: resolveSchema(reference, options.searchPath),
+        name: reference.name,
         lockMode,
         description: lockModeInfo.description,
-        conflicts: lockModeInfo.conflicts
+        conflicts: lockModeInfo.conflicts,
+        rowLock: isBaseTable || lock.lockMode === 'ROW SHARE' ? lock.rowLock : undefined,
+        role: isBaseTable ? lock.role : 'source',
+        cte: lock.cte,
+        view: lock.table
       });
+    });
+  }
+
+  return locks;
+}
+
+function findViewDefinition(lock: TableLockInfo, views: Record<string, ViewDefinition>): ViewDefinition | undefined {
+  return views[formatTableName({ schema: lock.schema, name: lock.name })] || views[lock.name];
+}
+
+type RowOperation = 'INSERT' | 'UPDATE' | 'DELETE';
+
+// Row changes of each command that fire the triggers of foreign keys
+const COMMAND_ROW_OPERATIONS: Record<string, RowOperation[]> = {
+  'INSERT': ['INSERT'],
+  'INSERT ON CONFLICT': ['INSERT', 'UPDATE'],
+  'COPY FROM': ['INSERT'],
+  'UPDATE': ['UPDATE'],
+  'DELETE': ['DELETE'],
+  'MERGE': ['INSERT', 'UPDATE', 'DELETE']
+};
+
+// Foreign keys are enforced by triggers that lock the rows of the other table: new references
+// are checked with SELECT ... FOR KEY SHARE on the referenced table, and deleting or changing a
+// referenced key checks, deletes or updates the referencing rows
+function addForeignKeyLocks(
+  results: TableLockInfo[],
+  references: TableReference[],
+  command: string,
+  options: AnalysisOptions
+): TableLockInfo[] {
+  if (!options.foreignKeys || options.foreignKeys.length === 0) {
+    return results;
+  }
+
+  const locks = [...results];
+  results.filter(lock => lock.role === 'target').forEach(lock => {
+    const reference = references.find(candidate => formatTableName(candidate) === lock.table);
+    const operations = COMMAND_ROW_OPERATIONS[command];
+
+    if (operations && lock.lockMode === 'ROW EXCLUSIVE') {
+      addRowChangeLocks(locks, lock, operations, reference?.updatedColumns, options, new Set([lock.table]));
+    } else if (command === 'TRUNCATE') {
+      addTruncateLocks(locks, results, lock, Boolean(reference?.cascade), options, new Set([lock.table]));
+    } else if (command === 'DROP TABLE') {
+      addDropTableLocks(locks, results, lock, Boolean(reference?.cascade), options);
+    }
+  });
+
+  return locks;
+}
+
+function addRowChangeLocks(
+  locks: TableLockInfo[],
+  lock: TableLockInfo,
+  operations: RowOperation[],
+  updatedColumns: string[] | undefined,
+  options: AnalysisOptions,
+  visited: Set<string>
+) {
+  (options.foreignKeys || []).forEach(foreignKey => {
+    const name = getForeignKeyName(foreignKey);
+
+    // The table holds the foreign key - rows it writes must reference an existing row
+    const writesReference = operations.includes('INSERT') ||
+      (operations.includes('UPDATE') && isAnyColumnUpdated(updatedColumns, foreignKey.columns));
+    if (isSameTable(lock, foreignKey.table) && writesReference) {
+      addForeignKeyLock(locks, {
+        table: foreignKey.referencedTable,
+        lockMode: 'ROW SHARE',
+        rowLock: 'FOR KEY SHARE',
+        role: 'referenced',
+        reason: `${name} checks that the rows written to ${lock.table} reference an existing row with SELECT ... FOR KEY SHARE`
+      }, options, visited);
+    }
+
+    // The table is referenced - removing or changing a key acts on the referencing rows
+    if (!isSameTable(lock, foreignKey.referencedTable)) {
+      return;
+    }
+    const keyColumns = foreignKey.referencedColumns.length > 0 ? foreignKey.referencedColumns : DEFAULT_KEY_COLUMNS;
+    if (operations.includes('DELETE')) {
+      addReferentialAction(locks, lock, foreignKey, 'DELETE', foreignKey.onDelete, options, visited);
+    }
+    if (operations.includes('UPDATE') && isAnyColumnUpdated(updatedColumns, keyColumns)) {
+      addReferentialAction(locks, lock, foreignKey, 'UPDATE', foreignKey.onUpdate, options, visited);
+    }
+  });
+}
+
+function addReferentialAction(
+  locks: TableLockInfo[],
+  lock: TableLockInfo,
+  foreignKey: ForeignKeyDefinition,
+  operation: RowOperation,
+  action: ForeignKeyAction = 'NO ACTION',
+  options: AnalysisOptions,
+  visited: Set<string>
+) {
+  const name = `${getForeignKeyName(foreignKey)} (ON ${operation} ${action})`;
+  const child = formatTableName(parseQualifiedName(foreignKey.table));
+  const rows = `${operation === 'DELETE' ? 'deleted' : 'changed'} rows of ${lock.table}`;
+
+  if (action === 'NO ACTION' || action === 'RESTRICT') {
+    addForeignKeyLock(locks, {
+      table: foreignKey.table,
+      lockMode: 'ROW SHARE',
+      rowLock: 'FOR KEY SHARE',
+      role: 'referencing',
+      reason: `${name} checks that no row of ${child} still references the ${rows}`
+    }, options, visited);
+    return;
+  }
+
+  const cascadedDelete = action === 'CASCADE' && operation === 'DELETE';
+  const childLock = addForeignKeyLock(locks, {
+    table: foreignKey.table,
+    lockMode: 'ROW EXCLUSIVE',
+    rowLock: cascadedDelete ? 'FOR UPDATE' : 'FOR NO KEY UPDATE',
+    role: 'referencing',
+    reason: `${name} ${cascadedDelete ? 'deletes' : 'updates'} the rows of ${child} that reference the ${rows}`
+  }, options, visited);
+
+  // The changed rows of the referencing table fire its own foreign keys in turn
+  if (childLock) {
+    visited.add(childLock.table);
+    addRowChangeLocks(locks, childLock, [cascadedDelete ? 'DELETE' : 'UPDATE'], foreignKey.columns, options, visited);
+  }
+}
+
+// Referencing tables must be truncated in the same statement - CASCADE adds them
+function addTruncateLocks(
+  locks: TableLockInfo[],
+  results: TableLockInfo[],
+  lock: TableLockInfo,
+  cascade: boolean,
+  options: AnalysisOptions,
+  visited: Set<string>
+) {
+  getReferencingForeignKeys(lock, results, options).forEach(foreignKey => {
+    const child = formatTableName(parseQualifiedName(foreignKey.table));
+    if (!cascade) {
+      lock.notes = [...(lock.notes || []), `TRUNCATE fails - ${child} references ${lock.table}. Truncate both in one statement or add CASCADE`];
+      return;
+    }
+
+    const childLock = addForeignKeyLock(locks, {
+      table: foreignKey.table,
+      lockMode: 'ACCESS EXCLUSIVE',
+      role: 'referencing',
+      reason: `TRUNCATE ... CASCADE also truncates ${child}, which references ${lock.table} through ${getForeignKeyName(foreignKey)}`
+    }, options, visited);
+    if (childLock) {
+      visited.add(childLock.table);
+      addTruncateLocks(locks, results, childLock, cascade, options, visited);
+    }
+  });
+}
+
+// Dropping either side of a foreign key drops the constraint and its triggers on both tables
+function addDropTableLocks(
+  locks: TableLockInfo[],
+  results: TableLockInfo[],
+  lock: TableLockInfo,
+  cascade: boolean,
+  options: AnalysisOptions
+) {
+  const visited = new Set(results.map(result => result.table));
+
+  getReferencingForeignKeys(lock, results, options).forEach(foreignKey => {
+    const child = formatTableName(parseQualifiedName(foreignKey.table));
+    if (!cascade) {
+      lock.notes = [...(lock.notes || []), `DROP TABLE fails - ${getForeignKeyName(foreignKey)} of ${child} depends on ${lock.table}. Drop it first or add CASCADE`];
+      return;
     }
+    addForeignKeyLock(locks, {
+      table: foreignKey.table,
+      lockMode: 'ACCESS EXCLUSIVE',
+      role: 'referencing',
+      reason: `DROP TABLE ... CASCADE drops ${getForeignKeyName(foreignKey)} of ${child}, which references ${lock.table}`
+    }, options, visited);
+  });
+
+  (options.foreignKeys || [])
+    .filter(foreignKey => isSameTable(lock, foreignKey.table))
+    .forEach(foreignKey => {
+      addForeignKeyLock(locks, {
+        table: foreignKey.referencedTable,
+        lockMode: 'ACCESS EXCLUSIVE',
+        role: 'referenced',
+        reason: `Dropping ${lock.table} removes the triggers of ${getForeignKeyName(foreignKey)} from ${formatTableName(parseQualifiedName(foreignKey.referencedTable))}`
+      }, options, visited);
+    });
+}
+
+// Foreign keys referencing the table from tables the statement doesn't already act on
+function getReferencingForeignKeys(
+  lock: TableLockInfo,
+  results: TableLockInfo[],
+  options: AnalysisOptions
+): ForeignKeyDefinition[] {
+  return (options.foreignKeys || []).filter(foreignKey =>
+    isSameTable(lock, foreignKey.referencedTable) &&
+    !results.some(result => isSameTable(result, foreignKey.table))
+  );
+}
+
+interface ForeignKeyLock {
+  table: string;
+  lockMode: string;
+  rowLock?: string;
+  role: TableRole;
+  reason: string;
+}
+
+// Tables already in the chain of foreign keys are not locked again
+function addForeignKeyLock(
+  locks: TableLockInfo[],
+  { table, lockMode, rowLock, role, reason }: ForeignKeyLock,
+  options: AnalysisOptions,
+  visited: Set<string>
+): TableLockInfo | undefined {
+  const reference = parseQualifiedName(table);
+  const name = formatTableName(reference);
+  if (visited.has(name)) {
+    return undefined;
   }
 
-  return results;
+  const lockModeInfo = LOCK_MODES[lockMode];
+  addLock(locks, {
+    table: name,
+    catalog: reference.catalog,
+    schema: resolveSchema(reference, options.searchPath),
+    name: reference.name,
+    lockMode,
+    description: lockModeInfo.description,
+    conflicts: lockModeInfo.conflicts,
+    rowLock,
+    role,
+    reason
+  });
+  return locks.find(lock => lock.table === name);
+}
+
+function isSameTable(lock: TableLockInfo, table: string): boolean {
+  const name = formatTableName(parseQualifiedName(table));
+  return name === lock.table || name === formatTableName({ schema: lock.schema, name: lock.name }) || name === lock.name;
+}
+
+// Without the list of updated columns, any column may change
+function isAnyColumnUpdated(updatedColumns: string[] | undefined, columns: string[]): boolean {
+  return !updatedColumns || columns.length === 0 || updatedColumns.some(column => columns.includes(column));
+}
+
+function getForeignKeyName(foreignKey: ForeignKeyDefinition): string {
+  return foreignKey.name
+    ? `Foreign key ${foreignKey.name}`
+    : `Foreign key ${formatTableName(parseQualifiedName(foreignKey.table))}(${foreignKey.columns.join(', ')})`;
+}
+
+// The statements of a trigger function run as part of the statement that fires the trigger,
+// and take their locks in the same transaction
+function addTriggerLocks(
+  results: TableLockInfo[],
+  references: TableReference[],
+  command: string,
+  options: AnalysisOptions
+): TableLockInfo[] {
+  const operations: string[] | undefined = command === 'TRUNCATE' ? ['TRUNCATE'] : COMMAND_ROW_OPERATIONS[command];
+  if (!options.triggers || !operations) {
+    return results;
+  }
+
+  const locks = [...results];
+  results
+    .filter(lock => lock.role === 'target' && (command === 'TRUNCATE' || lock.lockMode === 'ROW EXCLUSIVE'))
+    .forEach(lock => {
+      const reference = references.find(candidate => formatTableName(candidate) === lock.table);
+      const triggers = findTableTriggers(lock, options.triggers || {})
+        .filter(trigger => isTriggerFired(trigger, operations, reference?.updatedColumns));
+
+      triggers.forEach(trigger => {
+        const definition = findFunctionDefinition(trigger.function, options.functions || {});
+        if (!definition) {
+          lock.notes = [...(lock.notes || []), `Trigger ${trigger.name} runs ${trigger.function}(), whose definition is unknown`];
+          return;
+        }
+        if (definition.dynamic) {
+          lock.notes = [...(lock.notes || []), `Trigger ${trigger.name} runs dynamic SQL (EXECUTE) - its locks can't be analyzed`];
+        }
+
+        // A trigger doesn't fire itself again through its own statements
+        const triggerOptions = { ...options, triggers: withoutTrigger(options.triggers || {}, trigger) };
+        const reason = `Trigger ${trigger.name} (${trigger.timing} ${trigger.events.join(' OR ')}) on ${lock.table} runs ${trigger.function}()`;
+
+        definition.statements.forEach(statement => {
+          getTableLockAnalysis(statement.relations, statement.command, undefined, triggerOptions).forEach(triggerLock => {
+            const isLocked = locks.some(existing => existing.table === triggerLock.table);
+            addLock(locks, isLocked ? triggerLock : {
+              ...triggerLock,
+              trigger: triggerLock.trigger || trigger.name,
+              reason: triggerLock.reason || `${reason}, which runs ${statement.command}`
+            });
+          });
+        });
+      });
+    });
+
+  return locks;
+}
+
+function findTableTriggers(lock: TableLockInfo, triggers: Record<string, TriggerDefinition[]>): TriggerDefinition[] {
+  return triggers[formatTableName({ schema: lock.schema, name: lock.name })] || triggers[lock.name] || [];
+}
+
+// UPDATE OF triggers only fire when one of their columns is updated
+function isTriggerFired(trigger: TriggerDefinition, operations: string[], updatedColumns: string[] | undefined): boolean {
+  return trigger.events.some(event =>
+    operations.includes(event) && (event !== 'UPDATE' || isAnyColumnUpdated(updatedColumns, trigger.columns || []))
+  );
+}
+
+function withoutTrigger(
+  triggers: Record<string, TriggerDefinition[]>,
+  trigger: TriggerDefinition
+): Record<string, TriggerDefinition[]> {
+  return Object.fromEntries(
+    Object.entries(triggers).map(([table, tableTriggers]) => [table, tableTriggers.filter(candidate => candidate !== trigger)])
+  );
+}
+
+// Unqualified function names match a function of any schema
+function findFunctionDefinition(
+  name: string,
+  functions: Record<string, FunctionDefinition>
+): FunctionDefinition | undefined {
+  const reference = parseQualifiedName(name);
+  return functions[formatTableName(reference)] || Object.entries(functions).find(([key]) =>
+    !reference.schema && parseQualifiedName(key).name === reference.name
+  )?.[1];
+}
+
+// Commands on a partitioned table or inheritance parent that never reach its children
+const NON_RECURSIVE_COMMANDS = [
+  'COMMENT ON',
+  'CREATE STATISTICS',
+  'ALTER TABLE RENAME TO',
+  'ALTER TABLE ATTACH PARTITION',
+  'ALTER TABLE DETACH PARTITION',
+  'ALTER TABLE DETACH PARTITION CONCURRENTLY',
+  'ALTER TABLE DETACH PARTITION FINALIZE'
+];
+
+// Indexes, VACUUM, ... belong to a single table - only partitioning applies them to every partition
+const INHERITANCE_NON_RECURSIVE_COMMANDS = [
+  'CREATE INDEX',
+  'CREATE INDEX CONCURRENTLY',
+  'VACUUM',
+  'VACUUM FULL',
+  'REINDEX TABLE',
+  'CLUSTER'
+];
+
+// Tables locked as a side effect of ALTER TABLE are never expanded to their children
+const NON_RECURSIVE_ROLES: Array<TableRole | undefined> = ['partition', 'parent', 'referenced'];
+
+// The default partition holds every row no other partition accepts, so a partition
+// joining or leaving changes its partition constraint
+const DEFAULT_PARTITION_NOTES: Record<string, string> = {
+  'ALTER TABLE ATTACH PARTITION': 'ATTACH PARTITION scans the default partition to check that none of its rows belong to the new partition',
+  'ALTER TABLE DETACH PARTITION': 'DETACH PARTITION changes the partition constraint of the default partition'
+};
+
+// A partitioned table locks its partitions as well, and an inheritance parent its child tables -
+// unless ONLY is used. Which partitions the planner prunes isn't known, so all of them are reported.
+function addPartitionLocks(results: TableLockInfo[], command: string, options: AnalysisOptions): TableLockInfo[] {
+  if (!options.partitions) {
+    return results;
+  }
+
+  const locks = [...results];
+  const expanded = new Set<string>();
+
+  // Children added along the way are expanded too, for multi-level hierarchies
+  for (let i = 0; i < locks.length; i++) {
+    const lock = locks[i];
+    const hierarchy = findPartitionHierarchy(lock, options.partitions);
+    const parent = formatTableName(lock);
+    if (!hierarchy || expanded.has(parent)) {
+      continue;
+    }
+    expanded.add(parent);
+
+    if (NON_RECURSIVE_COMMANDS.includes(command) || NON_RECURSIVE_ROLES.includes(lock.role)) {
+      if (lock.role === 'target' && hierarchy.defaultPartition && !hierarchy.inheritance) {
+        addDefaultPartitionLock(locks, lock, hierarchy.defaultPartition, command, options);
+      }
+      continue;
+    }
+
+    if (hierarchy.inheritance && INHERITANCE_NON_RECURSIVE_COMMANDS.includes(command)) {
+      continue;
+    }
+    if (!hierarchy.inheritance && command === 'CREATE INDEX CONCURRENTLY') {
+      lock.notes = [...(lock.notes || []), 'CREATE INDEX CONCURRENTLY is not supported on partitioned tables'];
+      continue;
+    }
+    if (lock.only) {
+      lock.notes = [...(lock.notes || []), getOnlyNote(command, hierarchy)];
+      continue;
+    }
+
+    getChildTables(hierarchy).forEach(child => {
+      const reference = parseQualifiedName(child);
+      addLock(locks, {
+        ...lock,
+        table: formatTableName(reference),
+        catalog: reference.catalog,
+        schema: resolveSchema(reference, options.searchPath),
+        name: reference.name,
+        only: undefined,
+        notes: undefined,
+        partitionOf: lock.table,
+        defaultPartition: (!hierarchy.inheritance && child === hierarchy.defaultPartition) || undefined
+      });
+    });
+  }
+
+  return locks;
+}
+
+function addDefaultPartitionLock(
+  locks: TableLockInfo[],
+  parent: TableLockInfo,
+  defaultPartition: string,
+  command: string,
+  options: AnalysisOptions
+) {
+  if (command === 'ALTER TABLE DETACH PARTITION CONCURRENTLY') {
+    parent.notes = [
+      ...(parent.notes || []),
+      'DETACH PARTITION CONCURRENTLY fails when the partitioned table has a default partition'
+    ];
+    return;
+  }
+
+  const note = DEFAULT_PARTITION_NOTES[command];
+  const lockModeInfo = LOCK_MODES['ACCESS EXCLUSIVE'];
+  if (!note) {
+    return;
+  }
+
+  const reference = parseQualifiedName(defaultPartition);
+  addLock(locks, {
+    table: formatTableName(reference),
+    catalog: reference.catalog,
+    schema: resolveSchema(reference, options.searchPath),
+    name: reference.name,
+    lockMode: lockModeInfo.name,
+    description: lockModeInfo.description,
+    conflicts: lockModeInfo.conflicts,
+    role: 'partition',
+    partitionOf: parent.table,
+    defaultPartition: true,
+    notes: [note]
+  });
+}
+
+function getOnlyNote(command: string, hierarchy: PartitionHierarchy): string {
+  if (hierarchy.inheritance) {
+    return 'ONLY - the child tables are neither read nor locked';
+  }
+  if (command === 'TRUNCATE') {
+    return 'TRUNCATE ONLY fails on a partitioned table - its partitions have to be truncated as well';
+  }
+  if (command === 'CREATE INDEX') {
+    return 'CREATE INDEX ON ONLY creates an invalid index on the partitioned table alone - it becomes valid once an index of every partition is attached';
+  }
+  if (command.startsWith('ALTER TABLE')) {
+    return 'ALTER TABLE ONLY fails on a partitioned table for changes every partition has to share, such as ADD COLUMN';
+  }
+  return 'ONLY - a partitioned table holds no rows of its own, so no partition is read or locked';
+}
+
+function findPartitionHierarchy(
+  lock: TableLockInfo,
+  partitions: Record<string, PartitionHierarchy>
+): PartitionHierarchy | undefined {
+  return partitions[formatTableName({ schema: lock.schema, name: lock.name })] || partitions[lock.name];
+}
+
+function getChildTables(hierarchy: PartitionHierarchy): string[] {
+  const children = [...hierarchy.partitions];
+  if (hierarchy.defaultPartition && !children.includes(hierarchy.defaultPartition)) {
+    children.push(hierarchy.defaultPartition);
+  }
+  return children;
+}
+
+// Commands on a single index lock the index and its table differently
+const INDEX_COMMAND_LOCKS: Record<string, { table: string; index: string }> = {
+  'REINDEX INDEX': { table: 'SHARE', index: 'ACCESS EXCLUSIVE' },
+  'REINDEX INDEX CONCURRENTLY': { table: 'SHARE UPDATE EXCLUSIVE', index: 'SHARE UPDATE EXCLUSIVE' },
+  'DROP INDEX': { table: 'ACCESS EXCLUSIVE', index: 'ACCESS EXCLUSIVE' },
+  'DROP INDEX CONCURRENTLY': { table: 'SHARE UPDATE EXCLUSIVE', index: 'SHARE UPDATE EXCLUSIVE' }
+};
+
+// Commands that lock every index of their target tables, whatever the table lock is
+const TABLE_INDEX_LOCKS: Record<string, string> = {
+  'TRUNCATE': 'ACCESS EXCLUSIVE',
+  'DROP TABLE': 'ACCESS EXCLUSIVE',
+  'CLUSTER': 'ACCESS EXCLUSIVE',
+  'VACUUM FULL': 'ACCESS EXCLUSIVE',
+  'REINDEX TABLE': 'ACCESS EXCLUSIVE',
+  'REINDEX TABLE CONCURRENTLY': 'SHARE UPDATE EXCLUSIVE',
+  'VACUUM': 'ROW EXCLUSIVE',
+  'ANALYZE': 'ACCESS SHARE'
+};
+
+// Reads and writes open the indexes of a table with the lock of the table itself
+const INDEX_SHARED_LOCK_MODES = ['ACCESS SHARE', 'ROW SHARE', 'ROW EXCLUSIVE'];
+
+// REINDEX INDEX and DROP INDEX name an index - once its table is known, report the table
+// with the index the statement acts on
+function resolveIndexReference(reference: TableReference, command: string, options: AnalysisOptions): TableReference {
+  const rule = INDEX_COMMAND_LOCKS[command];
+  if (!rule || !options.indexes) {
+    return reference;
+  }
+
+  const owner = Object.entries(options.indexes).find(([table, indexes]) => {
+    const tableSchema = parseQualifiedName(table).schema;
+    return indexes.includes(reference.name) && (!reference.schema || !tableSchema || tableSchema === reference.schema);
+  });
+  if (!owner) {
+    return reference;
+  }
+
+  return { ...parseQualifiedName(owner[0]), role: 'target', lockMode: rule.table, index: reference.name };
+}
+
+// Add the locks on the indexes of every locked table whose indexes are known
+function addIndexLocks(
+  results: TableLockInfo[],
+  references: TableReference[],
+  command: string,
+  options: AnalysisOptions
+): TableLockInfo[] {
+  if (!options.indexes && !references.some(reference => reference.index)) {
+    return results;
+  }
+
+  return results.map(lock => {
+    const reference = references.find(candidate => formatTableName(candidate) === lock.table);
+    const indexes = getIndexLocks(lock, reference?.index, command, options);
+    return indexes.length > 0 ? { ...lock, indexes } : lock;
+  });
+}
+
+function getIndexLocks(
+  lock: TableLockInfo,
+  index: string | undefined,
+  command: string,
+  options: AnalysisOptions
+): IndexLockInfo[] {
+  const locks: IndexLockInfo[] = [];
+  const addIndexLock = (name: string, lockMode: string, isNew?: boolean) => {
+    const lockModeInfo = LOCK_MODES[lockMode];
+    locks.push({ index: name, lockMode, description: lockModeInfo.description, conflicts: lockModeInfo.conflicts, isNew });
+  };
+
+  // CREATE INDEX builds the new index while nobody else can see it
+  if (index && command.startsWith('CREATE INDEX')) {
+    addIndexLock(index, command === 'CREATE INDEX CONCURRENTLY' ? 'SHARE UPDATE EXCLUSIVE' : 'ACCESS EXCLUSIVE', true);
+    return locks;
+  }
+  if (index && INDEX_COMMAND_LOCKS[command]) {
+    addIndexLock(index, INDEX_COMMAND_LOCKS[command].index);
+    return locks;
+  }
+
+  const indexLockMode = TABLE_INDEX_LOCKS[command] && lock.role === 'target'
+    ? TABLE_INDEX_LOCKS[command]
+    : INDEX_SHARED_LOCK_MODES.find(lockMode => lockMode === lock.lockMode);
+  const indexes = options.indexes?.[formatTableName({ schema: lock.schema, name: lock.name })]
+    || options.indexes?.[lock.name]
+    || [];
+  if (indexLockMode) {
+    indexes.forEach(name => addIndexLock(name, indexLockMode));
+  }
+
+  return locks;
+}
+
+// UPDATE only takes FOR NO KEY UPDATE unless it changes a key column - then the row
+// could be referenced by a foreign key, and FOR UPDATE is needed instead
+function getRowLock(
+  reference: TableReference,
+  schema: string,
+  command: string,
+  isPrimary: boolean,
+  options: AnalysisOptions
+): string | undefined {
+  // References with a lock determined from the AST only carry the row locks found there
+  const rowLock = reference.rowLock || (isPrimary && !reference.lockMode ? COMMAND_ROW_LOCKS[command] : undefined);
+  if (rowLock !== 'FOR NO KEY UPDATE' || !reference.updatedColumns) {
+    return rowLock;
+  }
+
+  const keyColumns = options.keyColumns?.[formatTableName({ schema, name: reference.name })]
+    || options.keyColumns?.[reference.name]
+    || DEFAULT_KEY_COLUMNS;
+  return reference.updatedColumns.some(column => keyColumns.includes(column)) ? 'FOR UPDATE' : rowLock;
+}
+
+// Unqualified names resolve to the first schema of the search_path
+function resolveSchema(table: TableReference, searchPath: string[] = DEFAULT_SEARCH_PATH): string {
+  if (table.schema) {
+    return table.schema;
+  }
+  return searchPath.find(schema => schema !== '$user' && schema.length > 0) || 'public';
+}
+
+// Format [[catalog.]schema.]name, quoting identifiers the way PostgreSQL prints them
+export function formatTableName(table: TableReference): string {
+  return [table.catalog, table.schema, table.name]
+    .filter((part): part is string => Boolean(part))
+    .map(quoteIdentifier)
+    .join('.');
+}
+
+function quoteIdentifier(identifier: string): string {
+  return /^[a-z_][a-z0-9_$]*$/.test(identifier)
+    ? identifier
+    : `"${identifier.replace(/"/g, '""')}"`;
+}
+
+// Parse a possibly qualified and quoted name such as billing."Invoices" into its parts
+export function parseQualifiedName(qualifiedName: string): TableReference {
+  const parts: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < qualifiedName.length; i++) {
+    const char = qualifiedName[i];
+    if (char === '"') {
+      if (inQuotes && qualifiedName[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        inQuotes = !inQuotes;
+      }
+    } else if (char === '.' && !inQuotes) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += inQuotes ? char : char.toLowerCase();
+    }
+  }
+  parts.push(current);
+
+  return {
+    catalog: parts.length > 2 ? parts[parts.length - 3] : undefined,
+    schema: parts.length > 1 ? parts[parts.length - 2] : undefined,
+    name: parts[parts.length - 1]
+  };
+}
+
+// Parse a search_path setting such as `"$user", public` into a list of schemas
+export function parseSearchPath(value: string): string[] {
+  return value
+    .split(',')
+    .map(schema => schema.trim())
+    .filter(schema => schema.length > 0)
+    .map(schema => parseQualifiedName(schema).name);
+}
+
+// Parse partition hierarchies, one partitioned table per line:
+//   measurements: measurements_2024, measurements_2025, DEFAULT measurements_other
+//   cities (inheritance): capitals
+export function parsePartitionHierarchy(value: string): Record<string, PartitionHierarchy> {
+  const hierarchies: Record<string, PartitionHierarchy> = {};
+
+  value.split('\n').forEach(line => {
+    const match = line.match(/^\s*(.+?)\s*(\(inheritance\))?\s*:(.*)$/i);
+    if (!match) {
+      return;
+    }
+
+    const hierarchy: PartitionHierarchy = { partitions: [], inheritance: match[2] ? true : undefined };
+    match[3].split(',').map(child => child.trim()).filter(Boolean).forEach(child => {
+      const defaultMatch = child.match(/^default\s+(.+)$/i);
+      const name = formatTableName(parseQualifiedName(defaultMatch ? defaultMatch[1] : child));
+      if (defaultMatch) {
+        hierarchy.defaultPartition = name;
+      } else {
+        hierarchy.partitions.push(name);
+      }
+    });
+
+    hierarchies[formatTableName(parseQualifiedName(match[1]))] = hierarchy;
+  });
+
+  return hierarchies;
+}
+
+const FOREIGN_KEY_ACTION_PATTERN = /ON\s+(DELETE|UPDATE)\s+(NO\s+ACTION|RESTRICT|CASCADE|SET\s+NULL|SET\s+DEFAULT)/gi;
+
+// Parse foreign keys, one per line - without columns, the primary key is referenced:
+//   orders(customer_id) -> customers(id) ON DELETE CASCADE
+//   order_items(order_id) -> orders ON DELETE CASCADE ON UPDATE RESTRICT
+export function parseForeignKeys(value: string): ForeignKeyDefinition[] {
+  const foreignKeys: ForeignKeyDefinition[] = [];
+
+  value.split('\n').forEach(line => {
+    const match = line.match(/^\s*(.+?)\s*\(([^)]*)\)\s*->\s*([^\s(]+)\s*(?:\(([^)]*)\))?(.*)$/);
+    if (!match) {
+      return;
+    }
+
+    const foreignKey: ForeignKeyDefinition = {
+      table: formatTableName(parseQualifiedName(match[1])),
+      columns: splitColumns(match[2]),
+      referencedTable: formatTableName(parseQualifiedName(match[3])),
+      referencedColumns: splitColumns(match[4] || '')
+    };
+    Array.from(match[5].matchAll(FOREIGN_KEY_ACTION_PATTERN)).forEach(([, event, action]) => {
+      const foreignKeyAction = action.toUpperCase().replace(/\s+/g, ' ') as ForeignKeyAction;
+      if (event.toUpperCase() === 'DELETE') {
+        foreignKey.onDelete = foreignKeyAction;
+      } else {
+        foreignKey.onUpdate = foreignKeyAction;
+      }
+    });
+    foreignKeys.push(foreignKey);
+  });
+
+  return foreignKeys;
+}
+
+function splitColumns(value: string): string[] {
+  return value.split(',').map(column => column.trim()).filter(Boolean);
+}
+
+// Parse index lists, one table per line:
+//   orders: orders_pkey, idx_orders_customer_id
+export function parseIndexList(value: string): Record<string, string[]> {
+  const indexes: Record<string, string[]> = {};
+
+  value.split('\n').forEach(line => {
+    const match = line.match(/^\s*(.+?)\s*:(.*)$/);
+    if (!match) {
+      return;
+    }
+
+    indexes[formatTableName(parseQualifiedName(match[1]))] = match[2]
+      .split(',')
+      .map(index => parseQualifiedName(index.trim()).name)
+      .filter(Boolean);
+  });
+
+  return indexes;
 }
 
 function isPrimaryTable(table: string, command: string, primaryTable: string | undefined, allTables: string[]): boolean {
@@ -627,12 +2669,12 @@ function isPrimaryTable(table: string, command: string, primaryTable: string | u
   }
 
   // For multi-table operations, all tables may be primary
-  if (['TRUNCATE'].includes(command)) {
+  if (['TRUNCATE', 'VACUUM', 'VACUUM FULL', 'ANALYZE'].includes(command)) {
     return true;
   }
 
-  // For single table operations, the first table is usually primary
-  // This is a heuristic and may need refinement based on AST analysis
+  // For single table operations, the first table is usually primary.
+  // This is only a heuristic for plain table names - AST references carry their role
   return table === allTables[0];
 }
 
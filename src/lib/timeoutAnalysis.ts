@@ -0,0 +1,198 @@
+import { ParsedStatement, TableLockInfo, TimeoutSettings, formatTableName } from './sqlParser';
+import { COMMAND_DURATIONS, getLockStrength } from './lockData';
+import { NON_TRANSACTIONAL_COMMANDS } from './transactionAnalysis';
+
+// A statement that waits for a lock that blocks writes for as long as it takes
+export interface TimeoutWarning {
+  statementIndex: number;
+  lockMode: string;
+  tables: string[];
+}
+
+export type TimeoutWrapperFormat = 'psql' | 'plpgsql';
+
+export const RECOMMENDED_TIMEOUTS: Required<TimeoutSettings> = {
+  lockTimeout: '5s',
+  statementTimeout: '1min'
+};
+
+// How often a transaction is tried before the lock timeout is reported
+const MAX_ATTEMPTS = 5;
+
+// While a statement waits for its lock, every later query that conflicts with the lock queues
+// up behind it - from SHARE up, that includes every write to the table
+const MIN_TIMEOUT_LOCK_STRENGTH = getLockStrength('SHARE');
+
+const BEGIN_COMMANDS = ['BEGIN', 'START TRANSACTION'];
+const PLAIN_BEGIN = /^(?:BEGIN|START\s+TRANSACTION)(?:\s+(?:WORK|TRANSACTION))?$/i;
+const TRANSACTION_CONTROL_COMMANDS = [
+  ...BEGIN_COMMANDS,
+  'COMMIT',
+  'ROLLBACK',
+  'SAVEPOINT',
+  'RELEASE SAVEPOINT',
+  'ROLLBACK TO SAVEPOINT',
+  'PREPARE TRANSACTION',
+  'COMMIT PREPARED',
+  'ROLLBACK PREPARED'
+];
+
+const LEADING_COMMENTS = /^(?:\s+|--[^\n]*(?:\n|$)|\/\*[\s\S]*?\*\/)*/;
+const TIMEOUT_SETTING = /^(?:(?:SET(?:\s+(?:SESSION|LOCAL))?|RESET)\s+(?:lock_timeout|statement_timeout)\b|RESET\s+ALL\b)/i;
+
+// A transaction of the script - a transaction block, or a statement run in autocommit mode
+interface ScriptUnit {
+  statements: ParsedStatement[];
+  retry: boolean;
+}
+
+function getStrongLocks(statement: ParsedStatement): TableLockInfo[] {
+  return statement.locks.filter(lock => getLockStrength(lock.lockMode) >= MIN_TIMEOUT_LOCK_STRENGTH);
+}
+
+// Find the statements that take a lock that blocks writes without a lock_timeout in effect
+export function findMissingLockTimeouts(statements: ParsedStatement[]): TimeoutWarning[] {
+  return statements.flatMap((statement, statementIndex) => {
+    const locks = getStrongLocks(statement);
+    if (locks.length === 0 || statement.timeouts?.lockTimeout) {
+      return [];
+    }
+
+    const strongest = locks.reduce((current, lock) =>
+      getLockStrength(lock.lockMode) > getLockStrength(current.lockMode) ? lock : current
+    );
+    return [{ statementIndex, lockMode: strongest.lockMode, tables: locks.map(lock => formatTableName(lock)) }];
+  });
+}
+
+// Wrap a script so that it gives up waiting for its locks after a short lock_timeout, and
+// retries instead - from the shell for psql, or in DO blocks that catch lock_not_available
+export function wrapWithTimeouts(
+  statements: ParsedStatement[],
+  format: TimeoutWrapperFormat,
+  timeouts: Required<TimeoutSettings> = RECOMMENDED_TIMEOUTS
+): string {
+  const lines: string[] = [];
+  // The script's own timeouts would override the wrapper's - lock_timeout = 0 waits forever again
+  const timeoutSettings = statements.filter(isTimeoutSetting);
+  statements = statements.filter(statement => !isTimeoutSetting(statement));
+
+  if (format === 'psql') {
+    lines.push(
+      '-- Retry the whole script when a lock times out, e.g. from the shell:',
+      `--   for attempt in $(seq ${MAX_ATTEMPTS}); do psql -f migration.sql && break; sleep $((attempt * 10)); done`,
+      '-- Statements that succeeded before the timeout run again, so they should be idempotent (IF NOT EXISTS)',
+      '\\set ON_ERROR_STOP on'
+    );
+  }
+
+  lines.push(`SET lock_timeout = '${timeouts.lockTimeout}';`);
+  if (timeoutSettings.length > 0) {
+    lines.push(`-- Left out of the script, they would override the timeouts: ${timeoutSettings.map(statement => statement.sql.replace(LEADING_COMMENTS, '')).join('; ')}`);
+  }
+
+  // A statement_timeout would cancel a statement that scans or rewrites a table halfway through
+  const longRunning = statements.findIndex(isLongRunning);
+  if (longRunning === -1) {
+    lines.push(`SET statement_timeout = '${timeouts.statementTimeout}';`);
+  } else {
+    lines.push(`-- No statement_timeout - statement ${longRunning + 1} scans or rewrites a table`);
+  }
+
+  lines.push('');
+
+  if (format === 'psql') {
+    lines.push(...statements.map(statement => `${statement.sql};`));
+  } else {
+    lines.push(...getScriptUnits(statements).map(unit => unit.retry
+      ? getRetryBlock(unit.statements)
+      : unit.statements.map(statement => `${statement.sql};`).join('\n')
+    ));
+  }
+
+  return lines.join('\n');
+}
+
+function isTimeoutSetting(statement: ParsedStatement): boolean {
+  return ['SET', 'RESET'].includes(statement.command) && TIMEOUT_SETTING.test(statement.sql.replace(LEADING_COMMENTS, ''));
+}
+
+function isLongRunning(statement: ParsedStatement): boolean {
+  return Boolean(COMMAND_DURATIONS[statement.command]) ||
+    statement.locks.some(lock => lock.duration && lock.duration !== 'instant');
+}
+
+// A DO block is a transaction of its own, so it can replace a transaction block of the script
+// as long as the block doesn't use savepoints, chaining or transaction options
+function getScriptUnits(statements: ParsedStatement[]): ScriptUnit[] {
+  const units: ScriptUnit[] = [];
+  let block: ParsedStatement[] | null = null;
+
+  for (const statement of statements) {
+    if (block) {
+      block.push(statement);
+      if (['COMMIT', 'ROLLBACK', 'PREPARE TRANSACTION'].includes(statement.command)) {
+        const [begin, ...rest] = block;
+        const inner = rest.slice(0, -1);
+        const retry = PLAIN_BEGIN.test(begin.sql.replace(LEADING_COMMENTS, '')) &&
+          statement.command === 'COMMIT' &&
+          !statement.chain &&
+          inner.every(canRunInRetryBlock) &&
+          inner.some(innerStatement => getStrongLocks(innerStatement).length > 0);
+
+        units.push(retry ? { statements: inner, retry } : { statements: block, retry });
+        block = null;
+      }
+    } else if (BEGIN_COMMANDS.includes(statement.command)) {
+      block = [statement];
+    } else {
+      units.push({
+        statements: [statement],
+        retry: canRunInRetryBlock(statement) && getStrongLocks(statement).length > 0
+      });
+    }
+  }
+
+  if (block) {
+    units.push({ statements: block, retry: false });
+  }
+
+  return units;
+}
+
+function canRunInRetryBlock(statement: ParsedStatement): boolean {
+  return !TRANSACTION_CONTROL_COMMANDS.includes(statement.command) &&
+    !NON_TRANSACTIONAL_COMMANDS.includes(statement.command);
+}
+
+// Rolling back to the start of the block releases the locks taken so far, so nothing is held while it sleeps
+function getRetryBlock(statements: ParsedStatement[]): string {
+  const body = statements.map(statement => `${statement.sql};`).join('\n');
+  let tag = '$$';
+  for (let i = 1; body.includes(tag); i++) {
+    tag = `$retry${i}$`;
+  }
+
+  return [
+    `DO ${tag}`,
+    '#variable_conflict use_column',
+    'DECLARE',
+    '  lock_attempt int := 1;',
+    'BEGIN',
+    '  LOOP',
+    '    BEGIN',
+    body.replace(/^/gm, '      '),
+    '      EXIT;',
+    '    EXCEPTION WHEN lock_not_available THEN',
+    `      IF lock_attempt >= ${MAX_ATTEMPTS} THEN`,
+    '        RAISE;',
+    '      END IF;',
+    "      RAISE NOTICE 'Lock not available, retrying (attempt %)', lock_attempt;",
+    '      PERFORM pg_sleep(lock_attempt * 2);',
+    '      lock_attempt := lock_attempt + 1;',
+    '    END;',
+    '  END LOOP;',
+    'END',
+    `${tag};`
+  ].join('\n');
+}
@@ -0,0 +1,187 @@
+import { ParsedStatement, TableLockInfo, formatTableName } from './sqlParser';
+import { getLockStrength } from './lockData';
+
+export interface HeldLock {
+  table: string; // fully qualified name
+  lockMode: string;
+  acquiredBy: number; // index of the statement that acquired the (strongest) mode
+}
+
+export interface TransactionStep {
+  statementIndex: number;
+  command: string;
+  transaction: number;
+  isAutocommit: boolean;
+  acquired: TableLockInfo[];
+  held: HeldLock[];
+  released: HeldLock[];
+  warnings: string[];
+}
+
+// Commands PostgreSQL refuses to run inside a transaction block
+export const NON_TRANSACTIONAL_COMMANDS = [
+  'CREATE INDEX CONCURRENTLY',
+  'DROP INDEX CONCURRENTLY',
+  'REINDEX INDEX CONCURRENTLY',
+  'REINDEX TABLE CONCURRENTLY',
+  'REINDEX SCHEMA',
+  'REINDEX SCHEMA CONCURRENTLY',
+  'REINDEX SYSTEM',
+  'REINDEX DATABASE',
+  'REINDEX DATABASE CONCURRENTLY',
+  'ALTER TABLE DETACH PARTITION CONCURRENTLY',
+  'VACUUM',
+  'VACUUM FULL'
+];
+
+const BEGIN_COMMANDS = ['BEGIN', 'START TRANSACTION'];
+const END_COMMANDS = ['COMMIT', 'ROLLBACK', 'PREPARE TRANSACTION'];
+
+interface Savepoint {
+  name: string;
+  held: Map<string, HeldLock>;
+}
+
+// Table locks are held until the end of the transaction, so walk the script and
+// accumulate the locks of every statement until COMMIT/ROLLBACK releases them.
+// Statements outside of an explicit transaction block run in autocommit mode and
+// release their locks as soon as they finish.
+export function analyzeTransactions(statements: ParsedStatement[]): TransactionStep[] {
+  const steps: TransactionStep[] = [];
+  let held = new Map<string, HeldLock>();
+  let savepoints: Savepoint[] = [];
+  let inTransactionBlock = false;
+  let transaction = 0;
+
+  statements.forEach((statement, statementIndex) => {
+    const { command } = statement;
+    const warnings: string[] = [];
+    let released: HeldLock[] = [];
+
+    if (BEGIN_COMMANDS.includes(command)) {
+      if (inTransactionBlock) {
+        warnings.push('There is already a transaction in progress - this statement is ignored');
+      } else {
+        inTransactionBlock = true;
+        transaction++;
+      }
+    } else if (END_COMMANDS.includes(command)) {
+      if (!inTransactionBlock) {
+        warnings.push('There is no transaction in progress');
+      } else {
+        released = Array.from(held.values());
+        held = new Map();
+        savepoints = [];
+
+        if (command === 'PREPARE TRANSACTION') {
+          warnings.push('The prepared transaction keeps its locks until COMMIT PREPARED or ROLLBACK PREPARED');
+        }
+
+        // COMMIT AND CHAIN / ROLLBACK AND CHAIN immediately start a new transaction
+        if (statement.chain) {
+          transaction++;
+        } else {
+          inTransactionBlock = false;
+        }
+      }
+    } else if (command === 'SAVEPOINT') {
+      if (!inTransactionBlock) {
+        warnings.push('SAVEPOINT can only be used in transaction blocks');
+      } else {
+        savepoints.push({ name: statement.savepoint || '', held: new Map(held) });
+      }
+    } else if (command === 'RELEASE SAVEPOINT' || command === 'ROLLBACK TO SAVEPOINT') {
+      const savepointIndex = findSavepoint(savepoints, statement.savepoint);
+
+      if (!inTransactionBlock) {
+        warnings.push(`${command} can only be used in transaction blocks`);
+      } else if (savepointIndex === -1) {
+        warnings.push(`Savepoint "${statement.savepoint}" does not exist`);
+      } else if (command === 'RELEASE SAVEPOINT') {
+        // Releasing a savepoint keeps every lock acquired after it
+        savepoints = savepoints.slice(0, savepointIndex);
+      } else {
+        // Rolling back to a savepoint releases the locks acquired after it
+        const savepoint = savepoints[savepointIndex];
+        released = Array.from(held.values()).filter(lock => {
+          const lockAtSavepoint = savepoint.held.get(lock.table);
+          return !lockAtSavepoint || lockAtSavepoint.lockMode !== lock.lockMode;
+        });
+        held = new Map(savepoint.held);
+        savepoints = savepoints.slice(0, savepointIndex + 1);
+      }
+    } else if (!inTransactionBlock) {
+      // Autocommit - the statement is its own transaction
+      transaction++;
+      const autocommitHeld = acquireLocks(new Map(), statement.locks, statementIndex);
+
+      steps.push({
+        statementIndex,
+        command,
+        transaction,
+        isAutocommit: true,
+        acquired: statement.locks,
+        held: Array.from(autocommitHeld.values()),
+        released: Array.from(autocommitHeld.values()),
+        warnings
+      });
+      return;
+    } else {
+      if (NON_TRANSACTIONAL_COMMANDS.includes(command)) {
+        warnings.push(`${command} cannot run inside a transaction block`);
+      }
+      held = acquireLocks(held, statement.locks, statementIndex);
+    }
+
+    steps.push({
+      statementIndex,
+      command,
+      transaction,
+      isAutocommit: false,
+      acquired: statement.locks,
+      held: Array.from(held.values()),
+      released,
+      warnings
+    });
+  });
+
+  if (inTransactionBlock && steps.length > 0) {
+    steps[steps.length - 1].warnings.push(
+      'The transaction is never committed - its locks are held until the session ends'
+    );
+  }
+
+  return steps;
+}
+
+// Keep the strongest mode per table - a transaction never gives up a lock before it ends
+function acquireLocks(
+  held: Map<string, HeldLock>,
+  locks: TableLockInfo[],
+  statementIndex: number
+): Map<string, HeldLock> {
+  const result = new Map(held);
+
+  for (const lock of locks) {
+    const table = formatTableName(lock);
+    const current = result.get(table);
+    if (!current || getLockStrength(lock.lockMode) > getLockStrength(current.lockMode)) {
+      result.set(table, {
+        table,
+        lockMode: lock.lockMode,
+        acquiredBy: statementIndex
+      });
+    }
+  }
+
+  return result;
+}
+
+function findSavepoint(savepoints: Savepoint[], name: string | undefined): number {
+  for (let i = savepoints.length - 1; i >= 0; i--) {
+    if (savepoints[i].name === name) {
+      return i;
+    }
+  }
+  return -1;
+}
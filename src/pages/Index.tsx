@@ -1,27 +1,103 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { SQLQueryInput } from "@/components/SQLQueryInput";
-import {
-  LockAnalysisResults,
-  LockAnalysis,
-} from "@/components/LockAnalysisResults";
+import { LockAnalysisResults } from "@/components/LockAnalysisResults";
 import { ErrorMessage } from "@/components/ErrorMessage";
-import {
-  parseSQL,
-  getLockAnalysis,
-  getTableLockAnalysis,
-} from "@/lib/sqlParser";
+import { TransactionTimeline } from "@/components/TransactionTimeline";
+import { MigrationLintPanel } from "@/components/MigrationLintPanel";
+import { SafeRewritePanel } from "@/components/SafeRewritePanel";
+import { TimeoutPanel } from "@/components/TimeoutPanel";
+import { SearchPathInput } from "@/components/SearchPathInput";
+import { PartitionsInput } from "@/components/PartitionsInput";
+import { IndexesInput } from "@/components/IndexesInput";
+import { ForeignKeysInput } from "@/components/ForeignKeysInput";
+import { parseScript, parseSearchPath, parsePartitionHierarchy, parseIndexList, parseForeignKeys, ParsedStatement } from "@/lib/sqlParser";
+import { analyzeTransactions, TransactionStep } from "@/lib/transactionAnalysis";
+import { lintStatements, LintFinding } from "@/lib/migrationLinter";
+import { suggestSafeRewrites, SafeRewrite } from "@/lib/safeRewrites";
+import { findMissingLockTimeouts, TimeoutWarning } from "@/lib/timeoutAnalysis";
 import { getQueryFromUrl, updateUrlWithQuery } from "@/lib/urlUtils";
+import { usePgVersion } from "@/hooks/use-pg-version";
+import { useSchemaCatalog } from "@/hooks/use-schema-catalog";
+import { getCatalogAnalysisOptions } from "@/lib/schemaCatalog";
 import { Lock, Zap, GitCompare } from "lucide-react";
 import { Link } from "react-router-dom";
 
 const Index = () => {
   const [query, setQuery] = useState("");
-  const [results, setResults] = useState<LockAnalysis[]>([]);
+  const [searchPath, setSearchPath] = useState('"$user", public');
+  const [partitions, setPartitions] = useState("");
+  const [indexes, setIndexes] = useState("");
+  const [foreignKeys, setForeignKeys] = useState("");
+  const [statements, setStatements] = useState<ParsedStatement[]>([]);
+  const [transactionSteps, setTransactionSteps] = useState<TransactionStep[]>([]);
+  const [lintFindings, setLintFindings] = useState<LintFinding[]>([]);
+  const [rewrites, setRewrites] = useState<SafeRewrite[]>([]);
+  const [timeoutWarnings, setTimeoutWarnings] = useState<TimeoutWarning[]>([]);
   const [error, setError] = useState<string>("");
-  const [queryType, setQueryType] = useState<string>("");
   const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const { version } = usePgVersion();
+  const [analyzedVersion, setAnalyzedVersion] = useState(version);
+  const { catalog } = useSchemaCatalog();
+
+  const analyzeQueryWithValue = useCallback(async (queryToAnalyze: string) => {
+    setIsAnalyzing(true);
+    setError("");
+    setStatements([]);
+    setTransactionSteps([]);
+    setLintFindings([]);
+    setRewrites([]);
+    setTimeoutWarnings([]);
+
+    try {
+      // Small delay for better UX
+      await new Promise((resolve) => setTimeout(resolve, 200));
+
+      // Every statement of the script is analyzed, not just the first one
+      // Partitions, indexes and foreign keys entered by hand are combined with the ones from the schema
+      const catalogOptions = getCatalogAnalysisOptions(catalog);
+      const options = {
+        ...catalogOptions,
+        searchPath: parseSearchPath(searchPath),
+        partitions: { ...catalogOptions.partitions, ...parsePartitionHierarchy(partitions) },
+        indexes: { ...catalogOptions.indexes, ...parseIndexList(indexes) },
+        foreignKeys: [...(catalogOptions.foreignKeys || []), ...parseForeignKeys(foreignKeys)],
+        version,
+      };
+      const parsed = await parseScript(queryToAnalyze, options);
+
+      if (!parsed.isValid) {
+        setError(parsed.error || "Failed to parse SQL query");
+        setIsAnalyzing(false);
+        return;
+      }
+
+      if (parsed.statements.every((statement) => statement.tables.length === 0 && !statement.routines)) {
+        setError("No tables found in the query");
+        setIsAnalyzing(false);
+        return;
+      }
+
+      if (parsed.statements.every((statement) => statement.locks.length === 0 && !statement.notes)) {
+        setError(`Lock analysis not available for command: ${parsed.statements[0].command}`);
+        setIsAnalyzing(false);
+        return;
+      }
+
+      setStatements(parsed.statements);
+      setAnalyzedVersion(version);
+      setTransactionSteps(analyzeTransactions(parsed.statements));
+      setLintFindings(lintStatements(parsed.statements));
+      setTimeoutWarnings(findMissingLockTimeouts(parsed.statements));
+      setRewrites(await suggestSafeRewrites(parsed.statements, options));
+      setIsAnalyzing(false);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      setError(`Analysis failed: ${errorMessage}`);
+      setIsAnalyzing(false);
+    }
+  }, [searchPath, partitions, indexes, foreignKeys, version, catalog]);
 
   // Load query from URL on component mount
   useEffect(() => {
@@ -33,6 +109,8 @@ const Index = () => {
         analyzeQueryWithValue(urlQuery);
       }, 100);
     }
+    // Only runs on mount - later edits are analyzed on demand
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
   // Update URL when query changes (but skip initial load and empty queries)
@@ -55,52 +133,7 @@ const Index = () => {
     return () => {
       document.removeEventListener("keydown", handleKeyDown);
     };
-  }, [query, isAnalyzing]);
-
-  const analyzeQueryWithValue = async (queryToAnalyze: string) => {
-    setIsAnalyzing(true);
-    setError("");
-    setResults([]);
-
-    try {
-      // Small delay for better UX
-      await new Promise((resolve) => setTimeout(resolve, 200));
-
-      const parsed = await parseSQL(queryToAnalyze);
-
-      if (!parsed.isValid) {
-        setError(parsed.error || "Failed to parse SQL query");
-        setIsAnalyzing(false);
-        return;
-      }
-
-      if (parsed.tables.length === 0) {
-        setError("No tables found in the query");
-        setIsAnalyzing(false);
-        return;
-      }
-
-      // Use the new getTableLockAnalysis function for individual table lock modes
-      const analysisResults: LockAnalysis[] = getTableLockAnalysis(
-        parsed.tables,
-        parsed.command
-      );
-
-      if (analysisResults.length === 0) {
-        setError(`Lock analysis not available for command: ${parsed.command}`);
-        setIsAnalyzing(false);
-        return;
-      }
-
-      setResults(analysisResults);
-      setQueryType(parsed.command);
-      setIsAnalyzing(false);
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      setError(`Analysis failed: ${errorMessage}`);
-      setIsAnalyzing(false);
-    }
-  };
+  }, [query, isAnalyzing, analyzeQueryWithValue]);
 
   const analyzeQuery = async () => {
     await analyzeQueryWithValue(query);
@@ -125,6 +158,21 @@ const Index = () => {
       query:
         "SELECT u.name, p.title FROM users u JOIN posts p ON u.id = p.user_id;",
     },
+    {
+      label: "ALTER TABLE",
+      query:
+        "ALTER TABLE orders\n  ALTER COLUMN note SET STATISTICS 500,\n  SET (fillfactor = 80),\n  ENABLE TRIGGER audit_orders;",
+    },
+    {
+      label: "Transaction",
+      query:
+        "BEGIN;\nALTER TABLE orders DROP COLUMN legacy_note;\nUPDATE orders SET note = 'migrated' WHERE id = 1;\nCOMMIT;",
+    },
+    {
+      label: "Migration Script",
+      query:
+        "ALTER TABLE orders ADD COLUMN shipped_at timestamptz;\nCREATE INDEX CONCURRENTLY idx_orders_shipped_at ON orders(shipped_at);",
+    },
   ];
 
   return (
@@ -144,8 +192,8 @@ const Index = () => {
           </div>
           <p className="text-lg text-muted-foreground max-w-2xl mx-auto">
             Analyze your PostgreSQL queries to understand what locks on each
-            table will be acquired. Enter an SQL query below and get detailed
-            lock analysis.
+            table will be acquired. Enter an SQL query or a whole migration
+            script below and get detailed lock analysis for every statement.
           </p>
           <div className="mt-6">
             <Link to="/compare">
@@ -174,6 +222,10 @@ const Index = () => {
                   onChange={setQuery}
                   placeholder="Enter your PostgreSQL query here... (e.g., SELECT * FROM users WHERE active = true;)"
                 />
+                <SearchPathInput value={searchPath} onChange={setSearchPath} />
+                <PartitionsInput value={partitions} onChange={setPartitions} />
+                <IndexesInput value={indexes} onChange={setIndexes} />
+                <ForeignKeysInput value={foreignKeys} onChange={setForeignKeys} />
                 <Button
                   onClick={analyzeQuery}
                   disabled={!query.trim() || isAnalyzing}
@@ -189,9 +241,48 @@ const Index = () => {
             {/* Error Message */}
             {error && <ErrorMessage message={error} />}
 
-            {/* Results */}
-            {results.length > 0 && (
-              <LockAnalysisResults results={results} queryType={queryType} />
+            {statements.length > 0 && (
+              <MigrationLintPanel
+                findings={lintFindings}
+                statementCount={statements.length}
+              />
+            )}
+            <TimeoutPanel warnings={timeoutWarnings} statements={statements} />
+            <SafeRewritePanel
+              rewrites={rewrites}
+              statementCount={statements.length}
+            />
+
+            {/* Results - one section per statement of the script */}
+            {statements.length === 1 && (
+              <LockAnalysisResults
+                results={statements[0].locks}
+                queryType={statements[0].command}
+                actions={statements[0].actions}
+                notes={statements[0].notes}
+                timeouts={statements[0].timeouts}
+                version={analyzedVersion}
+              />
+            )}
+            {statements.length > 1 && (
+              <TransactionTimeline steps={transactionSteps} />
+            )}
+            {statements.length > 1 && (
+              <div className="space-y-10">
+                {statements.map((statement, index) => (
+                  <LockAnalysisResults
+                    key={index}
+                    results={statement.locks}
+                    queryType={statement.command}
+                    title={`Statement ${index + 1} of ${statements.length}`}
+                    statementSql={statement.sql}
+                    actions={statement.actions}
+                    notes={statement.notes}
+                    timeouts={statement.timeouts}
+                    version={analyzedVersion}
+                  />
+                ))}
+              </div>
             )}
           </div>
 
@@ -0,0 +1,205 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { toast } from "@/components/ui/sonner";
+import { ErrorMessage } from "@/components/ErrorMessage";
+import { PLAN_INTENT_EXAMPLES, SchemaChangePlan, planSchemaChange } from "@/lib/schemaChangePlanner";
+import { getCatalogAnalysisOptions } from "@/lib/schemaCatalog";
+import { LOCK_DURATIONS, LockDuration } from "@/lib/lockData";
+import { useSchemaCatalog } from "@/hooks/use-schema-catalog";
+import { usePgVersion } from "@/hooks/use-pg-version";
+import { ListChecks, Route as RouteIcon, Copy, Info } from "lucide-react";
+
+const getDurationBadgeVariant = (duration: LockDuration) => {
+  switch (duration) {
+    case "rewrite":
+      return "destructive";
+    case "scan":
+      return "outline";
+    default:
+      return "secondary";
+  }
+};
+
+const Plan = () => {
+  const { catalog } = useSchemaCatalog();
+  const { version } = usePgVersion();
+  const [intent, setIntent] = useState("");
+  const [plan, setPlan] = useState<SchemaChangePlan | null>(null);
+  const [error, setError] = useState("");
+  const [isPlanning, setIsPlanning] = useState(false);
+
+  const createPlan = async (text: string = intent) => {
+    setIsPlanning(true);
+    setError("");
+    setPlan(null);
+
+    const result = await planSchemaChange(
+      text,
+      { ...getCatalogAnalysisOptions(catalog), version },
+      catalog
+    );
+    if (result.plan) {
+      setPlan(result.plan);
+    } else {
+      setError(result.error || "Failed to plan the change");
+    }
+
+    setIsPlanning(false);
+  };
+
+  const selectExample = (example: string) => {
+    setIntent(example);
+    createPlan(example);
+  };
+
+  const copyPlan = async () => {
+    if (!plan) {
+      return;
+    }
+    try {
+      await navigator.clipboard.writeText(
+        plan.steps.map((step, i) => `-- Step ${i + 1}: ${step.title}\n${step.sql}`).join("\n\n")
+      );
+      toast.success("Plan copied to the clipboard");
+    } catch {
+      toast.error("Could not copy the plan");
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background to-muted/30">
+      <div className="container mx-auto px-4 py-8 max-w-6xl">
+        {/* Header */}
+        <div className="text-center mb-8">
+          <h1 className="text-4xl font-bold bg-gradient-to-r from-primary to-accent bg-clip-text text-transparent mb-4">
+            Plan a Schema Change
+          </h1>
+          <p className="text-lg text-muted-foreground max-w-3xl mx-auto">
+            Describe the change you want to make, and get the sequence of
+            statements that makes it without blocking traffic for long - with
+            the lock and its duration for every step. Indexes from the loaded
+            schema are rebuilt along the way.
+          </p>
+        </div>
+
+        <div className="space-y-8">
+          <Card className="shadow-elegant">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <RouteIcon className="h-5 w-5 text-primary" />
+                Change
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex gap-2">
+                <Input
+                  value={intent}
+                  onChange={(e) => setIntent(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter" && intent.trim() && !isPlanning) {
+                      createPlan();
+                    }
+                  }}
+                  placeholder="change column orders.amount from int to bigint"
+                  className="font-mono text-sm"
+                />
+                <Button
+                  onClick={() => createPlan()}
+                  disabled={!intent.trim() || isPlanning}
+                >
+                  <ListChecks className="h-4 w-4 mr-2" />
+                  {isPlanning ? "Planning..." : "Plan Change"}
+                </Button>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {PLAN_INTENT_EXAMPLES.map((example) => (
+                  <Badge
+                    key={example}
+                    variant="outline"
+                    className="font-mono text-xs cursor-pointer hover:opacity-80 transition-opacity"
+                    onClick={() => selectExample(example)}
+                  >
+                    {example}
+                  </Badge>
+                ))}
+              </div>
+              {error && <ErrorMessage message={error} />}
+            </CardContent>
+          </Card>
+
+          {plan && (
+            <Card className="shadow-elegant">
+              <CardHeader>
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <CardTitle className="flex items-center gap-2">
+                    <ListChecks className="h-5 w-5 text-primary" />
+                    {plan.title}
+                  </CardTitle>
+                  <Button variant="outline" size="sm" onClick={copyPlan}>
+                    <Copy className="h-3 w-3 mr-2" />
+                    Copy
+                  </Button>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <ol className="space-y-6">
+                  {plan.steps.map((step, i) => (
+                    <li key={i} className="border-l-2 border-primary/30 pl-4 space-y-2">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <h4 className="font-semibold text-sm">
+                          {i + 1}. {step.title}
+                        </h4>
+                        {step.peakLock && (
+                          <Link to={`/lock/${encodeURIComponent(step.peakLock)}`}>
+                            <Badge
+                              variant="outline"
+                              className="font-mono text-xs cursor-pointer hover:opacity-80 transition-opacity"
+                            >
+                              {step.peakLock}
+                            </Badge>
+                          </Link>
+                        )}
+                        <Badge
+                          variant={getDurationBadgeVariant(step.duration)}
+                          className="text-xs"
+                          title={LOCK_DURATIONS[step.duration].description}
+                        >
+                          {LOCK_DURATIONS[step.duration].label}
+                        </Badge>
+                        {step.batched && (
+                          <Badge variant="secondary" className="text-xs">
+                            batched
+                          </Badge>
+                        )}
+                      </div>
+                      <p className="text-sm text-muted-foreground">{step.description}</p>
+                      <pre className="text-xs font-mono bg-muted/50 rounded p-3 whitespace-pre-wrap break-words">
+                        {step.sql}
+                      </pre>
+                    </li>
+                  ))}
+                </ol>
+                {plan.notes.length > 0 && (
+                  <ul className="space-y-2">
+                    {plan.notes.map((note, i) => (
+                      <li key={i} className="text-sm text-muted-foreground flex gap-2">
+                        <Info className="h-4 w-4 flex-shrink-0 mt-0.5" />
+                        {note}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Plan;
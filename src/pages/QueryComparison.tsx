@@ -3,10 +3,19 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { SQLQueryInput } from "@/components/SQLQueryInput";
+import { SearchPathInput } from "@/components/SearchPathInput";
+import { PartitionsInput } from "@/components/PartitionsInput";
+import { IndexesInput } from "@/components/IndexesInput";
+import { ForeignKeysInput } from "@/components/ForeignKeysInput";
 import { ErrorMessage } from "@/components/ErrorMessage";
 import {
   parseSQL,
-  getTableLockAnalysis,
+  parseSearchPath,
+  parsePartitionHierarchy,
+  parseIndexList,
+  parseForeignKeys,
+  getStatementLockAnalysis,
+  formatTableName,
   TableLockInfo,
 } from "@/lib/sqlParser";
 import {
@@ -17,15 +26,24 @@ import {
 } from "@/lib/queryComparison";
 import { GitCompare, Users, Shield, AlertTriangle } from "lucide-react";
 import { useSearchParams } from "react-router-dom";
+import { usePgVersion } from "@/hooks/use-pg-version";
+import { useSchemaCatalog } from "@/hooks/use-schema-catalog";
+import { getCatalogAnalysisOptions } from "@/lib/schemaCatalog";
 
 const QueryComparison = () => {
   const [searchParams, setSearchParams] = useSearchParams();
   const [query1, setQuery1] = useState("");
   const [query2, setQuery2] = useState("");
+  const [searchPath, setSearchPath] = useState('"$user", public');
+  const [partitions, setPartitions] = useState("");
+  const [indexes, setIndexes] = useState("");
+  const [foreignKeys, setForeignKeys] = useState("");
   const [query1Analysis, setQuery1Analysis] = useState<QueryAnalysisInput | null>(null);
   const [query2Analysis, setQuery2Analysis] = useState<QueryAnalysisInput | null>(null);
   const [comparisonResult, setComparisonResult] = useState<QueryComparisonResult | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const { version } = usePgVersion();
+  const { catalog } = useSchemaCatalog();
 
   const analyzeQueries = useCallback(async () => {
     if (!query1.trim() || !query2.trim()) {
@@ -39,18 +57,29 @@ const QueryComparison = () => {
       // Small delay for better UX
       await new Promise((resolve) => setTimeout(resolve, 200));
 
+      // Partitions, indexes and foreign keys entered by hand are combined with the ones from the schema
+      const catalogOptions = getCatalogAnalysisOptions(catalog);
+      const options = {
+        ...catalogOptions,
+        searchPath: parseSearchPath(searchPath),
+        partitions: { ...catalogOptions.partitions, ...parsePartitionHierarchy(partitions) },
+        indexes: { ...catalogOptions.indexes, ...parseIndexList(indexes) },
+        foreignKeys: [...(catalogOptions.foreignKeys || []), ...parseForeignKeys(foreignKeys)],
+        version,
+      };
+
       // Parse both queries in parallel
       const [parsed1, parsed2] = await Promise.all([
-        parseSQL(query1),
-        parseSQL(query2),
+        parseSQL(query1, options),
+        parseSQL(query2, options),
       ]);
 
       // Analyze locks for both queries
       let analysis1: QueryAnalysisInput;
       let analysis2: QueryAnalysisInput;
 
-      if (parsed1.isValid && parsed1.tables.length > 0) {
-        const lockAnalysis1 = getTableLockAnalysis(parsed1.tables, parsed1.command);
+      if (parsed1.isValid && (parsed1.tables.length > 0 || parsed1.routines)) {
+        const lockAnalysis1 = getStatementLockAnalysis(parsed1, options);
         analysis1 = {
           query: query1,
           tables: lockAnalysis1,
@@ -65,8 +94,8 @@ const QueryComparison = () => {
         };
       }
 
-      if (parsed2.isValid && parsed2.tables.length > 0) {
-        const lockAnalysis2 = getTableLockAnalysis(parsed2.tables, parsed2.command);
+      if (parsed2.isValid && (parsed2.tables.length > 0 || parsed2.routines)) {
+        const lockAnalysis2 = getStatementLockAnalysis(parsed2, options);
         analysis2 = {
           query: query2,
           tables: lockAnalysis2,
@@ -93,7 +122,7 @@ const QueryComparison = () => {
       console.error("Analysis failed:", error);
       setIsAnalyzing(false);
     }
-  }, [query1, query2]);
+  }, [query1, query2, searchPath, partitions, indexes, foreignKeys, version, catalog]);
 
   // Update URL when queries change
   const updateURL = useCallback((newQuery1: string, newQuery2: string) => {
@@ -184,6 +213,18 @@ const QueryComparison = () => {
       query1: "SELECT * FROM orders WHERE status = 'pending';",
       query2: "SELECT COUNT(*) FROM orders WHERE created_at > NOW() - INTERVAL '1 day';",
     },
+    {
+      label: "Row Lock Conflict",
+      description: "Compatible table locks, conflicting row locks",
+      query1: "UPDATE orders SET status = 'shipped' WHERE id = 1;",
+      query2: "SELECT * FROM orders WHERE id = 1 FOR SHARE;",
+    },
+    {
+      label: "LOCK TABLE NOWAIT",
+      description: "Explicit lock that fails instead of waiting",
+      query1: "UPDATE orders SET status = 'shipped' WHERE id = 1;",
+      query2: "LOCK TABLE orders IN SHARE ROW EXCLUSIVE MODE NOWAIT;",
+    },
   ];
 
   return (
@@ -241,6 +282,14 @@ const QueryComparison = () => {
           </Card>
         </div>
 
+        {/* Shared search_path, partitions, indexes and foreign keys for both queries */}
+        <div className="max-w-md mx-auto mb-6 space-y-4">
+          <SearchPathInput value={searchPath} onChange={setSearchPath} />
+          <PartitionsInput value={partitions} onChange={setPartitions} />
+          <IndexesInput value={indexes} onChange={setIndexes} />
+          <ForeignKeysInput value={foreignKeys} onChange={setForeignKeys} />
+        </div>
+
         {/* Analyze Button */}
         <div className="flex justify-center mb-8">
           <Button
@@ -315,9 +364,9 @@ const QueryComparison = () => {
                             <Badge variant="destructive">Conflict</Badge>
                           </div>
                           <div className="text-sm text-muted-foreground">
-                            Query 1: <Badge variant="outline">{conflict.query1Lock}</Badge>
+                            Query 1: <Badge variant="outline">{conflict.query1Lock}{conflict.query1Nowait && " NOWAIT"}</Badge>
                             {" vs "}
-                            Query 2: <Badge variant="outline">{conflict.query2Lock}</Badge>
+                            Query 2: <Badge variant="outline">{conflict.query2Lock}{conflict.query2Nowait && " NOWAIT"}</Badge>
                           </div>
                           <p className="text-sm text-red-600 dark:text-red-400 mt-1">
                             {conflict.conflictReason}
@@ -329,6 +378,37 @@ const QueryComparison = () => {
                 </Card>
               )}
 
+              {/* Row Lock Warnings */}
+              {comparisonResult.rowLockWarnings.length > 0 && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-warning">
+                      Row-level Conflicts
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="space-y-3">
+                      {comparisonResult.rowLockWarnings.map((warning, index) => (
+                        <div key={index} className="p-3 border rounded-lg bg-warning/10">
+                          <div className="flex items-center justify-between mb-2">
+                            <span className="font-medium">{warning.table}</span>
+                            <Badge variant="outline">Overlapping rows</Badge>
+                          </div>
+                          <div className="text-sm text-muted-foreground">
+                            Query 1: <Badge variant="outline">{warning.query1RowLock}</Badge>
+                            {" vs "}
+                            Query 2: <Badge variant="outline">{warning.query2RowLock}</Badge>
+                          </div>
+                          <p className="text-sm text-warning mt-1">
+                            {warning.message}
+                          </p>
+                        </div>
+                      ))}
+                    </div>
+                  </CardContent>
+                </Card>
+              )}
+
               {/* Compatible Tables */}
               {comparisonResult.compatibleTables.length > 0 && (
                 <Card>
@@ -398,7 +478,7 @@ const QueryComparison = () => {
                     <div className="space-y-2">
                       {query1Analysis.tables.map((table, index) => (
                         <div key={index} className="flex justify-between items-center text-sm">
-                          <span>{table.table}</span>
+                          <span>{formatTableName(table)}</span>
                           <Badge variant="secondary">{table.lockMode}</Badge>
                         </div>
                       ))}
@@ -416,7 +496,7 @@ const QueryComparison = () => {
                     <div className="space-y-2">
                       {query2Analysis.tables.map((table, index) => (
                         <div key={index} className="flex justify-between items-center text-sm">
-                          <span>{table.table}</span>
+                          <span>{formatTableName(table)}</span>
                           <Badge variant="secondary">{table.lockMode}</Badge>
                         </div>
                       ))}
@@ -0,0 +1,178 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { ErrorMessage } from "@/components/ErrorMessage";
+import { parseSchemaCatalog } from "@/lib/schemaCatalog";
+import { useSchemaCatalog } from "@/hooks/use-schema-catalog";
+import { usePgVersion } from "@/hooks/use-pg-version";
+import { Database, Upload, Trash2 } from "lucide-react";
+
+const Schema = () => {
+  const { ddl, catalog, setSchema } = useSchemaCatalog();
+  const { version } = usePgVersion();
+  const [input, setInput] = useState(ddl);
+  const [error, setError] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+
+  const loadCatalog = async () => {
+    setIsLoading(true);
+    setError("");
+
+    const result = await parseSchemaCatalog(input, version);
+    if (result.catalog) {
+      setSchema({ ddl: input, catalog: result.catalog });
+    } else {
+      setError(result.error || "Failed to parse the schema");
+    }
+
+    setIsLoading(false);
+  };
+
+  const clearCatalog = () => {
+    setInput("");
+    setError("");
+    setSchema({ ddl: "", catalog: null });
+  };
+
+  const tables = catalog ? Object.entries(catalog.tables) : [];
+  const views = catalog ? Object.entries(catalog.views) : [];
+  const sequences = catalog ? Object.keys(catalog.sequences) : [];
+  const functions = catalog ? Object.entries(catalog.functions || {}) : [];
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background to-muted/30">
+      <div className="container mx-auto px-4 py-8 max-w-6xl">
+        {/* Header */}
+        <div className="text-center mb-8">
+          <h1 className="text-4xl font-bold bg-gradient-to-r from-primary to-accent bg-clip-text text-transparent mb-4">
+            Schema
+          </h1>
+          <p className="text-lg text-muted-foreground max-w-3xl mx-auto">
+            Paste the output of <code className="font-mono">pg_dump --schema-only</code>{" "}
+            or any DDL. Indexes, foreign keys, triggers and their functions,
+            views, partitions and sequences are then used by every analysis.
+            The schema is kept in this browser only.
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+          <Card className="shadow-elegant">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Upload className="h-5 w-5 text-primary" />
+                Schema DDL
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <Textarea
+                value={input}
+                onChange={(e) => setInput(e.target.value)}
+                placeholder={"CREATE TABLE public.orders (\n    id bigint NOT NULL,\n    customer_id bigint\n);\n..."}
+                className="min-h-[400px] font-mono text-sm"
+              />
+              <div className="flex gap-2">
+                <Button
+                  onClick={loadCatalog}
+                  disabled={!input.trim() || isLoading}
+                  className="flex-1"
+                >
+                  <Database className="h-4 w-4 mr-2" />
+                  {isLoading ? "Loading..." : "Load Schema"}
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={clearCatalog}
+                  disabled={!catalog && !input}
+                >
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Clear
+                </Button>
+              </div>
+              {error && <ErrorMessage message={error} />}
+            </CardContent>
+          </Card>
+
+          <Card className="shadow-elegant">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Database className="h-5 w-5 text-primary" />
+                Catalog
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {!catalog && (
+                <p className="text-sm text-muted-foreground">
+                  No schema loaded - queries are analyzed on their own.
+                </p>
+              )}
+              {tables.length > 0 && (
+                <ul className="space-y-2">
+                  {tables.map(([key, table]) => (
+                    <li key={key} className="flex flex-wrap items-center gap-2 text-sm">
+                      <code className="font-mono text-primary">{key}</code>
+                      {table.partitioned && (
+                        <Badge variant="outline" className="text-xs">partitioned</Badge>
+                      )}
+                      {table.partitionOf && (
+                        <Badge variant="outline" className="text-xs">
+                          {table.defaultPartition ? "default partition" : "partition"} of {table.partitionOf}
+                        </Badge>
+                      )}
+                      <span className="text-xs text-muted-foreground">
+                        {table.indexes.length} indexes, {table.foreignKeys.length} foreign keys,{" "}
+                        {table.triggers.length} triggers
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {views.length > 0 && (
+                <div>
+                  <h4 className="font-semibold text-sm text-muted-foreground mb-2">Views</h4>
+                  <ul className="space-y-1">
+                    {views.map(([key, view]) => (
+                      <li key={key} className="text-sm">
+                        <code className="font-mono text-primary">{key}</code>
+                        <span className="text-xs text-muted-foreground">
+                          {" "}
+                          {view.materialized ? "materialized, " : ""}reads {view.tables.join(", ")}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+              {functions.length > 0 && (
+                <div>
+                  <h4 className="font-semibold text-sm text-muted-foreground mb-2">Functions</h4>
+                  <ul className="space-y-1">
+                    {functions.map(([key, func]) => (
+                      <li key={key} className="text-sm">
+                        <code className="font-mono text-primary">{key}</code>
+                        <span className="text-xs text-muted-foreground">
+                          {" "}
+                          {func.language}, {func.statements.length} statements
+                          {func.dynamic && ", dynamic SQL"}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+              {sequences.length > 0 && (
+                <div>
+                  <h4 className="font-semibold text-sm text-muted-foreground mb-2">Sequences</h4>
+                  <p className="text-sm font-mono">{sequences.join(", ")}</p>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Schema;
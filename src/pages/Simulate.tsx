@@ -0,0 +1,376 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { ErrorMessage } from "@/components/ErrorMessage";
+import { DeadlockPanel } from "@/components/DeadlockPanel";
+import { parseScript } from "@/lib/sqlParser";
+import { getCatalogAnalysisOptions } from "@/lib/schemaCatalog";
+import {
+  simulateLockQueue,
+  SessionStatus,
+  SimulationResult,
+  SimulationSession,
+} from "@/lib/lockQueueSimulator";
+import { findPotentialDeadlocks, PotentialDeadlock } from "@/lib/deadlockDetection";
+import { useSchemaCatalog } from "@/hooks/use-schema-catalog";
+import { usePgVersion } from "@/hooks/use-pg-version";
+import {
+  Play,
+  Plus,
+  Trash2,
+  ChevronLeft,
+  ChevronRight,
+  ListOrdered,
+  Table2,
+  AlertTriangle,
+} from "lucide-react";
+
+const MAX_SESSIONS = 6;
+
+// A long-running read, a migration queued behind it and the reads queued behind the migration
+const DEFAULT_LANES = [
+  "BEGIN;\nSELECT * FROM orders;\nSELECT pg_sleep(60);\nSELECT pg_sleep(60);\nCOMMIT;",
+  "SELECT pg_sleep(1);\nALTER TABLE orders ADD COLUMN note text;",
+  "SELECT pg_sleep(1);\nSELECT pg_sleep(1);\nSELECT * FROM orders;",
+];
+
+const getStatusBadgeVariant = (status: SessionStatus) => {
+  switch (status) {
+    case "waiting":
+    case "failed":
+      return "destructive";
+    case "running":
+      return "default";
+    default:
+      return "outline";
+  }
+};
+
+const Simulate = () => {
+  const { catalog } = useSchemaCatalog();
+  const { version } = usePgVersion();
+  const [lanes, setLanes] = useState<string[]>(DEFAULT_LANES);
+  const [sessions, setSessions] = useState<SimulationSession[]>([]);
+  const [result, setResult] = useState<SimulationResult | null>(null);
+  const [deadlocks, setDeadlocks] = useState<PotentialDeadlock[]>([]);
+  const [currentStep, setCurrentStep] = useState(0);
+  const [error, setError] = useState("");
+  const [isSimulating, setIsSimulating] = useState(false);
+
+  const sessionName = (index: number) => `Session ${index + 1}`;
+
+  const updateLane = (index: number, value: string) => {
+    setLanes(lanes.map((lane, i) => (i === index ? value : lane)));
+  };
+
+  const runSimulation = async () => {
+    setIsSimulating(true);
+    setError("");
+    setResult(null);
+
+    const options = { ...getCatalogAnalysisOptions(catalog), version };
+    const parsedSessions: SimulationSession[] = [];
+    for (const [index, lane] of lanes.entries()) {
+      if (!lane.trim()) {
+        parsedSessions.push({ name: sessionName(index), statements: [] });
+        continue;
+      }
+      const parsed = await parseScript(lane, options);
+      if (!parsed.isValid) {
+        setError(`${sessionName(index)}: ${parsed.error || "Failed to parse SQL"}`);
+        setIsSimulating(false);
+        return;
+      }
+      parsedSessions.push({ name: sessionName(index), statements: parsed.statements });
+    }
+
+    setSessions(parsedSessions);
+    setResult(simulateLockQueue(parsedSessions));
+    setDeadlocks(findPotentialDeadlocks(parsedSessions));
+    setCurrentStep(0);
+    setIsSimulating(false);
+  };
+
+  const step = result?.steps[currentStep];
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background to-muted/30">
+      <div className="container mx-auto px-4 py-8 max-w-6xl">
+        {/* Header */}
+        <div className="text-center mb-8">
+          <h1 className="text-4xl font-bold bg-gradient-to-r from-primary to-accent bg-clip-text text-transparent mb-4">
+            Lock Queue Simulator
+          </h1>
+          <p className="text-lg text-muted-foreground max-w-3xl mx-auto">
+            Run several sessions side by side and step through time. Every
+            session runs one statement per step, unless it waits for a lock -
+            and a waiting lock request blocks every later request that conflicts
+            with it, even when the lock that is held would not. Use{" "}
+            <code className="font-mono">SELECT pg_sleep(1)</code> to let a
+            session idle for a step. Transactions that lock the same tables in
+            a different order are reported as potential deadlocks.
+          </p>
+        </div>
+
+        <div className="space-y-8">
+          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+            {lanes.map((lane, index) => (
+              <Card key={index} className="shadow-elegant">
+                <CardHeader className="pb-3">
+                  <div className="flex items-center justify-between">
+                    <CardTitle className="text-base">{sessionName(index)}</CardTitle>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setLanes(lanes.filter((_, i) => i !== index))}
+                      disabled={lanes.length <= 2}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  <Textarea
+                    value={lane}
+                    onChange={(e) => updateLane(index, e.target.value)}
+                    placeholder={"BEGIN;\nSELECT * FROM orders;\nCOMMIT;"}
+                    className="min-h-[180px] font-mono text-sm"
+                  />
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              onClick={() => setLanes([...lanes, ""])}
+              disabled={lanes.length >= MAX_SESSIONS}
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add Session
+            </Button>
+            <Button
+              onClick={runSimulation}
+              disabled={lanes.every((lane) => !lane.trim()) || isSimulating}
+              className="flex-1"
+            >
+              <Play className="h-4 w-4 mr-2" />
+              {isSimulating ? "Simulating..." : "Simulate"}
+            </Button>
+          </div>
+
+          {error && <ErrorMessage message={error} />}
+
+          {result && (
+            <DeadlockPanel
+              deadlocks={deadlocks}
+              sessionNames={sessions.map((session) => session.name)}
+            />
+          )}
+
+          {result && step && (
+            <>
+              <Card className="shadow-elegant">
+                <CardHeader>
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <CardTitle className="flex items-center gap-2">
+                      <ListOrdered className="h-5 w-5 text-primary" />
+                      Step {step.step} of {result.steps.length}
+                    </CardTitle>
+                    <div className="flex gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setCurrentStep(currentStep - 1)}
+                        disabled={currentStep === 0}
+                      >
+                        <ChevronLeft className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setCurrentStep(currentStep + 1)}
+                        disabled={currentStep === result.steps.length - 1}
+                      >
+                        <ChevronRight className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-6">
+                  {/* Timeline - one row per step, one column per session */}
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-xs">
+                      <thead>
+                        <tr className="text-muted-foreground">
+                          <th className="text-left font-medium p-1">Step</th>
+                          {sessions.map((session) => (
+                            <th key={session.name} className="text-left font-medium p-1">
+                              {session.name}
+                            </th>
+                          ))}
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {result.steps.map((timelineStep, index) => (
+                          <tr
+                            key={timelineStep.step}
+                            onClick={() => setCurrentStep(index)}
+                            className={
+                              index === currentStep
+                                ? "bg-primary/10 cursor-pointer"
+                                : "cursor-pointer hover:bg-muted/50"
+                            }
+                          >
+                            <td className="p-1 font-mono">{timelineStep.step}</td>
+                            {timelineStep.sessions.map((state) => (
+                              <td key={state.session} className="p-1">
+                                <Badge
+                                  variant={getStatusBadgeVariant(state.status)}
+                                  className="text-xs"
+                                >
+                                  {state.status}
+                                </Badge>
+                              </td>
+                            ))}
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+
+                  {/* Sessions in the current step */}
+                  <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+                    {step.sessions.map((state) => {
+                      const statement =
+                        state.statementIndex !== undefined
+                          ? sessions[state.session].statements[state.statementIndex]
+                          : undefined;
+                      return (
+                        <div
+                          key={state.session}
+                          className="border-l-2 border-primary/30 pl-4 space-y-2"
+                        >
+                          <div className="flex flex-wrap items-center gap-2">
+                            <span className="font-semibold text-sm">
+                              {sessions[state.session].name}
+                            </span>
+                            <Badge
+                              variant={getStatusBadgeVariant(state.status)}
+                              className="text-xs"
+                            >
+                              {state.status}
+                            </Badge>
+                            {state.inTransaction && (
+                              <Badge variant="outline" className="text-xs">
+                                in transaction
+                              </Badge>
+                            )}
+                          </div>
+                          {statement && (
+                            <pre className="text-xs font-mono bg-muted/50 rounded p-2 whitespace-pre-wrap break-words">
+                              {statement.sql}
+                            </pre>
+                          )}
+                          {state.waitingFor && (
+                            <div className="text-sm space-y-1">
+                              <p>
+                                Waits for{" "}
+                                <Link to={`/lock/${encodeURIComponent(state.waitingFor.lockMode)}`}>
+                                  <Badge
+                                    variant="outline"
+                                    className="font-mono text-xs cursor-pointer hover:opacity-80 transition-opacity"
+                                  >
+                                    {state.waitingFor.lockMode}
+                                  </Badge>
+                                </Link>{" "}
+                                on <code className="font-mono">{state.waitingFor.table}</code>
+                              </p>
+                              {state.waitingFor.blockedBy.map((blocker, i) => (
+                                <p key={i} className="text-xs text-muted-foreground">
+                                  Blocked by {sessions[blocker.session].name} (
+                                  {blocker.lockMode},{" "}
+                                  {blocker.granted ? "held" : "queued ahead"})
+                                </p>
+                              ))}
+                            </div>
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+
+                  {step.events.length > 0 && (
+                    <ul className="space-y-1">
+                      {step.events.map((event, i) => (
+                        <li key={i} className="text-sm text-muted-foreground">
+                          {event}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  {result.stuck && currentStep === result.steps.length - 1 && (
+                    <p className="text-sm text-warning flex items-center gap-1">
+                      <AlertTriangle className="h-3 w-3 shrink-0" />
+                      Sessions are left waiting for locks that are never released.
+                    </p>
+                  )}
+                </CardContent>
+              </Card>
+
+              <Card className="shadow-elegant">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Table2 className="h-5 w-5 text-primary" />
+                    Lock Queues
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {step.tables.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">
+                      No table locks are held or requested in this step.
+                    </p>
+                  ) : (
+                    <div className="grid gap-4 md:grid-cols-2">
+                      {step.tables.map((table) => (
+                        <div key={table.table} className="space-y-2">
+                          <code className="font-mono text-sm text-primary">{table.table}</code>
+                          <div className="flex flex-wrap items-center gap-2">
+                            <span className="text-xs text-muted-foreground">Granted:</span>
+                            {table.granted.map((lock, i) => (
+                              <Badge key={i} variant="secondary" className="font-mono text-xs">
+                                {sessions[lock.session].name}: {lock.lockMode}
+                              </Badge>
+                            ))}
+                          </div>
+                          {table.waiting.length > 0 && (
+                            <ol className="space-y-1">
+                              {table.waiting.map((lock, i) => (
+                                <li key={i} className="text-xs flex items-center gap-2">
+                                  <span className="text-muted-foreground">{i + 1}.</span>
+                                  <Badge variant="outline" className="font-mono text-xs">
+                                    {sessions[lock.session].name}: {lock.lockMode}
+                                  </Badge>
+                                </li>
+                              ))}
+                            </ol>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Simulate;